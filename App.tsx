@@ -1,12 +1,73 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { VideoInput } from './components/VideoInput';
-import { VideoFile, SummaryState, ChatMessage, AVAILABLE_VOICES, Language } from './types';
-import { analyzeVideo, createChatSession, sendChatMessageStream, synthesizeSpeech, LiveSession, setRuntimeApiKey } from './services/geminiService';
-import { fileToBase64, downloadTextFile } from './services/utils';
+import { ChapterList } from './components/ChapterList';
+import { AnalysisView } from './components/AnalysisView';
+import { Markdown } from './components/Markdown';
+import { ExportMenu } from './components/ExportMenu';
+import { LibrarySidebar } from './components/LibrarySidebar';
+import { BatchQueuePanel } from './components/BatchQueuePanel';
+import { ComparisonView } from './components/ComparisonView';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { TemplatePicker } from './components/TemplatePicker';
+import { TemplateManager } from './components/TemplateManager';
+import { TranscriptView } from './components/TranscriptView';
+import { SubtitlePanel } from './components/SubtitlePanel';
+import { CaptionEditor } from './components/CaptionEditor';
+import { LanguagePicker } from './components/LanguagePicker';
+import { TranslateMenu } from './components/TranslateMenu';
+import { RangeSelector } from './components/RangeSelector';
+import { SegmentProgress } from './components/SegmentProgress';
+import { LiveOrb } from './components/LiveOrb';
+import { VideoFile, SummaryState, ChatMessage, AVAILABLE_VOICES, Language, VideoReference, UploadProgress, ChaptersState, ExportFormat, LibraryEntry, BatchJob, ComparisonState, ComparisonSource, VideoChatSession, LiveConnection, ProviderSettings, AnalysisTemplate, SummaryDepth, TemplateRef, LanguagePreferences, Transcript, TranscriptState, SubtitleCue, SubtitleLanguage, SubtitlesState, VideoClip, AnalysisSegment, LiveTranscript, LiveState, LiveErrorReason, LiveActivity } from './types';
+import { setRuntimeApiKey } from './services/geminiService';
+import {
+  analyzeVideo,
+  analyzeChapters,
+  createChatSession,
+  createComparisonChatSession,
+  compareVideos,
+  isVideoReferenceAvailable,
+  isReferenceUsable,
+  expandSummary,
+  transcribeVideo,
+  synthesizeSpeech,
+  connectLiveSession,
+  uploadVideoFile,
+  getProvider,
+  getProviderSettings,
+  setProviderSettings,
+  needsConfiguration
+} from './services/aiProvider';
+import { exportAnalysis, exportBatch, exportComparison, exportTranscript, exportSubtitles, buildSubtitles, TranscriptFormat } from './services/exportService';
+import { createSubtitleTrack } from './services/subtitles';
+import { AnalysisQueue, BatchWorker } from './services/batchQueue';
+import { probeVideo, formatTimestamp } from './services/utils';
+import {
+  listSessions,
+  saveSession,
+  updateSession,
+  renameSession,
+  deleteSession,
+  discardVideoBlob,
+  getVideoBlob,
+  getSession,
+  getStorageUsage,
+  requestPersistentStorage,
+  getKeepVideoPreference,
+  setKeepVideoPreference,
+  StorageUsage
+} from './services/libraryService';
 import { getTranslation } from './services/translations';
+import { DEFAULT_LANGUAGE, getLanguagePack } from './services/languages';
+import { getLanguagePreferences, setLanguagePreferences } from './services/languagePreferences';
+import { translateSummary, translateMessages } from './services/retranslate';
+import { listTemplates, getTemplate, getSelectedTemplateId, setSelectedTemplateId, templateDisplayName, DEFAULT_TEMPLATE_ID } from './services/templates';
+import { DEFAULT_DEPTH, nextDepth, depthDisplayName } from './services/summaryDepth';
+import { analyzeLongVideo, isLongVideo, failedSegments } from './services/longVideo';
+import { streamVideoFrames } from './services/liveFrames';
+import { listMicrophones } from './services/liveAudio';
 import { 
   BrainCircuit, 
-  Download, 
   Loader2, 
   Sparkles, 
   Video, 
@@ -16,43 +77,114 @@ import {
   Volume2,
   StopCircle,
   Mic,
+  MicOff,
   Activity,
   FileText,
   Cpu,
   Radio,
   Power,
-  Waves,
-  Globe,
   Settings,
-  Key
+  Key,
+  X,
+  ListVideo,
+  History,
+  HardDrive,
+  LayoutTemplate,
+  ListPlus,
+  ScrollText,
+  MessageCircle,
+  Link,
+  Scissors,
+  Eye
 } from 'lucide-react';
-import { Chat } from '@google/genai';
 
 export default function App() {
   const [video, setVideo] = useState<VideoFile | null>(null);
   const [summary, setSummary] = useState<SummaryState>({
     isLoading: false,
     text: null,
+    analysis: null,
     error: null,
   });
 
-  // Language State
-  const [language, setLanguage] = useState<Language>('en');
+  // Upload State (the video is uploaded once and reused by analysis, chat and live mode)
+  const [uploadedVideo, setUploadedVideo] = useState<VideoReference | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+
+  // Chapters State
+  const [chapters, setChapters] = useState<ChaptersState>({
+    isLoading: false,
+    items: null,
+    error: null,
+  });
+  const [summaryView, setSummaryView] = useState<'overview' | 'chapters'>('overview');
+
+  // Transcript State
+  const [transcript, setTranscript] = useState<TranscriptState>({
+    isLoading: false,
+    transcript: null,
+    error: null,
+  });
+
+  // Subtitles State
+  const [subtitles, setSubtitles] = useState<SubtitlesState>({
+    isLoading: false,
+    track: null,
+    error: null,
+  });
+  const [subtitleTarget, setSubtitleTarget] = useState<SubtitleLanguage>('source');
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [isCaptionEditorOpen, setIsCaptionEditorOpen] = useState(false);
+  const [subtitleUrl, setSubtitleUrl] = useState<string | null>(null);
+
+  // Template State
+  const [templates, setTemplates] = useState<AnalysisTemplate[]>(listTemplates());
+  const [selectedTemplateId, setSelectedTemplateIdState] = useState(getSelectedTemplateId());
+  const [summaryDepth, setSummaryDepth] = useState<SummaryDepth>(DEFAULT_DEPTH);
+  const [isExpanding, setIsExpanding] = useState(false);
+  const [expandError, setExpandError] = useState<string | null>(null);
+  const [isTranslatingSummary, setIsTranslatingSummary] = useState(false);
+  const [summaryTranslateError, setSummaryTranslateError] = useState<string | null>(null);
+  const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
+
+  // Player State
+  const videoElementRef = useRef<HTMLVideoElement>(null);
+  const captionTrackRef = useRef<HTMLTrackElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState<number | null>(null);
+  // Part of the video to analyze; null for the whole video
+  const [clip, setClip] = useState<VideoClip | null>(null);
+
+  // Language State: the interface, new reports and chat/live replies each have their own language
+  const [languagePreferences, setLanguagePreferencesState] = useState<LanguagePreferences>(getLanguagePreferences);
+  const language = languagePreferences.ui;
+  const summaryLanguage = languagePreferences.summary;
+  const chatLanguage = languagePreferences.chat;
   const t = getTranslation(language);
 
   // Layout State
-  const [activeTab, setActiveTab] = useState<'summary' | 'chat'>('summary');
+  const [activeTab, setActiveTab] = useState<'summary' | 'transcript' | 'chat'>('summary');
 
   // API Key Management State
   const [showSettings, setShowSettings] = useState(false);
   const [apiKey, setApiKey] = useState('');
-  const [isApiKeySet, setIsApiKeySet] = useState(false);
+  // Setting the key re-renders, which re-evaluates `isConfigured` below
+  const [, setIsApiKeySet] = useState(false);
+  const [providerSettings, setProviderSettingsState] = useState<ProviderSettings>(getProviderSettings());
+  // Every selected provider is ready (e.g. Gemini has a key when it is used)
+  const isConfigured = !needsConfiguration(providerSettings);
 
   // Chat State
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+  const [chatSession, setChatSession] = useState<VideoChatSession | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Read by async handlers to notice that the transcript changed while they ran
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
   const [inputMessage, setInputMessage] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
+  const [isTranslatingChat, setIsTranslatingChat] = useState(false);
+  const [chatTranslateError, setChatTranslateError] = useState<string | null>(null);
   const [selectedVoice, setSelectedVoice] = useState(AVAILABLE_VOICES[0].id);
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
@@ -63,7 +195,48 @@ export default function App() {
 
   // Live Mode State
   const [isLiveMode, setIsLiveMode] = useState(false);
-  const liveSessionRef = useRef<LiveSession | null>(null);
+  const liveSessionRef = useRef<LiveConnection | null>(null);
+  // The same connection as state, for effects and components that follow it
+  const [liveConnection, setLiveConnection] = useState<LiveConnection | null>(null);
+  const [liveState, setLiveState] = useState<LiveState | null>(null);
+  const [liveActivity, setLiveActivity] = useState<LiveActivity>('listening');
+  // Kept across live sessions, like the voice
+  const [liveMuted, setLiveMuted] = useState(false);
+  const [liveInputDeviceId, setLiveInputDeviceId] = useState<string | null>(null);
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [micSwitchError, setMicSwitchError] = useState(false);
+  // Raised for every live session so state changes of an ended one are ignored
+  const liveTokenRef = useRef(0);
+  // Spoken turns still being transcribed; the chat is saved once they end
+  const openLiveTurnsRef = useRef(new Set<string>());
+  // Set when a live session added turns the text chat has not seen yet
+  const liveTurnsAddedRef = useRef(false);
+  const liveStartedAtRef = useRef(0);
+
+  // Library State
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [libraryEntries, setLibraryEntries] = useState<LibraryEntry[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [keepVideo, setKeepVideo] = useState(getKeepVideoPreference());
+  const [libraryNotice, setLibraryNotice] = useState<string | null>(null);
+  // Messages as last loaded from / written to the library, to avoid redundant writes
+  const persistedMessagesRef = useRef<ChatMessage[] | null>(null);
+
+  // Batch State (the worker is read through a ref so it always sees current settings)
+  const batchWorkerRef = useRef<BatchWorker | null>(null);
+  const batchQueueRef = useRef<AnalysisQueue | null>(null);
+  if (!batchQueueRef.current) {
+    batchQueueRef.current = new AnalysisQueue((job, signal, update) => batchWorkerRef.current!(job, signal, update));
+  }
+  const batchQueue = batchQueueRef.current;
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchConcurrency, setBatchConcurrency] = useState(batchQueue.getConcurrency());
+
+  // Comparison State (reuses the chat state above for the multi-video chat)
+  const [comparison, setComparison] = useState<ComparisonState | null>(null);
+  // Sources of the comparison on screen, so late results of a closed one are ignored
+  const activeComparisonRef = useRef<ComparisonSource[] | null>(null);
 
   // Initialize API Key from env or local storage
   useEffect(() => {
@@ -78,7 +251,7 @@ export default function App() {
       setRuntimeApiKey(storedKey);
       setApiKey(storedKey);
       setIsApiKeySet(true);
-    } else {
+    } else if (needsConfiguration()) {
       setShowSettings(true);
     }
   }, []);
@@ -88,50 +261,496 @@ export default function App() {
       setRuntimeApiKey(apiKey.trim());
       localStorage.setItem('gemini_api_key', apiKey.trim());
       setIsApiKeySet(true);
+    }
+    if (!needsConfiguration()) {
       setShowSettings(false);
     }
   };
 
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    setProviderSettingsState(getProviderSettings());
+  };
+
+  // Library Functions
+  const refreshLibrary = async () => {
+    try {
+      setLibraryEntries(await listSessions());
+      setStorageUsage(await getStorageUsage());
+    } catch (err) {
+      console.warn("Failed to load library:", err);
+    }
+  };
+
+  useEffect(() => {
+    refreshLibrary();
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = getLanguagePack(language).dir;
+  }, [language]);
+
+  // Persist chat history of the current session once a reply has finished streaming
+  useEffect(() => {
+    if (!currentSessionId || isChatLoading || openLiveTurnsRef.current.size > 0 || messages === persistedMessagesRef.current) return;
+    persistedMessagesRef.current = messages;
+    updateSession(currentSessionId, { messages })
+      .then(() => refreshLibrary())
+      .catch(err => console.warn("Failed to save chat history:", err));
+  }, [messages, isChatLoading, currentSessionId]);
+
+  const saveAnalysisToLibrary = async (result: {
+    text: string;
+    analysis: SummaryState['analysis'];
+    model: string;
+    analyzedAt: number;
+    template: TemplateRef;
+    depth: SummaryDepth;
+    language: Language;
+    clip: VideoClip | null;
+    segments: AnalysisSegment[] | null;
+    reference: VideoReference;
+  }) => {
+    if (!video) return;
+    try {
+      const fields = {
+        videoReference: result.reference,
+        summaryText: result.text,
+        analysis: result.analysis,
+        chapters: result.analysis ? result.analysis.chapters : null,
+        language: result.language,
+        model: result.model,
+        analyzedAt: result.analyzedAt,
+        template: result.template,
+        depth: result.depth,
+        clip: result.clip,
+        segments: result.segments
+      };
+
+      // Re-analyzing an opened session updates it instead of creating a duplicate
+      if (currentSessionId && await updateSession(currentSessionId, fields)) {
+        await refreshLibrary();
+        return;
+      }
+
+      const now = Date.now();
+      const entry: LibraryEntry = {
+        id: `session-${now}`,
+        title: video.name.replace(/\.[^.]+$/, ''),
+        createdAt: now,
+        updatedAt: now,
+        thumbnail: video.url ? (await probeVideo(video.url)).thumbnail : null,
+        video: { name: video.name, type: video.type, size: video.size, duration: videoDuration },
+        messages: [],
+        hasVideoBlob: false,
+        ...fields
+      };
+      const saved = await saveSession(entry, keepVideo ? video.file : null);
+      if (keepVideo && !saved.hasVideoBlob) {
+        setLibraryNotice(t.storageFull);
+      }
+      setCurrentSessionId(saved.id);
+      await refreshLibrary();
+    } catch (err) {
+      console.warn("Failed to save session to library:", err);
+    }
+  };
+
+  // Template Functions
+  const handleTemplateSelect = (id: string) => {
+    setSelectedTemplateIdState(id);
+    setSelectedTemplateId(id);
+  };
+
+  const handleTemplatesChange = () => {
+    setTemplates(listTemplates());
+    // The selected template may have been deleted
+    setSelectedTemplateIdState(getSelectedTemplateId());
+  };
+
+  /**
+   * Options for the next analysis, plus the template reference recorded with its result.
+   */
+  const currentAnalysisOptions = () => {
+    const template = getTemplate(selectedTemplateId);
+    const ref: TemplateRef = { id: template.id, name: templateDisplayName(template, language) };
+    return { options: { template, depth: summaryDepth }, template: ref };
+  };
+
+  // Batch Functions
+  useEffect(() => batchQueue.subscribe(setBatchJobs), []);
+
+  batchWorkerRef.current = async (job, signal, update) => {
+    if (!job.video.file) throw new Error(t.validFileErr);
+
+    let reference = job.reference && isReferenceUsable(job.reference, 'analysis') ? job.reference : null;
+    if (!reference) {
+      reference = await uploadVideoFile(
+        job.video.file,
+        (progress) => update({ progress: progress.total ? progress.loaded / progress.total : 0 }),
+        signal
+      );
+      update({ reference });
+    }
+
+    update({ status: 'analyzing', progress: 1 });
+    const { options, template } = currentAnalysisOptions();
+    const outputLanguage = summaryLanguage;
+    const { text, analysis, model } = await analyzeVideo(reference, outputLanguage, options);
+    if (signal.aborted) throw new DOMException('Cancelled', 'AbortError');
+    const analyzedAt = Date.now();
+
+    let duration: number | null = null;
+    let sessionId: string | null = null;
+    try {
+      const probe = job.video.url ? await probeVideo(job.video.url) : null;
+      duration = probe?.duration ?? null;
+      const entry: LibraryEntry = {
+        id: `session-${analyzedAt}-${job.id}`,
+        title: job.video.name.replace(/\.[^.]+$/, ''),
+        createdAt: analyzedAt,
+        updatedAt: analyzedAt,
+        thumbnail: probe?.thumbnail ?? null,
+        video: { name: job.video.name, type: job.video.type, size: job.video.size, duration },
+        videoReference: reference,
+        summaryText: text,
+        analysis,
+        chapters: analysis ? analysis.chapters : null,
+        template,
+        depth: options.depth,
+        messages: [],
+        language: outputLanguage,
+        model,
+        analyzedAt,
+        hasVideoBlob: false
+      };
+      sessionId = (await saveSession(entry, keepVideo ? job.video.file : null)).id;
+      refreshLibrary();
+    } catch (err) {
+      console.warn("Failed to save batch result to library:", err);
+    }
+
+    return { text, analysis, model, analyzedAt, template, depth: options.depth, language: outputLanguage, duration, sessionId };
+  };
+
+  const handleVideosSelected = (videos: VideoFile[]) => {
+    if (!isConfigured) {
+      setShowSettings(true);
+      return;
+    }
+    batchQueue.add(videos);
+  };
+
+  const handleBatchConcurrencyChange = (concurrency: number) => {
+    batchQueue.setConcurrency(concurrency);
+    setBatchConcurrency(batchQueue.getConcurrency());
+  };
+
+  const handleOpenBatchJob = async (job: BatchJob) => {
+    if (!job.result?.sessionId) return;
+    try {
+      const entry = await getSession(job.result.sessionId);
+      if (entry) await handleOpenSession(entry);
+    } catch (err) {
+      console.warn("Failed to open batch result:", err);
+    }
+  };
+
+  const handleBatchExport = (format: ExportFormat) => {
+    const docs = batchJobs
+      .filter(job => job.status === 'done' && job.result)
+      .map(job => {
+        const result = job.result!;
+        return {
+          meta: {
+            videoName: job.video.name,
+            videoSize: job.video.size,
+            duration: result.duration,
+            analyzedAt: result.analyzedAt,
+            model: result.model,
+            language: result.language,
+            template: result.template.name,
+            depth: depthDisplayName(result.depth, result.language)
+          },
+          text: result.text,
+          analysis: result.analysis,
+          chapters: result.analysis ? result.analysis.chapters : [],
+          chat: null
+        };
+      });
+    exportBatch(docs, format, t.batchCombinedTitle);
+  };
+
+  // Comparison Functions
+  const runComparisonReport = async (sources: ComparisonSource[]) => {
+    setComparison(prev => prev && { ...prev, isLoading: true, error: null });
+    try {
+      const { text, model } = await compareVideos(sources, summaryLanguage);
+      if (activeComparisonRef.current !== sources) return;
+      setComparison(prev => prev && { ...prev, isLoading: false, report: text, model });
+    } catch (error: any) {
+      if (activeComparisonRef.current !== sources) return;
+      console.error("Comparison failed:", error);
+      setComparison(prev => prev && { ...prev, isLoading: false, error: error.message || t.comparisonFailed });
+    }
+  };
+
+  const handleCompare = async (ids: string[]) => {
+    const selected = ids
+      .map(id => libraryEntries.find(e => e.id === id))
+      .filter((e): e is LibraryEntry => !!e);
+    if (selected.length < 2) return;
+    if (!isConfigured) {
+      setShowSettings(true);
+      return;
+    }
+
+    handleHome();
+    setIsLibraryOpen(false);
+
+    // Expired uploads are compared from their saved analysis instead
+    const sources: ComparisonSource[] = await Promise.all(selected.map(async (entry, i) => ({
+      label: `Video ${String.fromCharCode(65 + i)}`,
+      sessionId: entry.id,
+      title: entry.title,
+      thumbnail: entry.thumbnail,
+      reference: entry.videoReference && await isVideoReferenceAvailable(entry.videoReference)
+        ? entry.videoReference
+        : null,
+      summaryText: entry.summaryText
+    })));
+
+    activeComparisonRef.current = sources;
+    setComparison({ sources, isLoading: true, report: null, error: null });
+    runComparisonReport(sources);
+
+    try {
+      const session = await createComparisonChatSession(sources, chatLanguage);
+      if (activeComparisonRef.current !== sources) return;
+      setChatSession(session);
+      setMessages([{
+        id: 'init',
+        role: 'model',
+        text: getTranslation(chatLanguage).comparisonGreeting.replace('{videos}', sources.map(s => s.label).join(', ')),
+        timestamp: Date.now()
+      }]);
+    } catch (chatErr) {
+      console.warn("Comparison chat initialization warning:", chatErr);
+    }
+  };
+
+  const handleComparisonExport = (format: ExportFormat) => {
+    if (comparison) exportComparison(comparison, format, getTranslation(summaryLanguage).comparisonTitle, summaryLanguage);
+  };
+
+  const handleOpenSession = async (entry: LibraryEntry) => {
+    cancelUpload();
+    stopChatAudio();
+    stopLiveMode();
+    setIsLibraryOpen(false);
+
+    let file: File | null = null;
+    if (entry.hasVideoBlob) {
+      try {
+        const blob = await getVideoBlob(entry.id);
+        if (blob) file = new File([blob], entry.video.name, { type: entry.video.type });
+      } catch (err) {
+        console.warn("Failed to load stored video:", err);
+      }
+    }
+
+    setVideo({
+      file,
+      url: file ? URL.createObjectURL(file) : null,
+      name: entry.video.name,
+      type: entry.video.type,
+      size: entry.video.size
+    });
+    setUploadedVideo(entry.videoReference);
+    setSummary({
+      isLoading: false,
+      text: entry.summaryText,
+      analysis: entry.analysis,
+      error: null,
+      model: entry.model,
+      analyzedAt: entry.analyzedAt,
+      template: entry.template ?? undefined,
+      depth: entry.depth,
+      language: entry.language,
+      clip: entry.clip ?? null,
+      segments: entry.segments ?? null
+    });
+    setExpandError(null);
+    setSummaryTranslateError(null);
+    setChapters({ isLoading: false, items: entry.chapters, error: null });
+    setTranscript({ isLoading: false, transcript: entry.transcript ?? null, error: null });
+    setSubtitles({ isLoading: false, track: entry.subtitles ?? null, error: null });
+    setSummaryView('overview');
+    setCurrentTime(0);
+    setVideoDuration(entry.video.duration);
+    setClip(entry.clip ?? null);
+    setActiveTab('summary');
+    setLibraryNotice(null);
+    activeComparisonRef.current = null;
+    setComparison(null);
+    persistedMessagesRef.current = entry.messages;
+    setMessages(entry.messages);
+    setChatTranslateError(null);
+    setCurrentSessionId(entry.id);
+
+    // Rebuild the chat from the saved transcript. Files API uploads expire,
+    // in which case the chat continues from the saved analysis text instead.
+    setChatSession(null);
+    try {
+      const reference = entry.videoReference && await isVideoReferenceAvailable(entry.videoReference)
+        ? entry.videoReference
+        : null;
+      if (!reference) setUploadedVideo(null);
+      setChatSession(await createChatSession(reference, chatLanguage, {
+        transcript: entry.messages,
+        contextText: entry.summaryText
+      }));
+    } catch (err) {
+      console.warn("Could not restore chat session:", err);
+    }
+  };
+
+  const handleRenameSession = async (id: string, title: string) => {
+    try {
+      await renameSession(id, title);
+      await refreshLibrary();
+    } catch (err) {
+      console.warn("Rename failed:", err);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      if (id === currentSessionId) setCurrentSessionId(null);
+      await refreshLibrary();
+    } catch (err) {
+      console.warn("Delete failed:", err);
+    }
+  };
+
+  const handleDiscardVideo = async (id: string) => {
+    try {
+      await discardVideoBlob(id);
+      await refreshLibrary();
+    } catch (err) {
+      console.warn("Discarding video failed:", err);
+    }
+  };
+
+  const handleKeepVideoChange = (keep: boolean) => {
+    setKeepVideo(keep);
+    setKeepVideoPreference(keep);
+    if (keep) {
+      requestPersistentStorage().catch(() => { /* Best effort */ });
+    }
+  };
+
+  const cancelUpload = () => {
+    if (uploadAbortRef.current) {
+      uploadAbortRef.current.abort();
+      uploadAbortRef.current = null;
+    }
+    setUploadProgress(null);
+  };
+
   const handleVideoSelected = (selectedVideo: VideoFile) => {
+    cancelUpload();
     setVideo(selectedVideo);
-    setSummary({ isLoading: false, text: null, error: null });
+    setUploadedVideo(null);
+    setSummary({ isLoading: false, text: null, analysis: null, error: null });
+    setChapters({ isLoading: false, items: null, error: null });
+    setTranscript({ isLoading: false, transcript: null, error: null });
+    setSubtitles({ isLoading: false, track: null, error: null });
+    setSummaryView('overview');
+    setCurrentTime(0);
+    setVideoDuration(null);
+    setClip(null);
     setChatSession(null);
     setMessages([]);
+    setChatTranslateError(null);
+    setCurrentSessionId(null);
+    setLibraryNotice(null);
     setIsLiveMode(false);
     setActiveTab('summary');
   };
 
+  /**
+   * A link the analysis provider reads by URL: there is nothing to upload or
+   * play, the reference is used as if the video had been uploaded.
+   */
+  const handleVideoLinked = (linkedVideo: VideoFile, reference: VideoReference) => {
+    handleVideoSelected(linkedVideo);
+    setUploadedVideo(reference);
+  };
+
   const handleAnalyze = async () => {
-    if (!video || !video.file) return;
+    if (!video || (!video.file && !uploadedVideo)) return;
 
-    // Double check key
-    if (!isApiKeySet) {
+    // Double check the selected providers are set up
+    if (!isConfigured) {
       setShowSettings(true);
       return;
     }
 
-    setSummary({ isLoading: true, text: null, error: null });
+    setSummary({ isLoading: true, text: null, analysis: null, error: null });
+    setChapters({ isLoading: false, items: null, error: null });
+    setSummaryView('overview');
+    setExpandError(null);
+    setSummaryTranslateError(null);
     console.log("Starting processing for file:", video.name);
+    const outputLanguage = summaryLanguage;
+    const analyzedClip = selectedClip;
+
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
 
     try {
-      // 1. Convert File
-      const base64Data = await fileToBase64(video.file);
-      console.log("File converted to Base64. Size:", base64Data.length);
+      // 1. Upload File (skipped if this video was already uploaded to the analysis provider)
+      let reference = uploadedVideo && isReferenceUsable(uploadedVideo, 'analysis') ? uploadedVideo : null;
+      if (!reference) {
+        // A linked video whose provider is no longer selected for analysis
+        if (!video.file) throw new Error(t.youtubeErr);
+        reference = await uploadVideoFile(video.file, setUploadProgress, controller.signal);
+        setUploadedVideo(reference);
+        console.log("File uploaded:", reference.name);
+      }
       
       // 2. Run Analysis
-      const text = await analyzeVideo(base64Data, video.type, language);
+      setUploadProgress({ phase: 'analyzing', loaded: video.size, total: video.size });
+      const { options, template } = currentAnalysisOptions();
+      // Long videos are analyzed in windows and merged; their progress is shown per window
+      const range = analyzedClip ?? (videoDuration !== null ? { start: 0, end: videoDuration } : null);
+      const { text, analysis, model, segments } = range && isLongVideo(range)
+        ? await analyzeLongVideo(reference, outputLanguage, options, range, {
+            signal: controller.signal,
+            onSegments: (segments) => setSummary(prev => prev.isLoading ? { ...prev, segments } : prev)
+          })
+        : { ...await analyzeVideo(reference, outputLanguage, { ...options, clip: analyzedClip ?? undefined, signal: controller.signal }), segments: null };
+      if (controller.signal.aborted) return;
       
-      setSummary({ isLoading: false, text, error: null });
+      const analyzedAt = Date.now();
+      setSummary({ isLoading: false, text, analysis, error: null, model, analyzedAt, template, depth: options.depth, language: outputLanguage, clip: analyzedClip, segments });
+      if (analysis) {
+        setChapters({ isLoading: false, items: analysis.chapters, error: null });
+      }
       setActiveTab('summary');
+      saveAnalysisToLibrary({ text, analysis, model, analyzedAt, template, depth: options.depth, language: outputLanguage, clip: analyzedClip, segments, reference });
 
       // 3. Initialize Chat Session
       try {
-        const session = await createChatSession(base64Data, video.type, language);
+        const session = await createChatSession(reference, chatLanguage, { contextText: text });
         setChatSession(session);
         setMessages([{
           id: 'init',
           role: 'model',
-          text: language === 'am' ? "ቪዲዮውን አይቼዋለሁ! ማንኛውንም ነገር ይጠይቁኝ።" : "I've watched the video! Ask me anything.",
+          text: getTranslation(chatLanguage).chatGreeting,
           timestamp: Date.now()
         }]);
       } catch (chatErr) {
@@ -139,33 +758,320 @@ export default function App() {
       }
 
     } catch (error: any) {
+      if (error?.name === 'AbortError' || controller.signal.aborted) {
+        console.log("Upload cancelled by user");
+        setSummary({ isLoading: false, text: null, analysis: null, error: null });
+        return;
+      }
       console.error("Analysis workflow failed:", error);
       setSummary({
         isLoading: false,
         text: null,
+        analysis: null,
         error: error.message || "Failed to analyze video. Please try a smaller file or check your connection."
       });
+    } finally {
+      if (uploadAbortRef.current === controller) {
+        uploadAbortRef.current = null;
+        setUploadProgress(null);
+      }
     }
   };
 
-  const handleDownload = () => {
-    if (summary.text) {
-      downloadTextFile(summary.text, `gemini-summary-${Date.now()}.txt`);
+  const handleCancelAnalyze = () => {
+    cancelUpload();
+    setSummary({ isLoading: false, text: null, analysis: null, error: null });
+  };
+
+  /**
+   * Rewrites the current summary one level deeper. The upload is reused when
+   * the analysis provider can still read it; otherwise the text is expanded alone.
+   */
+  const handleExpandSummary = async () => {
+    const previousText = summary.text;
+    const depth = nextDepth(summary.depth ?? DEFAULT_DEPTH);
+    if (!previousText || !depth || isExpanding) return;
+
+    const sessionId = currentSessionId;
+    const template = getTemplate(summary.template?.id ?? DEFAULT_TEMPLATE_ID);
+    // A long video does not fit in one request, so its summary is expanded from the text
+    const reference = !summary.segments && uploadedVideo && isReferenceUsable(uploadedVideo, 'analysis') ? uploadedVideo : null;
+    setIsExpanding(true);
+    setExpandError(null);
+    try {
+      const { text, analysis, model } = await expandSummary(reference, previousText, summary.language ?? summaryLanguage, { template, depth, clip: summary.clip ?? undefined });
+      const analyzedAt = Date.now();
+      // Ignore the result if another video or session was opened meanwhile
+      setSummary(prev => prev.text === previousText ? { ...prev, text, analysis, model, analyzedAt, depth } : prev);
+      if (analysis) {
+        setChapters(prev => ({ ...prev, items: analysis.chapters }));
+      }
+      if (sessionId) {
+        await updateSession(sessionId, {
+          summaryText: text,
+          analysis,
+          chapters: analysis ? analysis.chapters : null,
+          model,
+          analyzedAt,
+          depth
+        });
+        refreshLibrary();
+      }
+    } catch (error: any) {
+      console.error("Expanding summary failed:", error);
+      setExpandError(`${t.expandFailed} ${error.message || ''}`);
+    } finally {
+      setIsExpanding(false);
     }
   };
 
+  /**
+   * Translates the current summary and chapters into `target` without
+   * analyzing the video again. Later expansions and chapters use `target` too.
+   */
+  const handleTranslateSummary = async (target: Language) => {
+    const previousText = summary.text;
+    if (!previousText || isTranslatingSummary) return;
+
+    const sessionId = currentSessionId;
+    setIsTranslatingSummary(true);
+    setSummaryTranslateError(null);
+    try {
+      const result = await translateSummary(previousText, summary.analysis, chapters.items, target);
+      // Ignore the result if another video or session was opened meanwhile
+      setSummary(prev => prev.text === previousText
+        ? { ...prev, text: result.text, analysis: result.analysis, language: target }
+        : prev);
+      setChapters(prev => ({ ...prev, items: result.chapters }));
+      if (sessionId) {
+        await updateSession(sessionId, {
+          summaryText: result.text,
+          analysis: result.analysis,
+          chapters: result.chapters,
+          language: target
+        });
+        refreshLibrary();
+      }
+    } catch (error: any) {
+      console.error("Translating summary failed:", error);
+      setSummaryTranslateError(`${t.translateFailed} ${error.message || ''}`);
+    } finally {
+      setIsTranslatingSummary(false);
+    }
+  };
+
+  // Chapters and transcripts are generated from the upload, so the analysis provider must be able to read it
+  const canGenerateChapters = !!uploadedVideo && isReferenceUsable(uploadedVideo, 'analysis');
+
+  const loadChapters = async () => {
+    if (!uploadedVideo || !canGenerateChapters || chapters.isLoading) return;
+    setChapters({ isLoading: true, items: null, error: null });
+    try {
+      const items = await analyzeChapters(uploadedVideo, summary.language ?? summaryLanguage);
+      setChapters({ isLoading: false, items, error: null });
+      if (currentSessionId) {
+        updateSession(currentSessionId, { chapters: items }).catch(err => console.warn("Failed to save chapters:", err));
+      }
+    } catch (error: any) {
+      console.error("Chapter analysis failed:", error);
+      setChapters({ isLoading: false, items: null, error: error.message || t.chaptersFailed });
+    }
+  };
+
+  const handleShowChapters = () => {
+    setSummaryView('chapters');
+    if (!chapters.items && !chapters.isLoading && canGenerateChapters) {
+      loadChapters();
+    }
+  };
+
+  const canTranscribe = canGenerateChapters;
+
+  const loadTranscript = async (): Promise<Transcript | null> => {
+    if (!uploadedVideo || transcript.isLoading) return null;
+    setTranscript({ isLoading: true, transcript: null, error: null });
+    try {
+      const result = await transcribeVideo(uploadedVideo);
+      setTranscript({ isLoading: false, transcript: result, error: null });
+      if (currentSessionId) {
+        updateSession(currentSessionId, { transcript: result }).catch(err => console.warn("Failed to save transcript:", err));
+      }
+      return result;
+    } catch (error: any) {
+      console.error("Transcription failed:", error);
+      setTranscript({ isLoading: false, transcript: null, error: error.message || t.transcriptFailed });
+      return null;
+    }
+  };
+
+  const handleRenameSpeaker = (id: string, name: string) => {
+    if (!transcript.transcript) return;
+    const updated = { ...transcript.transcript, speakers: { ...transcript.transcript.speakers, [id]: name } };
+    setTranscript({ ...transcript, transcript: updated });
+    if (currentSessionId) {
+      updateSession(currentSessionId, { transcript: updated }).catch(err => console.warn("Failed to save speaker names:", err));
+    }
+  };
+
+  const handleExportTranscript = (format: TranscriptFormat) => {
+    if (!transcript.transcript || !video) return;
+    exportTranscript(transcript.transcript, video.name, format);
+  };
+
+  // Subtitle Functions
+
+  /**
+   * Builds subtitles from the transcript, creating the transcript first if needed.
+   */
+  const handleGenerateSubtitles = async () => {
+    if (subtitles.isLoading) return;
+    setSubtitles({ ...subtitles, isLoading: true, error: null });
+    try {
+      const source = transcript.transcript ?? await loadTranscript();
+      if (!source) throw new Error(t.transcriptFailed);
+      const track = await createSubtitleTrack(source, subtitleTarget);
+      setSubtitles({ isLoading: false, track, error: null });
+      setShowCaptions(true);
+      if (currentSessionId) {
+        updateSession(currentSessionId, { subtitles: track }).catch(err => console.warn("Failed to save subtitles:", err));
+      }
+    } catch (error: any) {
+      console.error("Subtitle generation failed:", error);
+      setSubtitles(prev => ({ ...prev, isLoading: false, error: error.message || t.subtitlesFailed }));
+    }
+  };
+
+  const handleSaveCaptions = (cues: SubtitleCue[]) => {
+    if (!subtitles.track) return;
+    const track = { ...subtitles.track, cues };
+    setSubtitles({ ...subtitles, track });
+    if (currentSessionId) {
+      updateSession(currentSessionId, { subtitles: track }).catch(err => console.warn("Failed to save captions:", err));
+    }
+  };
+
+  const handleDownloadSubtitles = (format: 'srt' | 'vtt') => {
+    if (!subtitles.track || !video) return;
+    exportSubtitles(subtitles.track, video.name, format);
+  };
+
+  // The <track> element needs a URL, so the cues are served as a VTT blob
+  useEffect(() => {
+    const cues = subtitles.track?.cues;
+    if (!cues?.length) {
+      setSubtitleUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([buildSubtitles(cues, 'vtt')], { type: 'text/vtt' }));
+    setSubtitleUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [subtitles.track]);
+
+  // `default` only applies to the first track a video loads, so set the mode directly
+  useEffect(() => {
+    const track = captionTrackRef.current?.track;
+    if (track) track.mode = showCaptions ? 'showing' : 'hidden';
+  }, [subtitleUrl, showCaptions]);
+
+  const seekTo = (seconds: number) => {
+    const el = videoElementRef.current;
+    if (!el) return;
+    el.currentTime = seconds;
+    setCurrentTime(seconds);
+    el.play().catch(() => { /* Autoplay may be blocked; seeking still applies */ });
+  };
+
+  // The range starts out as the whole video; turning it off analyzes the whole video again
+  const handleToggleClip = () => {
+    setClip(prev => prev || videoDuration === null ? null : { start: 0, end: videoDuration });
+  };
+
+  const handleClipChange = (start: number, end: number) => {
+    // Show the frame at whichever end was moved
+    const el = videoElementRef.current;
+    if (el && clip) {
+      el.pause();
+      el.currentTime = start !== clip.start ? start : end;
+    }
+    setClip({ start, end });
+  };
+
+  const handleExport = (format: ExportFormat, includeChat: boolean) => {
+    if (!summary.text || !video) return;
+    exportAnalysis({
+      meta: {
+        videoName: video.name,
+        videoSize: video.size,
+        duration: videoDuration,
+        analyzedAt: summary.analyzedAt ?? Date.now(),
+        model: summary.model ?? 'unknown',
+        language: summary.language ?? summaryLanguage,
+        template: summary.template?.name,
+        depth: summary.depth ? depthDisplayName(summary.depth, summary.language ?? summaryLanguage) : undefined,
+        clip: summary.clip ?? undefined
+      },
+      text: summary.text,
+      analysis: summary.analysis,
+      chapters: chapters.items || [],
+      chat: includeChat ? messages.filter(m => m.id !== 'init' && m.text) : null
+    }, format);
+  };
+
   const handleHome = () => {
+    cancelUpload();
     setVideo(null);
-    setSummary({ isLoading: false, text: null, error: null });
+    setUploadedVideo(null);
+    setSummary({ isLoading: false, text: null, analysis: null, error: null });
+    setChapters({ isLoading: false, items: null, error: null });
+    setTranscript({ isLoading: false, transcript: null, error: null });
+    setSubtitles({ isLoading: false, track: null, error: null });
+    setSummaryView('overview');
+    setCurrentTime(0);
+    setVideoDuration(null);
+    setClip(null);
     setChatSession(null);
     setMessages([]);
+    setChatTranslateError(null);
+    setCurrentSessionId(null);
+    setLibraryNotice(null);
     setInputMessage('');
+    activeComparisonRef.current = null;
+    setComparison(null);
     stopChatAudio();
     stopLiveMode();
   };
 
-  const toggleLanguage = () => {
-    setLanguage(prev => prev === 'en' ? 'am' : 'en');
+  const updateLanguagePreferences = (changes: Partial<LanguagePreferences>) => {
+    const next = { ...languagePreferences, ...changes };
+    setLanguagePreferencesState(next);
+    setLanguagePreferences(next);
+  };
+
+  /**
+   * Recreates the text chat of the current video from `transcript`. Comparison
+   * chats are left as they are.
+   */
+  const rebuildChatSession = async (code: Language, transcript: ChatMessage[]): Promise<VideoChatSession | null> => {
+    if (!chatSession || comparison || !summary.text) return null;
+    const session = await createChatSession(uploadedVideo, code, { transcript, contextText: summary.text });
+    setChatSession(session);
+    return session;
+  };
+
+  /**
+   * Switches the reply language of chat and live mode. A running video chat
+   * is rebuilt from its transcript so the next reply is already in `code`;
+   * comparison chats keep their language until the next comparison.
+   */
+  const handleChatLanguageChange = async (code: Language, transcript: ChatMessage[] = messages) => {
+    updateLanguagePreferences({ chat: code });
+    // Each language brings a voice that suits it; the user can still pick another one
+    setSelectedVoice(getLanguagePack(code).speech.voice);
+    try {
+      await rebuildChatSession(code, transcript);
+    } catch (err) {
+      console.warn("Could not switch chat language:", err);
+    }
   };
 
   // Chat Functions
@@ -210,12 +1116,36 @@ export default function App() {
     }
   };
 
+  /**
+   * Translates the chat transcript into `target` and continues the chat in
+   * that language. The saved session is updated by the persistence effect.
+   */
+  const handleTranslateChat = async (target: Language) => {
+    if (isTranslatingChat || isChatLoading) return;
+    const original = messages;
+    setIsTranslatingChat(true);
+    setChatTranslateError(null);
+    try {
+      const translated = await translateMessages(original, target);
+      // A message sent meanwhile keeps the original transcript
+      if (messagesRef.current !== original) return;
+      setMessages(translated);
+      await handleChatLanguageChange(target, translated);
+    } catch (error: any) {
+      console.error("Translating chat failed:", error);
+      setChatTranslateError(`${t.translateFailed} ${error.message || ''}`);
+    } finally {
+      setIsTranslatingChat(false);
+    }
+  };
+
   const handleSendMessage = async (overrideText?: string) => {
     const textToSend = overrideText || inputMessage;
-    if (!textToSend.trim() || !chatSession) return;
+    if (!textToSend.trim() || !chatSession || isTranslatingChat) return;
 
     stopChatAudio();
-    if (isLiveMode) stopLiveMode();
+    // The text chat continues from what was said in live mode
+    const session = isLiveMode ? (await endLiveMode()) ?? chatSession : chatSession;
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
@@ -239,7 +1169,7 @@ export default function App() {
     }]);
 
     try {
-      const stream = sendChatMessageStream(chatSession, textToSend);
+      const stream = session.sendMessageStream(textToSend);
       for await (const chunk of stream) {
          fullResponseText += chunk;
          setMessages(prev => prev.map(msg => 
@@ -259,7 +1189,7 @@ export default function App() {
   // Live Mode Functions
   const toggleLiveMode = async () => {
     if (isLiveMode) {
-      stopLiveMode();
+      endLiveMode();
     } else {
       startLiveMode();
     }
@@ -270,26 +1200,176 @@ export default function App() {
     stopChatAudio();
     setActiveTab('chat');
     setIsLiveMode(true);
+    liveStartedAtRef.current = Date.now();
+    const token = ++liveTokenRef.current;
+    setLiveState({ status: 'connecting', error: null, attempt: 0 });
+    setLiveActivity('listening');
+    setMicSwitchError(false);
     try {
-      liveSessionRef.current = new LiveSession(selectedVoice, summary.text, language);
+      const connection = connectLiveSession({
+        voiceName: selectedVoice,
+        contextText: summary.text,
+        language: chatLanguage,
+        video: uploadedVideo,
+        history: messagesRef.current,
+        onTranscript: handleLiveTranscript,
+        onStateChange: (state) => {
+          if (liveTokenRef.current === token) setLiveState(state);
+        },
+        onActivityChange: (activity) => {
+          if (liveTokenRef.current === token) setLiveActivity(activity);
+        },
+        inputDeviceId: liveInputDeviceId,
+        muted: liveMuted
+      });
+      liveSessionRef.current = connection;
+      setLiveConnection(connection);
     } catch (err) {
       console.error("Failed to start live session", err);
       setIsLiveMode(false);
+      setLiveState(null);
     }
   };
 
   const stopLiveMode = () => {
     setIsLiveMode(false);
+    liveTokenRef.current++;
+    setLiveState(null);
+    setLiveActivity('listening');
     if (liveSessionRef.current) {
       liveSessionRef.current.disconnect();
       liveSessionRef.current = null;
     }
+    setLiveConnection(null);
+    openLiveTurnsRef.current.clear();
+    liveTurnsAddedRef.current = false;
+  };
+
+  // Starts a new live session after the last one failed, keeping what was said
+  const handleRetryLive = () => {
+    const turnsAdded = liveTurnsAddedRef.current;
+    stopLiveMode();
+    startLiveMode();
+    liveTurnsAddedRef.current = turnsAdded;
+  };
+
+  /**
+   * Ends live mode from the chat and brings the spoken turns into the text
+   * chat, so both continue one conversation. Resolves with the new chat
+   * session, or null if nothing was spoken or it could not be rebuilt.
+   */
+  const endLiveMode = async (): Promise<VideoChatSession | null> => {
+    const turnsAdded = liveTurnsAddedRef.current;
+    stopLiveMode();
+    if (!turnsAdded) return null;
+    try {
+      return await rebuildChatSession(chatLanguage, messagesRef.current);
+    } catch (err) {
+      console.warn("Could not continue the chat after live mode:", err);
+      return null;
+    }
+  };
+
+  // Spoken turns are added to the chat as they are transcribed
+  const handleLiveTranscript = (entry: LiveTranscript) => {
+    if (entry.final) openLiveTurnsRef.current.delete(entry.id);
+    else openLiveTurnsRef.current.add(entry.id);
+    if (!entry.text) {
+      // A turn with nothing transcribed; drop its placeholder
+      setMessages(prev => prev.filter(m => m.id !== entry.id));
+      return;
+    }
+    liveTurnsAddedRef.current = true;
+    setMessages(prev => prev.some(m => m.id === entry.id)
+      ? prev.map(m => m.id === entry.id ? { ...m, text: entry.text } : m)
+      : [...prev, { id: entry.id, role: entry.role, text: entry.text, timestamp: Date.now(), isAudio: true }]);
   };
 
   useEffect(() => {
     return () => stopLiveMode();
   }, []);
 
+  const handleToggleMute = () => {
+    const muted = !liveMuted;
+    setLiveMuted(muted);
+    liveSessionRef.current?.setMuted(muted);
+  };
+
+  const handleInputDeviceChange = async (deviceId: string | null) => {
+    const previous = liveInputDeviceId;
+    setLiveInputDeviceId(deviceId);
+    setMicSwitchError(false);
+    try {
+      await liveSessionRef.current?.setInputDevice(deviceId);
+    } catch (err) {
+      console.warn("Could not switch microphones:", err);
+      setLiveInputDeviceId(previous);
+      setMicSwitchError(true);
+    }
+  };
+
+  // Microphone names are only readable once access was granted, i.e. when live
+  const isLiveConnected = isLiveMode && liveState?.status === 'live';
+  useEffect(() => {
+    if (!isLiveConnected) return;
+    let cancelled = false;
+    const refresh = () => {
+      listMicrophones()
+        .then(devices => {
+          if (!cancelled) setMicrophones(devices);
+        })
+        .catch(err => console.warn("Could not list microphones:", err));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    };
+  }, [isLiveConnected]);
+
+  const liveErrorText: Record<LiveErrorReason, string> = {
+    'microphone-denied': t.liveMicDenied,
+    'microphone-unavailable': t.liveMicUnavailable,
+    auth: t.liveAuthFailed,
+    connection: t.liveConnectionLost
+  };
+
+  const liveStatusText = () => {
+    switch (liveState?.status) {
+      case 'connecting': return t.liveConnecting;
+      case 'reconnecting': return t.liveReconnecting.replace('{attempt}', String(liveState.attempt));
+      case 'error': return t.liveFailed;
+    }
+    switch (liveActivity) {
+      case 'speaking': return t.liveSpeaking;
+      case 'thinking': return t.liveThinking;
+      default: return liveMuted ? t.liveMuted : t.listening;
+    }
+  };
+
+  // Live mode sees what the player shows and follows its pauses and seeks
+  const isLiveWatching = isLiveMode && !!video?.url && liveState?.status !== 'error';
+  const liveTranscript = isLiveMode
+    ? messages.filter(m => m.isAudio && m.timestamp >= liveStartedAtRef.current).slice(-2)
+    : [];
+  // Frames sent before the session is live are dropped, so streaming (and the
+  // position and context frames it starts with) begins once it is live, and
+  // again after every reconnect
+  const isLiveStreaming = isLiveWatching && liveState?.status === 'live';
+  useEffect(() => {
+    const el = videoElementRef.current;
+    if (!isLiveStreaming || !el || !liveConnection) return;
+    return streamVideoFrames(el, liveConnection);
+  }, [isLiveStreaming, video?.url, liveConnection]);
+
+  const currentEntry = libraryEntries.find(e => e.id === currentSessionId) ?? null;
+  // Read by the provider from its URL; there is no local file to play
+  const isLinkedVideo = !!video && !video.file && !!uploadedVideo?.remote;
+  const canAnalyze = !!video && (!!video.file || !!uploadedVideo);
+  // A range covering the whole video is the same as no range
+  const selectedClip = clip && videoDuration !== null && (clip.start > 0.5 || clip.end < videoDuration - 0.5) ? clip : null;
+
   return (
     <div className="min-h-screen font-sans selection:bg-brand-500/30 pb-4 text-slate-100 overflow-x-hidden bg-black relative">
       
@@ -297,7 +1377,15 @@ export default function App() {
       <header className="fixed top-0 left-0 right-0 z-40 glass-panel border-b-0 border-b-white/5 h-14 lg:h-16">
         <div className="max-w-7xl mx-auto px-4 h-full flex items-center justify-between">
           <div className="flex items-center gap-3">
-            {video && (
+            <button
+              onClick={() => { refreshLibrary(); setIsLibraryOpen(true); }}
+              className="glass-button p-1.5 rounded-lg text-brand-300 hover:text-white transition-all"
+              aria-label={t.library}
+              title={t.library}
+            >
+              <History className="w-4 h-4" />
+            </button>
+            {(video || comparison) && (
               <button 
                 onClick={handleHome}
                 className="glass-button p-1.5 rounded-lg text-brand-300 hover:text-white transition-all"
@@ -319,20 +1407,54 @@ export default function App() {
             >
                <Settings className="w-4 h-4" />
             </button>
-            <button 
-              onClick={toggleLanguage}
-              className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-white/5 border border-white/5 hover:bg-white/10 transition-all text-xs font-medium text-slate-300"
+            <LanguagePicker value={language} onChange={(code) => updateLanguagePreferences({ ui: code })} label={t.interfaceLanguage} />
+            {/* Provider and model analyses currently run on */}
+            <span
+              className="text-[10px] text-slate-400 font-medium px-2 py-1 bg-white/5 rounded-full border border-white/5 hidden sm:inline-block max-w-[14rem] truncate"
+              title={`${getProvider(providerSettings.analysis.provider).label}: ${providerSettings.analysis.model}`}
             >
-              <Globe className="w-3.5 h-3.5" />
-              {language === 'en' ? 'AM' : 'EN'}
-            </button>
-            <span className="text-[10px] text-slate-400 font-medium px-2 py-1 bg-white/5 rounded-full border border-white/5 hidden sm:inline-block">
-               Gemini 3 Pro
+               {providerSettings.analysis.model}
             </span>
           </div>
         </div>
       </header>
 
+      {/* Library Sidebar */}
+      <LibrarySidebar
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        entries={libraryEntries}
+        activeId={currentSessionId}
+        storage={storageUsage}
+        keepVideo={keepVideo}
+        onKeepVideoChange={handleKeepVideoChange}
+        onOpen={handleOpenSession}
+        onRename={handleRenameSession}
+        onDelete={handleDeleteSession}
+        onDiscardVideo={handleDiscardVideo}
+        onCompare={handleCompare}
+        language={language}
+      />
+
+      {/* Template Manager Modal */}
+      <TemplateManager
+        isOpen={isTemplateManagerOpen}
+        onClose={() => setIsTemplateManagerOpen(false)}
+        onTemplatesChange={handleTemplatesChange}
+        language={language}
+      />
+
+      {/* Caption Editor Modal */}
+      <CaptionEditor
+        isOpen={isCaptionEditorOpen && !!subtitles.track}
+        cues={subtitles.track?.cues ?? []}
+        currentTime={currentTime}
+        onSeek={seekTo}
+        onSave={handleSaveCaptions}
+        onClose={() => setIsCaptionEditorOpen(false)}
+        language={language}
+      />
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in">
@@ -355,9 +1477,11 @@ export default function App() {
               placeholder={t.apiKeyPlaceholder}
               className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-brand-500/50 mb-6"
             />
+
+            <ProviderSettingsPanel settings={providerSettings} onChange={handleProviderSettingsChange} language={language} />
             
             <div className="flex justify-end gap-3">
-              {isApiKeySet && (
+              {isConfigured && (
                  <button 
                    onClick={() => setShowSettings(false)}
                    className="px-4 py-2 rounded-xl text-xs font-medium text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
@@ -378,7 +1502,18 @@ export default function App() {
 
       <main className="max-w-7xl mx-auto px-4 pt-20 pb-6 relative z-0">
         
-        {!video ? (
+        {comparison ? (
+          <ComparisonView
+            comparison={comparison}
+            messages={messages}
+            isChatLoading={isChatLoading}
+            canChat={!!chatSession}
+            onSend={(text) => handleSendMessage(text)}
+            onRegenerate={() => runComparisonReport(comparison.sources)}
+            onExport={handleComparisonExport}
+            language={language}
+          />
+        ) : !video ? (
           // Landing View
           <div className="flex flex-col items-center justify-center min-h-[70vh] animate-in fade-in slide-in-from-bottom-8 duration-700">
             <div className="text-center mb-10 relative w-full max-w-md mx-auto">
@@ -395,8 +1530,30 @@ export default function App() {
               </p>
             </div>
             <div className="w-full">
-              <VideoInput onVideoSelected={handleVideoSelected} disabled={summary.isLoading} language={language} />
+              <VideoInput
+                onVideoSelected={handleVideoSelected}
+                onVideosSelected={handleVideosSelected}
+                onVideoLinked={handleVideoLinked}
+                disabled={summary.isLoading}
+                language={language}
+              />
             </div>
+            {batchJobs.length > 0 && (
+              <div className="w-full max-w-3xl mt-8">
+                <BatchQueuePanel
+                  jobs={batchJobs}
+                  concurrency={batchConcurrency}
+                  onConcurrencyChange={handleBatchConcurrencyChange}
+                  onRetry={(id) => batchQueue.retry(id)}
+                  onCancel={(id) => batchQueue.cancel(id)}
+                  onRemove={(id) => batchQueue.remove(id)}
+                  onOpen={handleOpenBatchJob}
+                  onClear={() => batchQueue.clear()}
+                  onExport={handleBatchExport}
+                  language={language}
+                />
+              </div>
+            )}
           </div>
         ) : (
           /* Main Workspace */
@@ -408,26 +1565,118 @@ export default function App() {
                 <div className="glass-panel rounded-2xl overflow-hidden shadow-2xl ring-1 ring-white/10 relative group shrink-0 bg-black">
                   <div className="aspect-video relative flex items-center justify-center">
                     <video 
+                      ref={videoElementRef}
                       src={video.url || undefined} 
                       controls 
+                      onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                      onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                      onLoadedMetadata={(e) => setVideoDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : null)}
                       className="w-full h-full object-contain max-h-[40vh] bg-black"
-                    />
+                    >
+                      {subtitleUrl && (
+                        <track
+                          key={subtitleUrl}
+                          ref={captionTrackRef}
+                          kind="subtitles"
+                          src={subtitleUrl}
+                          srcLang={subtitles.track?.language === 'source' ? undefined : subtitles.track?.language}
+                          label={subtitles.track?.language === 'source' ? t.subtitleSource : getLanguagePack(subtitles.track?.language ?? DEFAULT_LANGUAGE).nativeName}
+                        />
+                      )}
+                    </video>
+                    {!video.url && (
+                      <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-center p-6">
+                        {currentEntry?.thumbnail && (
+                          <img
+                            src={currentEntry.thumbnail}
+                            alt=""
+                            className="absolute inset-0 w-full h-full object-cover opacity-30"
+                          />
+                        )}
+                        {isLinkedVideo ? (
+                          <>
+                            <Link className="w-6 h-6 text-slate-500 relative" />
+                            <p className="text-xs text-slate-400 relative max-w-xs">{t.videoLinked}</p>
+                            <a
+                              href={uploadedVideo!.uri}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="relative text-[11px] text-brand-300 hover:text-brand-200 underline underline-offset-2"
+                            >
+                              {t.openLink}
+                            </a>
+                          </>
+                        ) : (
+                          <>
+                            <HardDrive className="w-6 h-6 text-slate-500 relative" />
+                            <p className="text-xs text-slate-400 relative max-w-xs">{t.videoNotStored}</p>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <div className="px-4 py-3 bg-black/80 backdrop-blur-xl border-t border-white/10">
                     <div className="flex items-center gap-3">
                       <div className="min-w-0 flex-1">
                         <p className="font-medium text-white text-sm truncate">{video.name}</p>
                         <div className="flex items-center gap-2 mt-0.5">
-                           <span className="text-[10px] text-brand-400 bg-brand-900/30 px-1.5 py-0.5 rounded border border-brand-500/20 font-mono">
-                              {(video.size / (1024 * 1024)).toFixed(2)} MB
-                           </span>
-                           <span className="text-[10px] text-slate-500 uppercase font-mono">{video.type.split('/')[1]}</span>
+                           {isLinkedVideo ? (
+                             <span className="text-[10px] text-brand-400 bg-brand-900/30 px-1.5 py-0.5 rounded border border-brand-500/20 font-mono">URL</span>
+                           ) : (
+                             <>
+                               <span className="text-[10px] text-brand-400 bg-brand-900/30 px-1.5 py-0.5 rounded border border-brand-500/20 font-mono">
+                                  {(video.size / (1024 * 1024)).toFixed(2)} MB
+                               </span>
+                               <span className="text-[10px] text-slate-500 uppercase font-mono">{video.type.split('/')[1]}</span>
+                             </>
+                           )}
                         </div>
                       </div>
+                      {video.url && videoDuration !== null && (
+                        <button
+                          onClick={handleToggleClip}
+                          disabled={summary.isLoading}
+                          title={clip ? t.wholeVideo : t.selectRange}
+                          aria-pressed={!!clip}
+                          className={`p-2 rounded-lg border transition-all disabled:opacity-40 ${
+                            clip ? 'bg-brand-500/20 text-brand-200 border-brand-500/30' : 'text-slate-400 border-white/10 hover:text-white hover:bg-white/5'
+                          }`}
+                        >
+                          <Scissors className="w-3.5 h-3.5" />
+                        </button>
+                      )}
                     </div>
+                    {clip && videoDuration !== null && (
+                      <div className="mt-3">
+                        <RangeSelector
+                          duration={videoDuration}
+                          start={clip.start}
+                          end={clip.end}
+                          onChange={handleClipChange}
+                          disabled={summary.isLoading}
+                          startLabel={t.rangeStart}
+                          endLabel={t.rangeEnd}
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
 
+                {summary.text && (
+                  <SubtitlePanel
+                    state={subtitles}
+                    target={subtitleTarget}
+                    onTargetChange={setSubtitleTarget}
+                    onGenerate={handleGenerateSubtitles}
+                    canGenerate={!!transcript.transcript || canTranscribe}
+                    showCaptions={showCaptions}
+                    onToggleCaptions={() => setShowCaptions(show => !show)}
+                    onEdit={() => setIsCaptionEditorOpen(true)}
+                    onDownload={handleDownloadSubtitles}
+                    language={language}
+                  />
+                )}
+
                 {/* Error Display */}
                 {summary.error && (
                     <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-2xl text-red-200 text-xs flex items-start gap-3 animate-in shake">
@@ -439,13 +1688,37 @@ export default function App() {
                     </div>
                 )}
 
+                {/* Library Notice */}
+                {libraryNotice && (
+                    <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-2xl text-amber-200 text-xs flex items-start gap-3">
+                        <HardDrive className="w-4 h-4 shrink-0 mt-0.5" />
+                        <p className="flex-1">{libraryNotice}</p>
+                        <button onClick={() => setLibraryNotice(null)} className="text-amber-200/60 hover:text-amber-100">
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                )}
+
+                <TemplatePicker
+                  templates={templates}
+                  selectedId={selectedTemplateId}
+                  onSelect={handleTemplateSelect}
+                  depth={summaryDepth}
+                  onDepthChange={setSummaryDepth}
+                  outputLanguage={summaryLanguage}
+                  onOutputLanguageChange={(code) => updateLanguagePreferences({ summary: code })}
+                  onManage={() => setIsTemplateManagerOpen(true)}
+                  disabled={summary.isLoading}
+                  language={language}
+                />
+
                 {/* Analyze Control */}
                 <button
                     onClick={handleAnalyze}
-                    disabled={summary.isLoading}
+                    disabled={summary.isLoading || !canAnalyze}
                     className={`
                       w-full py-4 rounded-2xl font-bold text-sm transition-all duration-300 shrink-0 relative overflow-hidden group
-                      ${summary.isLoading 
+                      ${summary.isLoading || !canAnalyze
                         ? 'bg-white/5 text-slate-500 cursor-not-allowed border border-white/5' 
                         : 'bg-gradient-to-r from-brand-600 to-brand-500 hover:from-brand-500 hover:to-brand-400 text-white shadow-lg hover:shadow-brand-500/25 border border-brand-400/20'}
                     `}
@@ -455,7 +1728,11 @@ export default function App() {
                       {summary.isLoading ? (
                         <>
                           <Loader2 className="w-4 h-4 animate-spin" />
-                          {t.analyzing}
+                          {uploadProgress?.phase === 'uploading'
+                            ? `${t.uploadingVideo} ${Math.round((uploadProgress.loaded / Math.max(uploadProgress.total, 1)) * 100)}%`
+                            : uploadProgress?.phase === 'processing'
+                              ? t.processingVideo
+                              : t.analyzing}
                         </>
                       ) : (
                         <>
@@ -465,6 +1742,44 @@ export default function App() {
                       )}
                     </span>
                   </button>
+
+                {/* Upload Progress & Cancel */}
+                {summary.isLoading && (
+                  <div className="glass-panel rounded-2xl p-4 shrink-0 animate-in fade-in">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-[10px] uppercase tracking-widest text-slate-400 font-medium">
+                        {uploadProgress?.phase === 'uploading'
+                          ? t.uploadingVideo
+                          : uploadProgress?.phase === 'processing'
+                            ? t.processingVideo
+                            : t.analyzing}
+                      </span>
+                      <button
+                        onClick={handleCancelAnalyze}
+                        className="text-xs flex items-center gap-1 text-slate-400 hover:text-red-300 transition-colors bg-white/5 px-2 py-1 rounded-lg border border-white/5 hover:bg-red-500/10"
+                      >
+                        <X className="w-3 h-3" />
+                        <span>{t.cancelBtn}</span>
+                      </button>
+                    </div>
+                    <div className="h-1.5 w-full bg-white/5 rounded-full overflow-hidden">
+                      {uploadProgress?.phase === 'uploading' ? (
+                        <div
+                          className="h-full bg-gradient-to-r from-brand-600 to-brand-400 transition-all duration-300"
+                          style={{ width: `${(uploadProgress.loaded / Math.max(uploadProgress.total, 1)) * 100}%` }}
+                        />
+                      ) : (
+                        <div className="h-full w-1/3 bg-gradient-to-r from-brand-600 to-purple-500 animate-pulse" />
+                      )}
+                    </div>
+                    {uploadProgress?.phase === 'uploading' && (
+                      <p className="text-[10px] text-slate-500 font-mono mt-2">
+                        {(uploadProgress.loaded / (1024 * 1024)).toFixed(1)} / {(uploadProgress.total / (1024 * 1024)).toFixed(1)} MB
+                      </p>
+                    )}
+                    {summary.segments && <SegmentProgress segments={summary.segments} language={language} />}
+                  </div>
+                )}
               </div>
 
               {/* Right Panel: Intelligence Hub (7 cols) */}
@@ -484,6 +1799,18 @@ export default function App() {
                     <FileText className="w-3.5 h-3.5" />
                     {t.tabAnalysis}
                   </button>
+                  <button 
+                    onClick={() => setActiveTab('transcript')}
+                    disabled={!summary.text}
+                    className={`flex-1 py-2.5 rounded-xl text-xs font-semibold flex items-center justify-center gap-2 transition-all ${
+                      activeTab === 'transcript' 
+                        ? 'bg-white text-black shadow-lg scale-[1.02]' 
+                        : 'bg-white/5 text-slate-400 hover:bg-white/10 border border-white/5'
+                    } disabled:opacity-30 disabled:cursor-not-allowed`}
+                  >
+                    <ScrollText className="w-3.5 h-3.5" />
+                    {t.tabTranscript}
+                  </button>
                   <button 
                      onClick={() => setActiveTab('chat')}
                      disabled={!summary.text}
@@ -522,20 +1849,125 @@ export default function App() {
                       {activeTab === 'summary' && (
                         <div className="flex flex-col h-full animate-in fade-in zoom-in-95 duration-300">
                            <div className="border-b border-white/5 px-5 py-4 flex items-center justify-between bg-white/[0.02]">
-                            <h3 className="text-sm font-bold text-white tracking-tight">{t.execSummary}</h3>
-                            <button onClick={handleDownload} className="text-xs flex items-center gap-1.5 text-slate-400 hover:text-white transition-colors bg-white/5 px-2 py-1 rounded-lg border border-white/5 hover:bg-white/10">
-                              <Download className="w-3 h-3" />
-                              <span>{t.export}</span>
-                            </button>
+                            <div className="flex items-center gap-1 bg-black/40 p-0.5 rounded-lg border border-white/10">
+                              <button
+                                onClick={() => setSummaryView('overview')}
+                                className={`px-2.5 py-1 rounded-md text-xs font-semibold transition-all ${
+                                  summaryView === 'overview' ? 'bg-white/10 text-white' : 'text-slate-400 hover:text-white'
+                                }`}
+                              >
+                                {t.execSummary}
+                              </button>
+                              <button
+                                onClick={handleShowChapters}
+                                className={`px-2.5 py-1 rounded-md text-xs font-semibold flex items-center gap-1.5 transition-all ${
+                                  summaryView === 'chapters' ? 'bg-white/10 text-white' : 'text-slate-400 hover:text-white'
+                                }`}
+                              >
+                                <ListVideo className="w-3 h-3" />
+                                {t.chapters}
+                              </button>
+                            </div>
+                            {summary.template && (
+                              <span className="ml-auto mr-2 text-[10px] text-slate-400 flex items-center gap-1 truncate" title={t.templateLabel}>
+                                <LayoutTemplate className="w-3 h-3 text-brand-400 shrink-0" />
+                                {templateDisplayName(summary.template, language)}
+                              </span>
+                            )}
+                            {summary.clip && (
+                              <span className={`${summary.template ? '' : 'ml-auto '}mr-2 text-[10px] text-slate-400 flex items-center gap-1 font-mono shrink-0`} title={t.analyzedRange}>
+                                <Scissors className="w-3 h-3 text-brand-400" />
+                                {formatTimestamp(summary.clip.start)}–{formatTimestamp(summary.clip.end)}
+                              </span>
+                            )}
+                            {nextDepth(summary.depth ?? DEFAULT_DEPTH) && (
+                              <button
+                                onClick={handleExpandSummary}
+                                disabled={isExpanding}
+                                title={t.expandSummaryTo.replace('{depth}', depthDisplayName(nextDepth(summary.depth ?? DEFAULT_DEPTH)!, language))}
+                                className={`${summary.template || summary.clip ? '' : 'ml-auto '}mr-2 px-2.5 py-1 rounded-md text-xs font-semibold flex items-center gap-1.5 text-slate-300 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 transition-all disabled:opacity-50`}
+                              >
+                                {isExpanding ? <Loader2 className="w-3 h-3 animate-spin" /> : <ListPlus className="w-3 h-3" />}
+                                {t.expandSummary}
+                              </button>
+                            )}
+                            <div className="mr-2">
+                              <TranslateMenu
+                                current={summary.language ?? summaryLanguage}
+                                onTranslate={handleTranslateSummary}
+                                isTranslating={isTranslatingSummary}
+                                disabled={isExpanding}
+                                language={language}
+                              />
+                            </div>
+                            <ExportMenu
+                              onExport={handleExport}
+                              hasTimestamps={!!chapters.items?.length}
+                              hasChat={messages.some(m => m.role === 'user')}
+                              language={language}
+                            />
                           </div>
+                          {expandError && (
+                            <p className="px-5 py-2 text-[11px] text-red-300 bg-red-500/10 border-b border-red-500/20">{expandError}</p>
+                          )}
+                          {summaryTranslateError && (
+                            <p className="px-5 py-2 text-[11px] text-red-300 bg-red-500/10 border-b border-red-500/20">{summaryTranslateError}</p>
+                          )}
+                          {failedSegments(summary.segments).length > 0 && (
+                            <p className="px-5 py-2 text-[11px] text-amber-200 bg-amber-500/10 border-b border-amber-500/20">
+                              {t.partialResult.replace('{ranges}', failedSegments(summary.segments).map(s => `${formatTimestamp(s.start)}–${formatTimestamp(s.end)}`).join(', '))}
+                            </p>
+                          )}
                           <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
-                            <div className="prose prose-invert prose-sm max-w-none prose-p:text-slate-300 prose-p:text-sm prose-p:leading-relaxed prose-headings:text-white prose-strong:text-brand-300 prose-ul:text-slate-300 font-sans">
-                               <div className="whitespace-pre-wrap">{summary.text}</div>
-                            </div>
+                            {summaryView === 'overview' && summary.analysis ? (
+                              <AnalysisView analysis={summary.analysis} language={language} onSeek={seekTo} />
+                            ) : summaryView === 'overview' ? (
+                              <div className="prose prose-invert prose-sm max-w-none prose-p:text-slate-300 prose-p:text-sm prose-p:leading-relaxed prose-headings:text-white prose-strong:text-brand-300 prose-ul:text-slate-300 font-sans text-sm text-slate-300">
+                                 <Markdown text={summary.text} onSeek={seekTo} />
+                              </div>
+                            ) : chapters.isLoading ? (
+                              <div className="flex flex-col items-center justify-center py-12 text-slate-400 gap-3">
+                                <Loader2 className="w-5 h-5 animate-spin text-brand-400" />
+                                <p className="text-xs">{t.generatingChapters}</p>
+                              </div>
+                            ) : chapters.error ? (
+                              <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-200 text-xs flex items-start gap-3">
+                                <Activity className="w-4 h-4 shrink-0 mt-0.5" />
+                                <div className="flex-1">
+                                  <p>{chapters.error}</p>
+                                  {canGenerateChapters && (
+                                    <button onClick={loadChapters} className="mt-2 underline hover:text-white">{t.retryBtn}</button>
+                                  )}
+                                </div>
+                              </div>
+                            ) : !chapters.items && !canGenerateChapters ? (
+                              <p className="py-12 text-center text-xs text-slate-500">{t.chaptersNeedVideo}</p>
+                            ) : (
+                              <ChapterList
+                                chapters={chapters.items || []}
+                                currentTime={currentTime}
+                                onSeek={seekTo}
+                                language={language}
+                              />
+                            )}
                           </div>
                         </div>
                       )}
 
+                      {/* Tab: Transcript */}
+                      {activeTab === 'transcript' && (
+                        <TranscriptView
+                          state={transcript}
+                          currentTime={currentTime}
+                          onSeek={seekTo}
+                          onGenerate={loadTranscript}
+                          canGenerate={canTranscribe}
+                          onRenameSpeaker={handleRenameSpeaker}
+                          onExport={handleExportTranscript}
+                          language={language}
+                        />
+                      )}
+
                       {/* Tab: Chat & Live Mode */}
                       {activeTab === 'chat' && (
                          <div className="flex flex-col h-full animate-in fade-in zoom-in-95 duration-300 relative">
@@ -548,34 +1980,81 @@ export default function App() {
                                 <div className="absolute top-0 left-1/4 w-96 h-96 bg-purple-600/30 rounded-full mix-blend-screen filter blur-[100px] animate-pulse"></div>
                                 <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-blue-600/30 rounded-full mix-blend-screen filter blur-[100px] animate-pulse delay-1000"></div>
                                 
-                                {/* Main Floating Glass Orb */}
-                                <div className="relative z-10">
-                                  <div className="w-48 h-48 rounded-full bg-white/5 backdrop-blur-xl border border-white/20 flex items-center justify-center shadow-[0_0_50px_rgba(255,255,255,0.1)] relative overflow-hidden">
-                                     
-                                     {/* Internal Liquid Animation */}
-                                     <div className="absolute inset-0 bg-gradient-to-br from-brand-400/20 to-purple-500/20 animate-[spin_8s_linear_infinite]"></div>
-                                     
-                                     {/* Pulsing Core */}
-                                     <div className="w-24 h-24 rounded-full bg-white/10 backdrop-blur-md border border-white/30 flex items-center justify-center shadow-inner animate-[pulse_2s_ease-in-out_infinite]">
-                                         <Waves className="w-8 h-8 text-white/80" />
-                                     </div>
-                                     
-                                     {/* Orbiting Rings */}
-                                     <div className="absolute inset-2 rounded-full border border-white/10 border-t-white/50 animate-[spin_3s_linear_infinite]"></div>
-                                     <div className="absolute inset-6 rounded-full border border-white/5 border-b-white/30 animate-[spin_5s_linear_infinite_reverse]"></div>
+                                {/* Main Floating Glass Orb, following whoever is talking */}
+                                <LiveOrb
+                                  connection={liveConnection}
+                                  activity={liveActivity}
+                                  muted={liveMuted}
+                                  title={t.liveConnection}
+                                  statusText={liveStatusText()}
+                                  isError={liveState?.status === 'error'}
+                                />
+
+                                {liveState?.status === 'error' && liveState.error && (
+                                  <div className="mt-20 relative z-10 max-w-sm px-6 text-center space-y-3">
+                                    <p className="text-xs text-red-200">{liveErrorText[liveState.error.reason]}</p>
+                                    {liveState.error.reason !== 'auth' && (
+                                      <button
+                                        onClick={handleRetryLive}
+                                        className="px-4 py-1.5 rounded-full text-xs font-medium text-white/80 hover:text-white bg-white/10 hover:bg-white/15 border border-white/10 transition-colors"
+                                      >
+                                        {t.retryBtn}
+                                      </button>
+                                    )}
                                   </div>
-                                  
-                                  {/* Status Label */}
-                                  <div className="absolute -bottom-12 left-1/2 -translate-x-1/2 text-center whitespace-nowrap">
-                                     <p className="text-white/90 font-medium tracking-wider text-sm mb-1 drop-shadow-md">{t.liveConnection}</p>
-                                     <p className="text-white/50 text-[10px] uppercase tracking-widest">{t.listening}</p>
+                                )}
+
+                                {isLiveWatching && (
+                                  <p className="mt-20 relative z-10 flex items-center gap-1.5 text-white/50 text-[11px]">
+                                    <Eye className="w-3.5 h-3.5" />
+                                    {t.liveWatching}
+                                  </p>
+                                )}
+
+                                {/* Latest spoken turns of this live session */}
+                                {liveTranscript.length > 0 && (
+                                  <div className={`${isLiveWatching ? 'mt-4' : 'mt-20'} relative z-10 w-full max-w-md px-6 space-y-1.5 text-center`}>
+                                    {liveTranscript.map(m => (
+                                      <p key={m.id} className={`text-xs leading-relaxed line-clamp-2 ${m.role === 'user' ? 'text-white/50' : 'text-white/85'}`}>
+                                        {m.text}
+                                      </p>
+                                    ))}
                                   </div>
-                                </div>
+                                )}
+
+                                {/* Microphone Controls */}
+                                {liveState?.status !== 'error' && (
+                                  <div className={`${isLiveWatching || liveTranscript.length > 0 ? 'mt-6' : 'mt-20'} relative z-10 flex flex-col items-center gap-2`}>
+                                    <div className="flex items-center gap-2">
+                                      <button
+                                        onClick={handleToggleMute}
+                                        title={liveMuted ? t.unmuteMic : t.muteMic}
+                                        aria-pressed={liveMuted}
+                                        className={`p-2 rounded-full border backdrop-blur-md transition-colors ${liveMuted ? 'bg-red-500/20 border-red-400/30 text-red-200 hover:bg-red-500/30' : 'bg-white/5 border-white/10 text-white/70 hover:text-white hover:bg-white/10'}`}
+                                      >
+                                        {liveMuted ? <MicOff className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+                                      </button>
+                                      <select
+                                        value={liveInputDeviceId ?? ''}
+                                        onChange={(e) => handleInputDeviceChange(e.target.value || null)}
+                                        disabled={!isLiveConnected}
+                                        title={t.microphone}
+                                        className="appearance-none bg-black/40 text-[10px] font-medium text-white/70 border border-white/10 rounded-lg px-2 py-1.5 focus:outline-none focus:border-brand-500 hover:bg-white/5 cursor-pointer disabled:opacity-50 transition-colors w-44 truncate"
+                                      >
+                                        <option value="">{t.defaultMicrophone}</option>
+                                        {microphones.filter(m => m.deviceId && m.deviceId !== 'default').map((m, i) => (
+                                          <option key={m.deviceId} value={m.deviceId}>{m.label || `${t.microphone} ${i + 1}`}</option>
+                                        ))}
+                                      </select>
+                                    </div>
+                                    {micSwitchError && <p className="text-[10px] text-red-200">{t.micSwitchFailed}</p>}
+                                  </div>
+                                )}
 
                                 {/* End Button */}
                                 <button 
-                                  onClick={stopLiveMode}
-                                  className="mt-24 group relative px-6 py-2.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 backdrop-blur-md transition-all duration-300 hover:scale-105 hover:shadow-[0_0_20px_rgba(255,255,255,0.1)]"
+                                  onClick={endLiveMode}
+                                  className={`${liveState?.status !== 'error' ? 'mt-4' : isLiveWatching || liveTranscript.length > 0 ? 'mt-6' : 'mt-24'} group relative px-6 py-2.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 backdrop-blur-md transition-all duration-300 hover:scale-105 hover:shadow-[0_0_20px_rgba(255,255,255,0.1)]`}
                                 >
                                    <div className="flex items-center gap-2 text-white/80 group-hover:text-white text-xs font-medium uppercase tracking-widest">
                                      <Power className="w-3.5 h-3.5" />
@@ -594,6 +2073,20 @@ export default function App() {
                                   <span className="font-semibold text-white text-xs tracking-wide">{t.aiOnline}</span>
                                 </div>
                                 <div className="flex items-center gap-3">
+                                   <LanguagePicker
+                                     value={chatLanguage}
+                                     onChange={(code) => handleChatLanguageChange(code)}
+                                     label={t.chatLanguage}
+                                     icon={<MessageCircle className="w-3.5 h-3.5 shrink-0" />}
+                                     disabled={isChatLoading || isTranslatingChat}
+                                   />
+                                   <TranslateMenu
+                                     current={chatLanguage}
+                                     onTranslate={handleTranslateChat}
+                                     isTranslating={isTranslatingChat}
+                                     disabled={isChatLoading || !messages.some(m => m.role === 'user')}
+                                     language={language}
+                                   />
                                    <div className="relative group">
                                       <select 
                                         value={selectedVoice}
@@ -619,6 +2112,10 @@ export default function App() {
                                 </div>
                              </div>
 
+                             {chatTranslateError && (
+                               <p className="px-4 py-2 text-[11px] text-red-300 bg-red-500/10 border-b border-red-500/20 shrink-0">{chatTranslateError}</p>
+                             )}
+
                              {/* Messages */}
                              <div className="flex-1 overflow-y-auto p-4 space-y-6 custom-scrollbar bg-black/20">
                                 {messages.length === 0 && (
@@ -638,7 +2135,15 @@ export default function App() {
                                           ? 'bg-brand-600 text-white rounded-tr-sm' 
                                           : 'bg-white/10 text-slate-200 rounded-tl-sm border border-white/5'}
                                      `}>
-                                        {msg.text}
+                                        {msg.isAudio && (
+                                          <span className="flex items-center gap-1 mb-1 text-[9px] uppercase tracking-widest opacity-60">
+                                            <Mic className="w-2.5 h-2.5" />
+                                            {t.spokenMessage}
+                                          </span>
+                                        )}
+                                        {msg.role === 'model'
+                                          ? <Markdown text={msg.text} onSeek={seekTo} compact />
+                                          : <span className="whitespace-pre-wrap">{msg.text}</span>}
                                      </div>
                                   </div>
                                 ))}
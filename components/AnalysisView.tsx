@@ -0,0 +1,105 @@
+import React from 'react';
+import { Language, VideoAnalysis, VideoEntity } from '../types';
+import { Target, KeyRound, Lightbulb, Tag, Users, Box } from 'lucide-react';
+import { formatTimestamp } from '../services/utils';
+import { getTranslation } from '../services/translations';
+
+interface AnalysisViewProps {
+  analysis: VideoAnalysis;
+  language: Language;
+  onSeek: (seconds: number) => void;
+}
+
+const SectionTitle: React.FC<{ icon: React.ReactNode; children: React.ReactNode }> = ({ icon, children }) => (
+  <h4 className="flex items-center gap-2 text-xs font-bold text-white uppercase tracking-widest mb-2">
+    {icon}
+    {children}
+  </h4>
+);
+
+const EntityList: React.FC<{ items: VideoEntity[] }> = ({ items }) => (
+  <ul className="space-y-1.5">
+    {items.map((item, i) => (
+      <li key={`${item.name}-${i}`} className="text-sm text-slate-300 leading-relaxed">
+        <span className="font-semibold text-brand-300">{item.name}</span>
+        {item.description && <span className="text-slate-400"> – {item.description}</span>}
+      </li>
+    ))}
+  </ul>
+);
+
+export const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis, language, onSeek }) => {
+  const t = getTranslation(language);
+
+  return (
+    <div className="flex flex-col gap-6 font-sans">
+      <section>
+        <SectionTitle icon={<Target className="w-3.5 h-3.5 text-brand-400" />}>{t.execSummary}</SectionTitle>
+        <p className="text-sm text-slate-200 leading-relaxed">{analysis.summary}</p>
+      </section>
+
+      {analysis.highlights.length > 0 && (
+        <section>
+          <SectionTitle icon={<KeyRound className="w-3.5 h-3.5 text-brand-400" />}>{t.keyHighlights}</SectionTitle>
+          <ul className="list-disc pl-5 space-y-1.5 marker:text-brand-400">
+            {analysis.highlights.map((h, i) => (
+              <li key={i} className="text-sm text-slate-300 leading-relaxed">{h}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {analysis.takeaway && (
+        <section>
+          <SectionTitle icon={<Lightbulb className="w-3.5 h-3.5 text-brand-400" />}>{t.takeaway}</SectionTitle>
+          <p className="text-sm text-slate-300 leading-relaxed">{analysis.takeaway}</p>
+        </section>
+      )}
+
+      {analysis.topics.length > 0 && (
+        <section>
+          <SectionTitle icon={<Tag className="w-3.5 h-3.5 text-brand-400" />}>{t.topics}</SectionTitle>
+          <div className="flex flex-wrap gap-1.5">
+            {analysis.topics.map((topic, i) => (
+              <span key={i} className="text-[11px] text-slate-300 bg-white/5 border border-white/10 px-2 py-0.5 rounded-full">
+                {topic}
+              </span>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {analysis.people.length > 0 && (
+        <section>
+          <SectionTitle icon={<Users className="w-3.5 h-3.5 text-brand-400" />}>{t.people}</SectionTitle>
+          <EntityList items={analysis.people} />
+        </section>
+      )}
+
+      {analysis.objects.length > 0 && (
+        <section>
+          <SectionTitle icon={<Box className="w-3.5 h-3.5 text-brand-400" />}>{t.objects}</SectionTitle>
+          <EntityList items={analysis.objects} />
+        </section>
+      )}
+
+      {analysis.chapters.length > 0 && (
+        <section>
+          <h4 className="text-xs font-bold text-white uppercase tracking-widest mb-2">{t.chapters}</h4>
+          <div className="flex flex-wrap gap-1.5">
+            {analysis.chapters.map((c, i) => (
+              <button
+                key={`${c.start}-${i}`}
+                onClick={() => onSeek(c.start)}
+                className="text-[11px] text-brand-300 bg-brand-900/30 border border-brand-500/20 px-2 py-0.5 rounded-md hover:bg-brand-500/20 transition-colors"
+                title={c.description}
+              >
+                <span className="font-mono">{formatTimestamp(c.start)}</span> {c.title}
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React from 'react';
+import { BatchJob, BatchJobStatus, ExportFormat, Language } from '../types';
+import { Layers, RotateCcw, X, Trash2, ExternalLink, Loader2, CheckCircle2, AlertCircle, Clock, Ban } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { formatBytes } from '../services/utils';
+import { ExportMenu } from './ExportMenu';
+
+interface BatchQueuePanelProps {
+  jobs: BatchJob[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onOpen: (job: BatchJob) => void;
+  onClear: () => void;
+  onExport: (format: ExportFormat) => void;
+  language: Language;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+export const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({
+  jobs,
+  concurrency,
+  onConcurrencyChange,
+  onRetry,
+  onCancel,
+  onRemove,
+  onOpen,
+  onClear,
+  onExport,
+  language
+}) => {
+  const t = getTranslation(language);
+  const doneCount = jobs.filter(j => j.status === 'done').length;
+
+  const statusLabel: Record<BatchJobStatus, string> = {
+    queued: t.statusQueued,
+    uploading: t.statusUploading,
+    analyzing: t.statusAnalyzing,
+    done: t.statusDone,
+    failed: t.statusFailed,
+    cancelled: t.statusCancelled
+  };
+
+  const statusIcon = (status: BatchJobStatus) => {
+    switch (status) {
+      case 'queued': return <Clock className="w-3 h-3" />;
+      case 'uploading':
+      case 'analyzing': return <Loader2 className="w-3 h-3 animate-spin" />;
+      case 'done': return <CheckCircle2 className="w-3 h-3" />;
+      case 'failed': return <AlertCircle className="w-3 h-3" />;
+      case 'cancelled': return <Ban className="w-3 h-3" />;
+    }
+  };
+
+  const statusColor: Record<BatchJobStatus, string> = {
+    queued: 'text-slate-400 bg-white/5 border-white/10',
+    uploading: 'text-brand-300 bg-brand-500/10 border-brand-500/20',
+    analyzing: 'text-purple-300 bg-purple-500/10 border-purple-500/20',
+    done: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/20',
+    failed: 'text-red-300 bg-red-500/10 border-red-500/20',
+    cancelled: 'text-slate-500 bg-white/5 border-white/10'
+  };
+
+  return (
+    <div className="glass-panel rounded-2xl overflow-hidden shadow-2xl animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="px-5 py-4 border-b border-white/5 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <Layers className="w-4 h-4 text-brand-400 shrink-0" />
+          <h2 className="text-sm font-bold text-white">{t.batchTitle}</h2>
+          <span className="text-[10px] font-mono text-slate-500">{doneCount}/{jobs.length} {t.batchSummary}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1.5 text-[11px] text-slate-400">
+            <span className="hidden sm:inline">{t.batchConcurrency}</span>
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="bg-black/40 border border-white/10 rounded-md px-1.5 py-0.5 text-xs text-white focus:outline-none focus:border-brand-500/50"
+            >
+              {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          {doneCount > 0 && (
+            <ExportMenu onExport={(format) => onExport(format)} hasTimestamps={false} hasChat={false} language={language} />
+          )}
+          <button
+            onClick={onClear}
+            title={t.batchClear}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-red-300 hover:bg-white/10 transition-colors"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-white/5 max-h-[60vh] overflow-y-auto custom-scrollbar">
+        {jobs.map(job => {
+          const isActive = job.status === 'uploading' || job.status === 'analyzing';
+          return (
+            <li key={job.id} className="px-5 py-3 flex items-center gap-4">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <p className="text-xs font-medium text-white truncate" title={job.video.name}>{job.video.name}</p>
+                  <span className="text-[10px] text-slate-500 font-mono shrink-0">{formatBytes(job.video.size)}</span>
+                </div>
+                {job.status === 'uploading' && (
+                  <div className="h-1 w-full bg-white/5 rounded-full overflow-hidden mt-2">
+                    <div className="h-full bg-brand-500 transition-all duration-300" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+                  </div>
+                )}
+                {job.status === 'analyzing' && (
+                  <div className="h-1 w-full bg-white/5 rounded-full overflow-hidden mt-2">
+                    <div className="h-full w-1/3 bg-purple-500 animate-pulse" />
+                  </div>
+                )}
+                {job.error && <p className="text-[11px] text-red-300 mt-1 truncate" title={job.error}>{job.error}</p>}
+              </div>
+
+              <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-[10px] font-medium shrink-0 ${statusColor[job.status]}`}>
+                {statusIcon(job.status)}
+                {statusLabel[job.status]}
+              </span>
+
+              <div className="flex items-center gap-1 shrink-0">
+                {job.status === 'done' && job.result?.sessionId && (
+                  <button onClick={() => onOpen(job)} title={t.openBtn} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10">
+                    <ExternalLink className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button onClick={() => onRetry(job.id)} title={t.retryBtn} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10">
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {(isActive || job.status === 'queued') ? (
+                  <button onClick={() => onCancel(job.id)} title={t.cancelBtn} className="p-1.5 rounded-lg text-slate-400 hover:text-red-300 hover:bg-white/10">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                ) : (
+                  <button onClick={() => onRemove(job.id)} title={t.removeBtn} className="p-1.5 rounded-lg text-slate-400 hover:text-red-300 hover:bg-white/10">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
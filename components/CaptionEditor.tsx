@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Language, SubtitleCue } from '../types';
+import { X, Plus, Trash2, Play, Captions, Timer } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { formatTimestamp } from '../services/utils';
+import { normalizeCues, shiftCues } from '../services/subtitles';
+
+interface CaptionEditorProps {
+  isOpen: boolean;
+  cues: SubtitleCue[];
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  onSave: (cues: SubtitleCue[]) => void;
+  onClose: () => void;
+  language: Language;
+}
+
+// Length of a caption added at the playhead
+const NEW_CUE_SECONDS = 2;
+
+export const CaptionEditor: React.FC<CaptionEditorProps> = ({ isOpen, cues, currentTime, onSeek, onSave, onClose, language }) => {
+  const [draft, setDraft] = useState<SubtitleCue[]>([]);
+  const [offset, setOffset] = useState('0');
+  const t = getTranslation(language);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(cues);
+      setOffset('0');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateCue = (index: number, changes: Partial<SubtitleCue>) => {
+    setDraft(prev => prev.map((cue, i) => i === index ? { ...cue, ...changes } : cue));
+  };
+
+  const addCue = () => {
+    const start = Math.round(currentTime * 10) / 10;
+    setDraft(prev => normalizeCues([...prev, { start, end: start + NEW_CUE_SECONDS, text: '…' }]));
+  };
+
+  const applyOffset = () => {
+    const seconds = Number(offset);
+    if (!Number.isFinite(seconds) || seconds === 0) return;
+    setDraft(prev => shiftCues(prev, seconds));
+    setOffset('0');
+  };
+
+  const save = () => {
+    onSave(normalizeCues(draft));
+    onClose();
+  };
+
+  const timeInput = "w-20 bg-black/40 border border-white/10 rounded px-1.5 py-1 text-[11px] font-mono text-white focus:outline-none focus:border-brand-500/50";
+
+  return (
+    // A side drawer rather than a modal, so the player stays visible while seeking
+    <div className="fixed inset-y-0 right-0 z-[60] w-full max-w-xl flex animate-in slide-in-from-right">
+      <div className="bg-[#0f172a] border-l border-white/10 shadow-2xl w-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-5 h-14 border-b border-white/5 shrink-0">
+          <div className="flex items-center gap-2">
+            <Captions className="w-4 h-4 text-brand-400" />
+            <h3 className="text-sm font-bold text-white">{t.editCaptions}</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 px-5 py-2.5 border-b border-white/5 text-[11px] text-slate-400">
+          <Timer className="w-3.5 h-3.5 text-slate-500" />
+          <span>{t.shiftTimings}</span>
+          <input
+            type="number"
+            step="0.1"
+            value={offset}
+            onChange={(e) => setOffset(e.target.value)}
+            className={timeInput}
+          />
+          <button onClick={applyOffset} className="px-2 py-1 rounded bg-white/5 hover:bg-white/10 border border-white/10 text-slate-200">
+            {t.applyBtn}
+          </button>
+          <button onClick={addCue} className="ml-auto flex items-center gap-1.5 px-2 py-1 rounded text-brand-300 hover:bg-brand-500/10">
+            <Plus className="w-3 h-3" /> {t.addCaption} ({formatTimestamp(currentTime)})
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {draft.map((cue, i) => (
+            <div key={i} className="flex items-start gap-2 bg-white/[0.02] border border-white/5 rounded-lg p-2">
+              <button onClick={() => onSeek(cue.start)} title={formatTimestamp(cue.start)} className="p-1 mt-0.5 text-slate-500 hover:text-brand-300">
+                <Play className="w-3 h-3" />
+              </button>
+              <div className="flex flex-col gap-1">
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={cue.start}
+                  onChange={(e) => updateCue(i, { start: Number(e.target.value) })}
+                  aria-label={t.captionStart}
+                  className={timeInput}
+                />
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={cue.end}
+                  onChange={(e) => updateCue(i, { end: Number(e.target.value) })}
+                  aria-label={t.captionEnd}
+                  className={timeInput}
+                />
+              </div>
+              <textarea
+                value={cue.text}
+                onChange={(e) => updateCue(i, { text: e.target.value })}
+                rows={2}
+                className="flex-1 bg-black/40 border border-white/10 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-brand-500/50 resize-y"
+              />
+              <button
+                onClick={() => setDraft(prev => prev.filter((_, j) => j !== i))}
+                title={t.delete}
+                className="p-1 mt-0.5 text-slate-500 hover:text-red-300"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 px-5 py-3 border-t border-white/5">
+          <button onClick={onClose} className="px-4 py-1.5 rounded-lg text-xs font-medium text-slate-400 hover:text-white hover:bg-white/5 transition-colors">
+            {t.cancelBtn}
+          </button>
+          <button onClick={save} className="px-5 py-1.5 rounded-lg bg-brand-600 hover:bg-brand-500 text-white text-xs font-bold transition-all">
+            {t.saveBtn}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
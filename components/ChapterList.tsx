@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from 'react';
+import { Chapter, Language } from '../types';
+import { Play } from 'lucide-react';
+import { formatTimestamp } from '../services/utils';
+import { getTranslation } from '../services/translations';
+
+interface ChapterListProps {
+  chapters: Chapter[];
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  language: Language;
+}
+
+export const ChapterList: React.FC<ChapterListProps> = ({ chapters, currentTime, onSeek, language }) => {
+  const t = getTranslation(language);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  const activeIndex = chapters.findIndex(
+    (c, i) => currentTime >= c.start && (currentTime < c.end || i === chapters.length - 1)
+  );
+
+  // Keep the playing chapter in view as the video advances
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeIndex]);
+
+  if (chapters.length === 0) {
+    return <p className="text-slate-500 text-xs text-center py-8">{t.noChapters}</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {chapters.map((chapter, i) => {
+        const isActive = i === activeIndex;
+        return (
+          <button
+            key={`${chapter.start}-${i}`}
+            ref={isActive ? activeRef : undefined}
+            onClick={() => onSeek(chapter.start)}
+            className={`text-left rounded-xl px-4 py-3 border transition-all group ${
+              isActive
+                ? 'bg-brand-500/15 border-brand-500/40 shadow-lg shadow-brand-500/10'
+                : 'bg-white/[0.02] border-white/5 hover:bg-white/5 hover:border-white/10'
+            }`}
+          >
+            <div className="flex items-center gap-3 mb-1">
+              <span className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${
+                isActive
+                  ? 'text-brand-200 bg-brand-500/20 border-brand-500/30'
+                  : 'text-brand-400 bg-brand-900/30 border-brand-500/20'
+              }`}>
+                {formatTimestamp(chapter.start)} – {formatTimestamp(chapter.end)}
+              </span>
+              <span className="text-sm font-semibold text-white truncate flex-1">{chapter.title}</span>
+              <Play className={`w-3 h-3 shrink-0 transition-opacity ${isActive ? 'text-brand-300 opacity-100' : 'text-slate-500 opacity-0 group-hover:opacity-100'}`} />
+            </div>
+            <p className="text-xs text-slate-400 leading-relaxed">{chapter.description}</p>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
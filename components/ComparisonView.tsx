@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ComparisonState, ChatMessage, ExportFormat, Language } from '../types';
+import { GitCompare, Film, Loader2, RotateCcw, Send, MessageSquare, Sparkles, Cpu } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { Markdown } from './Markdown';
+import { ExportMenu } from './ExportMenu';
+
+interface ComparisonViewProps {
+  comparison: ComparisonState;
+  messages: ChatMessage[];
+  isChatLoading: boolean;
+  /** False until the multi-video chat session is ready */
+  canChat: boolean;
+  onSend: (text: string) => void;
+  onRegenerate: () => void;
+  onExport: (format: ExportFormat) => void;
+  language: Language;
+}
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({
+  comparison,
+  messages,
+  isChatLoading,
+  canChat,
+  onSend,
+  onRegenerate,
+  onExport,
+  language
+}) => {
+  const [draft, setDraft] = useState('');
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  const t = getTranslation(language);
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, isChatLoading]);
+
+  const send = () => {
+    if (!draft.trim() || isChatLoading || !canChat) return;
+    onSend(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="grid lg:grid-cols-12 gap-6 lg:h-[calc(100vh-7rem)]">
+
+        {/* Sources & Report */}
+        <div className="lg:col-span-6 flex flex-col gap-4 lg:overflow-y-auto custom-scrollbar pr-1">
+          <div className="glass-panel rounded-2xl p-4">
+            <div className="flex items-center gap-2 mb-3">
+              <GitCompare className="w-4 h-4 text-brand-400" />
+              <h2 className="text-sm font-bold text-white">{t.comparisonTitle}</h2>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {comparison.sources.map(source => (
+                <div key={source.sessionId} className="flex items-center gap-2 p-2 rounded-xl bg-black/30 border border-white/5 min-w-0">
+                  <div className="w-14 h-9 shrink-0 rounded-md overflow-hidden bg-black/60 border border-white/10 flex items-center justify-center">
+                    {source.thumbnail
+                      ? <img src={source.thumbnail} alt="" className="w-full h-full object-cover" />
+                      : <Film className="w-3.5 h-3.5 text-slate-600" />}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-[10px] font-mono font-bold text-brand-300">[{source.label}]</p>
+                    <p className="text-xs text-white truncate" title={source.title}>{source.title}</p>
+                    {!source.reference && <p className="text-[10px] text-amber-300/80 truncate">{t.comparisonFromSummary}</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="glass-panel rounded-2xl flex-1 flex flex-col min-h-[300px]">
+            <div className="px-5 py-3 border-b border-white/5 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Sparkles className="w-4 h-4 text-brand-400" />
+                <h3 className="text-sm font-semibold text-white">{t.comparisonReport}</h3>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={onRegenerate}
+                  disabled={comparison.isLoading}
+                  title={t.retryBtn}
+                  className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 disabled:opacity-30 transition-colors"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                </button>
+                {comparison.report && (
+                  <ExportMenu onExport={(format) => onExport(format)} hasTimestamps={false} hasChat={false} language={language} />
+                )}
+              </div>
+            </div>
+            <div className="p-5 flex-1 text-sm text-slate-300">
+              {comparison.isLoading && (
+                <div className="flex flex-col items-center justify-center py-16 gap-3 text-slate-400">
+                  <Loader2 className="w-6 h-6 animate-spin text-brand-400" />
+                  <p className="text-xs">{t.comparing}</p>
+                </div>
+              )}
+              {comparison.error && !comparison.isLoading && (
+                <p className="text-xs text-red-300 bg-red-500/10 border border-red-500/20 rounded-lg p-3">{comparison.error}</p>
+              )}
+              {comparison.report && !comparison.isLoading && (
+                <>
+                  <Markdown text={comparison.report} />
+                  {comparison.model && (
+                    <p className="mt-4 text-[10px] text-slate-600 font-mono flex items-center gap-1">
+                      <Cpu className="w-3 h-3" /> {comparison.model}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Multi-video Chat */}
+        <div className="lg:col-span-6 glass-panel rounded-2xl flex flex-col min-h-[400px] overflow-hidden">
+          <div className="px-5 py-3 border-b border-white/5 flex items-center gap-2">
+            <MessageSquare className="w-4 h-4 text-brand-400" />
+            <h3 className="text-sm font-semibold text-white">{t.comparisonChat}</h3>
+          </div>
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+            {messages.map(msg => (
+              <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm ${
+                  msg.role === 'user'
+                    ? 'bg-brand-600 text-white rounded-br-sm'
+                    : 'bg-white/5 border border-white/10 text-slate-200 rounded-bl-sm'
+                }`}>
+                  {msg.role === 'model'
+                    ? (msg.text ? <Markdown text={msg.text} compact /> : <Loader2 className="w-4 h-4 animate-spin text-brand-400" />)
+                    : msg.text}
+                </div>
+              </div>
+            ))}
+            <div ref={chatEndRef} />
+          </div>
+          <div className="p-3 border-t border-white/5">
+            <div className="flex items-center gap-2 bg-black/40 border border-white/10 rounded-xl px-3 py-2 focus-within:border-brand-500/50">
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && send()}
+                placeholder={t.comparisonPlaceholder}
+                disabled={!canChat}
+                className="flex-1 bg-transparent text-sm text-white placeholder-slate-600 focus:outline-none disabled:opacity-50"
+              />
+              <button
+                onClick={send}
+                disabled={!draft.trim() || isChatLoading || !canChat}
+                className="p-1.5 rounded-lg bg-brand-600 text-white hover:bg-brand-500 disabled:opacity-30 transition-colors"
+              >
+                <Send className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
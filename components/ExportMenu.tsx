@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportFormat, Language } from '../types';
+import { Download, FileText, FileBraces, FileCode, Printer, FileType, Captions, ChevronDown } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat, includeChat: boolean) => void;
+  /** Whether timestamped output (chapters) is available for subtitle formats */
+  hasTimestamps: boolean;
+  hasChat: boolean;
+  language: Language;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, hasTimestamps, hasChat, language }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeChat, setIncludeChat] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const t = getTranslation(language);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const options: { format: ExportFormat; label: string; icon: React.ReactNode; disabled?: boolean }[] = [
+    { format: 'markdown', label: t.exportMarkdown, icon: <FileText className="w-3.5 h-3.5" /> },
+    { format: 'json', label: t.exportJson, icon: <FileBraces className="w-3.5 h-3.5" /> },
+    { format: 'html', label: t.exportHtml, icon: <FileCode className="w-3.5 h-3.5" /> },
+    { format: 'pdf', label: t.exportPdf, icon: <Printer className="w-3.5 h-3.5" /> },
+    { format: 'docx', label: t.exportDocx, icon: <FileType className="w-3.5 h-3.5" /> },
+    { format: 'srt', label: t.exportSrt, icon: <Captions className="w-3.5 h-3.5" />, disabled: !hasTimestamps },
+    { format: 'vtt', label: t.exportVtt, icon: <Captions className="w-3.5 h-3.5" />, disabled: !hasTimestamps },
+  ];
+
+  const handleSelect = (format: ExportFormat) => {
+    setIsOpen(false);
+    onExport(format, hasChat && includeChat);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="text-xs flex items-center gap-1.5 text-slate-400 hover:text-white transition-colors bg-white/5 px-2 py-1 rounded-lg border border-white/5 hover:bg-white/10"
+      >
+        <Download className="w-3 h-3" />
+        <span>{t.export}</span>
+        <ChevronDown className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-56 z-30 bg-[#0f172a] border border-white/10 rounded-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-150">
+          <div className="py-1">
+            {options.map(option => (
+              <button
+                key={option.format}
+                onClick={() => handleSelect(option.format)}
+                disabled={option.disabled}
+                className="w-full flex items-center gap-2.5 px-3 py-2 text-xs text-slate-300 hover:bg-white/5 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+              >
+                <span className="text-brand-400">{option.icon}</span>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {hasChat && (
+            <label className="flex items-center gap-2 px-3 py-2.5 border-t border-white/5 text-[11px] text-slate-400 cursor-pointer hover:text-white">
+              <input
+                type="checkbox"
+                checked={includeChat}
+                onChange={(e) => setIncludeChat(e.target.checked)}
+                className="accent-brand-500"
+              />
+              {t.includeChat}
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
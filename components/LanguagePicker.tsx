@@ -0,0 +1,33 @@
+import React from 'react';
+import { Language } from '../types';
+import { Globe } from 'lucide-react';
+import { listLanguages } from '../services/languages';
+
+interface LanguagePickerProps {
+  value: Language;
+  onChange: (language: Language) => void;
+  /** Accessible name and tooltip, e.g. "Interface language" */
+  label: string;
+  icon?: React.ReactNode;
+  disabled?: boolean;
+}
+
+export const LanguagePicker: React.FC<LanguagePickerProps> = ({ value, onChange, label, icon, disabled }) => (
+  <label
+    title={label}
+    className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-white/5 border border-white/5 hover:bg-white/10 transition-all text-xs font-medium text-slate-300 cursor-pointer"
+  >
+    {icon ?? <Globe className="w-3.5 h-3.5 shrink-0" />}
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={label}
+      disabled={disabled}
+      className="bg-transparent outline-none cursor-pointer disabled:opacity-50 [&>option]:bg-slate-900"
+    >
+      {listLanguages().map(pack => (
+        <option key={pack.code} value={pack.code}>{pack.nativeName}</option>
+      ))}
+    </select>
+  </label>
+);
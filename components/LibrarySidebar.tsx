@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LibraryEntry, Language, MAX_COMPARISON_VIDEOS } from '../types';
+import { X, Search, Trash2, Pencil, Check, Film, HardDrive, Archive, GitCompare } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { formatBytes } from '../services/utils';
+import { StorageUsage } from '../services/libraryService';
+
+interface LibrarySidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: LibraryEntry[];
+  activeId: string | null;
+  storage: StorageUsage | null;
+  keepVideo: boolean;
+  onKeepVideoChange: (keep: boolean) => void;
+  onOpen: (entry: LibraryEntry) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onDiscardVideo: (id: string) => void;
+  onCompare: (ids: string[]) => void;
+  language: Language;
+}
+
+export const LibrarySidebar: React.FC<LibrarySidebarProps> = ({
+  isOpen,
+  onClose,
+  entries,
+  activeId,
+  storage,
+  keepVideo,
+  onKeepVideoChange,
+  onOpen,
+  onRename,
+  onDelete,
+  onDiscardVideo,
+  onCompare,
+  language
+}) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  // Selection for cross-video comparison; null when not in compare mode
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const t = getTranslation(language);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setEditingId(null);
+      setCompareIds(null);
+    }
+  }, [isOpen]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return entries;
+    return entries.filter(e =>
+      e.title.toLowerCase().includes(q) ||
+      e.video.name.toLowerCase().includes(q) ||
+      e.summaryText.toLowerCase().includes(q) ||
+      e.analysis?.topics.some(topic => topic.toLowerCase().includes(q))
+    );
+  }, [entries, query]);
+
+  const startRename = (entry: LibraryEntry) => {
+    setEditingId(entry.id);
+    setDraftTitle(entry.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids => {
+      if (!ids) return ids;
+      if (ids.includes(id)) return ids.filter(i => i !== id);
+      return ids.length < MAX_COMPARISON_VIDEOS ? [...ids, id] : ids;
+    });
+  };
+
+  const handleEntryClick = (entry: LibraryEntry) => {
+    if (compareIds) {
+      toggleCompare(entry.id);
+    } else {
+      onOpen(entry);
+    }
+  };
+
+  const usagePercent = storage && storage.quota > 0 ? Math.min(100, (storage.usage / storage.quota) * 100) : 0;
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 z-[45] bg-black/50 backdrop-blur-sm animate-in fade-in" onClick={onClose} />}
+      <aside
+        className={`fixed top-0 left-0 bottom-0 z-50 w-80 max-w-[85vw] bg-[#0b1120] border-r border-white/10 shadow-2xl flex flex-col transition-transform duration-300 ${
+          isOpen ? 'translate-x-0' : '-translate-x-full'
+        }`}
+      >
+        <div className="flex items-center justify-between px-4 h-14 border-b border-white/5 shrink-0">
+          <h2 className="text-sm font-bold text-white tracking-tight">{t.library}</h2>
+          <div className="flex items-center gap-1">
+            {entries.length > 1 && (
+              <button
+                onClick={() => setCompareIds(ids => (ids ? null : []))}
+                title={t.compareVideos}
+                className={`p-1.5 rounded-lg transition-colors ${compareIds ? 'text-brand-300 bg-brand-500/10' : 'text-slate-400 hover:text-white hover:bg-white/10'}`}
+              >
+                <GitCompare className="w-4 h-4" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {compareIds && (
+          <div className="px-3 py-2.5 border-b border-white/5 bg-brand-500/5 flex items-center justify-between gap-2 shrink-0">
+            <p className="text-[11px] text-slate-300">{t.compareSelect.replace('{max}', String(MAX_COMPARISON_VIDEOS))}</p>
+            <button
+              onClick={() => onCompare(compareIds)}
+              disabled={compareIds.length < 2}
+              className="shrink-0 px-2.5 py-1 rounded-lg bg-brand-600 text-white text-[11px] font-medium hover:bg-brand-500 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              {t.compareBtn} ({compareIds.length})
+            </button>
+          </div>
+        )}
+
+        <div className="p-3 border-b border-white/5 shrink-0">
+          <div className="relative">
+            <Search className="w-3.5 h-3.5 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t.librarySearch}
+              className="w-full bg-black/40 border border-white/10 rounded-lg pl-9 pr-3 py-2 text-xs text-white placeholder-slate-600 focus:outline-none focus:border-brand-500/50"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+          {filtered.length === 0 && (
+            <p className="text-center text-xs text-slate-500 py-10 px-4">{entries.length ? t.libraryNoMatches : t.libraryEmpty}</p>
+          )}
+          {filtered.map(entry => (
+            <div
+              key={entry.id}
+              className={`group rounded-xl p-2 flex gap-3 border transition-colors ${
+                compareIds?.includes(entry.id) || (!compareIds && entry.id === activeId) ? 'bg-brand-500/10 border-brand-500/30' : 'border-transparent hover:bg-white/5'
+              }`}
+            >
+              {compareIds && (
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(entry.id)}
+                  disabled={!compareIds.includes(entry.id) && compareIds.length >= MAX_COMPARISON_VIDEOS}
+                  onChange={() => toggleCompare(entry.id)}
+                  className="accent-brand-500 self-center"
+                />
+              )}
+              <button onClick={() => handleEntryClick(entry)} className="w-20 h-12 shrink-0 rounded-lg overflow-hidden bg-black/60 border border-white/10 flex items-center justify-center">
+                {entry.thumbnail
+                  ? <img src={entry.thumbnail} alt="" className="w-full h-full object-cover" />
+                  : <Film className="w-4 h-4 text-slate-600" />}
+              </button>
+              <div className="min-w-0 flex-1">
+                {editingId === entry.id ? (
+                  <div className="flex items-center gap-1">
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      onBlur={commitRename}
+                      className="w-full bg-black/40 border border-brand-500/40 rounded px-1.5 py-0.5 text-xs text-white focus:outline-none"
+                    />
+                    <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="p-1 text-brand-300 hover:text-white">
+                      <Check className="w-3 h-3" />
+                    </button>
+                  </div>
+                ) : (
+                  <button onClick={() => handleEntryClick(entry)} className="block w-full text-left">
+                    <p className="text-xs font-medium text-white truncate">{entry.title}</p>
+                  </button>
+                )}
+                <p className="text-[10px] text-slate-500 mt-0.5 flex items-center gap-1.5">
+                  <span>{new Date(entry.updatedAt).toLocaleDateString()}</span>
+                  <span>·</span>
+                  <span>{formatBytes(entry.video.size)}</span>
+                  {entry.hasVideoBlob && <HardDrive className="w-2.5 h-2.5 text-brand-400" aria-label={t.videoStored} />}
+                </p>
+                <div className={`flex items-center gap-1 mt-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity ${compareIds ? 'hidden' : ''}`}>
+                  <button onClick={() => startRename(entry)} title={t.rename} className="p-1 rounded text-slate-500 hover:text-white hover:bg-white/10">
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  {entry.hasVideoBlob && (
+                    <button onClick={() => onDiscardVideo(entry.id)} title={t.discardVideo} className="p-1 rounded text-slate-500 hover:text-amber-300 hover:bg-white/10">
+                      <Archive className="w-3 h-3" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      if (window.confirm(t.confirmDelete)) onDelete(entry.id);
+                    }}
+                    title={t.delete}
+                    className="p-1 rounded text-slate-500 hover:text-red-300 hover:bg-white/10"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-white/5 space-y-3 shrink-0">
+          <label className="flex items-center justify-between gap-3 text-[11px] text-slate-300 cursor-pointer">
+            <span>{t.keepVideoFiles}</span>
+            <input
+              type="checkbox"
+              checked={keepVideo}
+              onChange={(e) => onKeepVideoChange(e.target.checked)}
+              className="accent-brand-500"
+            />
+          </label>
+          {storage && storage.quota > 0 && (
+            <div>
+              <div className="flex justify-between text-[10px] text-slate-500 mb-1 font-mono">
+                <span>{t.storageUsed}</span>
+                <span>{formatBytes(storage.usage)} / {formatBytes(storage.quota)}</span>
+              </div>
+              <div className="h-1 w-full bg-white/5 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${usagePercent > 85 ? 'bg-red-500' : 'bg-brand-500'}`}
+                  style={{ width: `${usagePercent}%` }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef } from 'react';
+import { LiveActivity, LiveConnection } from '../types';
+import { Mic, MicOff, Sparkles, Waves } from 'lucide-react';
+
+interface LiveOrbProps {
+  connection: LiveConnection | null;
+  activity: LiveActivity;
+  muted: boolean;
+  title: string;
+  statusText: string;
+  isError?: boolean;
+}
+
+// Share of the gap to the new level closed each frame, so the orb eases instead of flickering
+const SMOOTHING = 0.3;
+
+const ACTIVITY_STYLES: Record<LiveActivity, { glow: string; liquid: string; ringSpeed: string }> = {
+  listening: { glow: 'rgba(56,189,248,0.35)', liquid: 'from-brand-400/25 to-sky-500/20', ringSpeed: '3s' },
+  thinking: { glow: 'rgba(251,191,36,0.25)', liquid: 'from-amber-300/20 to-purple-500/20', ringSpeed: '1.5s' },
+  speaking: { glow: 'rgba(168,85,247,0.45)', liquid: 'from-purple-400/30 to-pink-500/20', ringSpeed: '6s' }
+};
+
+/**
+ * The live mode orb. Its core and rings follow the level of whoever is
+ * talking: the microphone while listening, the model's voice while speaking.
+ * Levels are read on every animation frame and applied as a CSS variable,
+ * so the meter does not re-render React.
+ */
+export const LiveOrb: React.FC<LiveOrbProps> = ({ connection, activity, muted, title, statusText, isError }) => {
+  const orbRef = useRef<HTMLDivElement>(null);
+  const activityRef = useRef(activity);
+  activityRef.current = activity;
+
+  useEffect(() => {
+    const el = orbRef.current;
+    if (!el || !connection) return;
+    let level = 0;
+    let frame = requestAnimationFrame(function tick() {
+      const levels = connection.getLevels();
+      const target = activityRef.current === 'speaking' ? levels.output : levels.input;
+      level += (target - level) * SMOOTHING;
+      el.style.setProperty('--live-level', level.toFixed(3));
+      frame = requestAnimationFrame(tick);
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      el.style.setProperty('--live-level', '0');
+    };
+  }, [connection]);
+
+  const style = ACTIVITY_STYLES[activity];
+  const CoreIcon = muted && activity !== 'speaking' ? MicOff : activity === 'speaking' ? Waves : activity === 'thinking' ? Sparkles : Mic;
+
+  return (
+    <div ref={orbRef} className="relative z-10" style={{ '--live-level': 0 } as React.CSSProperties}>
+      <div
+        className="w-48 h-48 rounded-full bg-white/5 backdrop-blur-xl border border-white/20 flex items-center justify-center relative overflow-hidden transition-shadow duration-500"
+        style={{ boxShadow: `0 0 calc(40px + var(--live-level) * 60px) ${style.glow}` }}
+      >
+        {/* Internal Liquid Animation */}
+        <div className={`absolute inset-0 bg-gradient-to-br ${style.liquid} animate-[spin_8s_linear_infinite] transition-colors duration-500`}></div>
+
+        {/* Core, swelling with the voice */}
+        <div
+          className={`w-24 h-24 rounded-full bg-white/10 backdrop-blur-md border border-white/30 flex items-center justify-center shadow-inner ${activity === 'thinking' ? 'animate-[pulse_1.5s_ease-in-out_infinite]' : ''}`}
+          style={{ transform: 'scale(calc(1 + var(--live-level) * 0.35))' }}
+        >
+          <CoreIcon className={`w-8 h-8 ${muted && activity !== 'speaking' ? 'text-red-300/80' : 'text-white/80'}`} />
+        </div>
+
+        {/* Orbiting Rings */}
+        <div
+          className="absolute inset-2 rounded-full border border-white/10 border-t-white/50 animate-[spin_3s_linear_infinite]"
+          style={{ animationDuration: style.ringSpeed, opacity: 'calc(0.5 + var(--live-level) * 0.5)' }}
+        ></div>
+        {/* Scaled on a wrapper, since the spin animation owns the ring's transform */}
+        <div className="absolute inset-6" style={{ transform: 'scale(calc(1 + var(--live-level) * 0.12))' }}>
+          <div className="absolute inset-0 rounded-full border border-white/5 border-b-white/30 animate-[spin_5s_linear_infinite_reverse]"></div>
+        </div>
+      </div>
+
+      {/* Status Label */}
+      <div className="absolute -bottom-12 left-1/2 -translate-x-1/2 text-center whitespace-nowrap">
+        <p className="text-white/90 font-medium tracking-wider text-sm mb-1 drop-shadow-md">{title}</p>
+        <p className={`text-[10px] uppercase tracking-widest ${isError ? 'text-red-300' : 'text-white/50'}`}>
+          {statusText}
+        </p>
+      </div>
+    </div>
+  );
+};
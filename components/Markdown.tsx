@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, MdBlock, MdInline } from '../services/markdown';
+
+interface MarkdownProps {
+  text: string;
+  /** Called when a [mm:ss] timestamp is clicked. Timestamps render as plain text without it. */
+  onSeek?: (seconds: number) => void;
+  /** Tighter spacing for chat bubbles */
+  compact?: boolean;
+}
+
+const headingClasses: Record<number, string> = {
+  1: 'text-lg font-bold text-white',
+  2: 'text-base font-bold text-white',
+  3: 'text-sm font-bold text-white',
+  4: 'text-sm font-semibold text-white',
+  5: 'text-xs font-semibold text-white uppercase tracking-wide',
+  6: 'text-xs font-semibold text-slate-300 uppercase tracking-wide',
+};
+
+const renderInline = (nodes: MdInline[], onSeek?: (seconds: number) => void): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{node.value}</React.Fragment>;
+      case 'strong':
+        return <strong key={i} className="font-semibold text-brand-300">{renderInline(node.children, onSeek)}</strong>;
+      case 'em':
+        return <em key={i} className="italic">{renderInline(node.children, onSeek)}</em>;
+      case 'code':
+        return <code key={i} className="font-mono text-[0.9em] bg-black/40 border border-white/10 rounded px-1 py-0.5 text-brand-200">{node.value}</code>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-brand-400 underline underline-offset-2 hover:text-brand-300">
+            {renderInline(node.children, onSeek)}
+          </a>
+        );
+      case 'timestamp':
+        return onSeek ? (
+          <button
+            key={i}
+            onClick={() => onSeek(node.seconds)}
+            className="font-mono text-[0.9em] text-brand-300 bg-brand-900/30 border border-brand-500/20 rounded px-1 hover:bg-brand-500/20 transition-colors"
+          >
+            {node.label}
+          </button>
+        ) : (
+          <span key={i} className="font-mono text-[0.9em] text-brand-300">[{node.label}]</span>
+        );
+      case 'break':
+        return <br key={i} />;
+    }
+  });
+
+const renderBlocks = (blocks: MdBlock[], onSeek: ((seconds: number) => void) | undefined, compact: boolean): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={i} className={`${headingClasses[block.level]} ${compact ? 'mt-2 mb-1' : 'mt-5 mb-2'} first:mt-0`}>{renderInline(block.children, onSeek)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={i} className={`leading-relaxed ${compact ? 'my-1' : 'my-2'} first:mt-0 last:mb-0`}>{renderInline(block.children, onSeek)}</p>;
+      case 'list': {
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag
+            key={i}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+            className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 ${compact ? 'my-1 space-y-0.5' : 'my-2 space-y-1'} marker:text-brand-400`}
+          >
+            {block.items.map((item, j) => (
+              <li key={j} className="leading-relaxed [&>p]:my-0">{renderBlocks(item, onSeek, compact)}</li>
+            ))}
+          </ListTag>
+        );
+      }
+      case 'code':
+        return (
+          <pre key={i} className="my-2 bg-black/50 border border-white/10 rounded-lg p-3 overflow-x-auto text-[0.9em] leading-snug">
+            <code className="font-mono text-slate-200">{block.value}</code>
+          </pre>
+        );
+      case 'table':
+        return (
+          <div key={i} className="my-3 overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, c) => (
+                    <th key={c} style={{ textAlign: block.align[c] ?? undefined }} className="border-b border-white/20 px-2 py-1.5 font-semibold text-white">
+                      {renderInline(cell, onSeek)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="border-b border-white/5">
+                    {row.map((cell, c) => (
+                      <td key={c} style={{ textAlign: block.align[c] ?? undefined }} className="px-2 py-1.5 align-top">
+                        {renderInline(cell, onSeek)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={i} className="my-2 border-l-2 border-brand-500/50 pl-3 text-slate-400">
+            {renderBlocks(block.children, onSeek, compact)}
+          </blockquote>
+        );
+      case 'hr':
+        return <hr key={i} className="my-4 border-white/10" />;
+    }
+  });
+
+/**
+ * Renders model output as markdown. Raw HTML is stripped and only http(s)/mailto
+ * links are kept, so untrusted text can be displayed safely.
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ text, onSeek, compact = false }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className="break-words">{renderBlocks(blocks, onSeek, compact)}</div>;
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { AICapability, AIProviderId, Language, ProviderSettings } from '../types';
+import { Cpu } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { AI_CAPABILITIES, getProvider, listProviders } from '../services/aiProvider';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  language: Language;
+}
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, language }) => {
+  const t = getTranslation(language);
+  const providers = listProviders();
+
+  const capabilityLabel: Record<AICapability, string> = {
+    analysis: t.capAnalysis,
+    chat: t.capChat,
+    speech: t.capSpeech,
+    live: t.capLive
+  };
+
+  const setProvider = (capability: AICapability, id: AIProviderId) => {
+    // Switching provider resets to that provider's default model
+    onChange({ ...settings, [capability]: { provider: id, model: getProvider(id).models[capability][0] } });
+  };
+
+  const setModel = (capability: AICapability, model: string) => {
+    onChange({ ...settings, [capability]: { ...settings[capability], model } });
+  };
+
+  const selectClass = "bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-brand-500/50 min-w-0";
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <Cpu className="w-3.5 h-3.5 text-brand-400" />
+        <h4 className="text-xs font-bold text-white uppercase tracking-wider">{t.settingsModels}</h4>
+      </div>
+      <div className="space-y-2">
+        {AI_CAPABILITIES.map(capability => {
+          const choice = settings[capability];
+          return (
+            <div key={capability} className="grid grid-cols-[5.5rem_1fr_1.4fr] items-center gap-2">
+              <span className="text-[11px] text-slate-400">{capabilityLabel[capability]}</span>
+              <select
+                value={choice.provider}
+                onChange={(e) => setProvider(capability, e.target.value as AIProviderId)}
+                aria-label={`${capabilityLabel[capability]} ${t.providerLabel}`}
+                className={selectClass}
+              >
+                {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <select
+                value={choice.model}
+                onChange={(e) => setModel(capability, e.target.value)}
+                aria-label={`${capabilityLabel[capability]} ${t.modelLabel}`}
+                className={selectClass}
+              >
+                {getProvider(choice.provider).models[capability].map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
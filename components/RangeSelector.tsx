@@ -0,0 +1,74 @@
+import React from 'react';
+import { formatTimestamp } from '../services/utils';
+
+interface RangeSelectorProps {
+  /** Length of the media in seconds */
+  duration: number;
+  start: number;
+  end: number;
+  onChange: (start: number, end: number) => void;
+  /** Shortest range that can be selected, in seconds */
+  minLength?: number;
+  disabled?: boolean;
+  startLabel: string;
+  endLabel: string;
+}
+
+// Two range inputs laid over one track; only their thumbs take pointer events
+const thumbClass = "absolute inset-0 w-full appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-3 [&::-moz-range-thumb]:h-3 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-white [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-pointer disabled:opacity-50";
+
+/**
+ * Start/end selector for a part of a video, in seconds.
+ */
+export const RangeSelector: React.FC<RangeSelectorProps> = ({
+  duration,
+  start,
+  end,
+  onChange,
+  minLength = 1,
+  disabled,
+  startLabel,
+  endLabel
+}) => {
+  const max = Math.max(duration, minLength);
+  const percent = (seconds: number) => `${(seconds / max) * 100}%`;
+
+  return (
+    <div className="space-y-1.5">
+      <div className="relative h-4">
+        <div className="absolute top-1/2 -translate-y-1/2 inset-x-0 h-1 rounded-full bg-white/10" />
+        <div
+          className="absolute top-1/2 -translate-y-1/2 h-1 rounded-full bg-brand-400"
+          style={{ left: percent(start), width: percent(end - start) }}
+        />
+        <input
+          type="range"
+          min={0}
+          max={max}
+          step={0.1}
+          value={start}
+          disabled={disabled}
+          aria-label={startLabel}
+          onChange={(e) => onChange(Math.max(0, Math.min(Number(e.target.value), end - minLength)), end)}
+          className={thumbClass}
+        />
+        <input
+          type="range"
+          min={0}
+          max={max}
+          step={0.1}
+          value={end}
+          disabled={disabled}
+          aria-label={endLabel}
+          onChange={(e) => onChange(start, Math.min(max, Math.max(Number(e.target.value), start + minLength)))}
+          className={thumbClass}
+        />
+      </div>
+      <div className="flex justify-between text-[10px] font-mono text-slate-400">
+        <span>{startLabel} {formatTimestamp(start)}</span>
+        <span>{formatTimestamp(end - start)}</span>
+        <span>{endLabel} {formatTimestamp(end)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { AnalysisSegment, Language, SegmentStatus } from '../types';
+import { Loader2, CheckCircle2, AlertCircle, Clock, RotateCcw } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { formatTimestamp } from '../services/utils';
+
+interface SegmentProgressProps {
+  segments: AnalysisSegment[];
+  language: Language;
+}
+
+/**
+ * Status of each window while a long video is analyzed in parts.
+ */
+export const SegmentProgress: React.FC<SegmentProgressProps> = ({ segments, language }) => {
+  const t = getTranslation(language);
+  const doneCount = segments.filter(s => s.status === 'done').length;
+
+  const statusIcon = (status: SegmentStatus) => {
+    switch (status) {
+      case 'queued': return <Clock className="w-3 h-3" />;
+      case 'analyzing': return <Loader2 className="w-3 h-3 animate-spin" />;
+      case 'retrying': return <RotateCcw className="w-3 h-3" />;
+      case 'done': return <CheckCircle2 className="w-3 h-3" />;
+      case 'failed': return <AlertCircle className="w-3 h-3" />;
+    }
+  };
+
+  const statusColor: Record<SegmentStatus, string> = {
+    queued: 'text-slate-400 bg-white/5 border-white/10',
+    analyzing: 'text-purple-300 bg-purple-500/10 border-purple-500/20',
+    retrying: 'text-amber-300 bg-amber-500/10 border-amber-500/20',
+    done: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/20',
+    failed: 'text-red-300 bg-red-500/10 border-red-500/20'
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <p className="text-[10px] text-slate-400">
+        {t.segmentsProgress.replace('{done}', String(doneCount)).replace('{total}', String(segments.length))}
+      </p>
+      <div className="grid grid-cols-2 gap-1.5">
+        {segments.map((segment, i) => (
+          <div
+            key={i}
+            title={segment.error ?? undefined}
+            className={`flex items-center gap-1.5 px-2 py-1 rounded-lg border text-[10px] font-mono ${statusColor[segment.status]}`}
+          >
+            {statusIcon(segment.status)}
+            <span className="truncate">{formatTimestamp(segment.start)}–{formatTimestamp(segment.end)}</span>
+            {segment.attempts > 1 && <span className="ml-auto opacity-70">×{segment.attempts}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
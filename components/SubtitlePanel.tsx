@@ -0,0 +1,94 @@
+import React from 'react';
+import { Language, SubtitleLanguage, SubtitlesState } from '../types';
+import { Captions, Eye, EyeOff, Pencil, Download, Loader2 } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { listLanguages } from '../services/languages';
+
+interface SubtitlePanelProps {
+  state: SubtitlesState;
+  target: SubtitleLanguage;
+  onTargetChange: (target: SubtitleLanguage) => void;
+  onGenerate: () => void;
+  /** False when there is neither a transcript nor a usable upload to transcribe */
+  canGenerate: boolean;
+  showCaptions: boolean;
+  onToggleCaptions: () => void;
+  onEdit: () => void;
+  onDownload: (format: 'srt' | 'vtt') => void;
+  language: Language;
+}
+
+export const SubtitlePanel: React.FC<SubtitlePanelProps> = ({
+  state,
+  target,
+  onTargetChange,
+  onGenerate,
+  canGenerate,
+  showCaptions,
+  onToggleCaptions,
+  onEdit,
+  onDownload,
+  language
+}) => {
+  const t = getTranslation(language);
+  const track = state.track;
+
+  const targets: { value: SubtitleLanguage; label: string }[] = [
+    { value: 'source', label: t.subtitleSource },
+    ...listLanguages().map(pack => ({ value: pack.code, label: pack.nativeName }))
+  ];
+
+  const iconButton = "p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="glass-panel rounded-2xl p-3 shrink-0 space-y-2">
+      <div className="flex items-center gap-2">
+        <Captions className="w-3.5 h-3.5 text-brand-400 shrink-0" />
+        <select
+          value={target}
+          onChange={(e) => onTargetChange(e.target.value as SubtitleLanguage)}
+          disabled={state.isLoading}
+          aria-label={t.subtitleLanguage}
+          className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-brand-500/50 disabled:opacity-50"
+        >
+          {targets.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        <button
+          onClick={onGenerate}
+          disabled={state.isLoading || !canGenerate}
+          className="px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-xs font-semibold text-slate-200 flex items-center gap-1.5 transition-colors disabled:opacity-40"
+        >
+          {state.isLoading && <Loader2 className="w-3 h-3 animate-spin" />}
+          {state.isLoading ? t.generatingSubtitles : t.generateSubtitles}
+        </button>
+      </div>
+
+      {state.error && <p className="text-[11px] text-red-300">{state.error}</p>}
+
+      {track && (
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-slate-500 flex-1 truncate">
+            {targets.find(o => o.value === track.language)?.label} · {t.captionCount.replace('{count}', String(track.cues.length))}
+          </span>
+          <button onClick={onToggleCaptions} title={showCaptions ? t.hideCaptions : t.showCaptions} className={iconButton}>
+            {showCaptions ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+          </button>
+          <button onClick={onEdit} title={t.editCaptions} className={iconButton}>
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          <Download className="w-3 h-3 text-slate-500 ml-1" />
+          {(['srt', 'vtt'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => onDownload(format)}
+              disabled={!track.cues.length}
+              className="text-[10px] font-mono uppercase text-slate-400 hover:text-white bg-white/5 hover:bg-white/10 border border-white/5 px-1.5 py-1 rounded transition-colors disabled:opacity-30"
+            >
+              {format}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisTemplate, Language } from '../types';
+import { X, Plus, Copy, Trash2, Upload, Download, LayoutTemplate, Lock } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { downloadTextFile } from '../services/utils';
+import {
+  listTemplates,
+  saveCustomTemplate,
+  deleteCustomTemplate,
+  importTemplates,
+  serializeTemplates,
+  templateDisplayName
+} from '../services/templates';
+
+interface TemplateManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after templates were added, changed or removed */
+  onTemplatesChange: () => void;
+  language: Language;
+}
+
+type Draft = Pick<AnalysisTemplate, 'name' | 'description' | 'prompt'> & { id?: string };
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  description: '',
+  prompt: 'Summarize the video in markdown.\nKeep it {length}. Write in {language}.'
+};
+
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ isOpen, onClose, onTemplatesChange, language }) => {
+  const [templates, setTemplates] = useState<AnalysisTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const t = getTranslation(language);
+
+  const reload = () => setTemplates(listTemplates());
+
+  useEffect(() => {
+    if (isOpen) {
+      reload();
+      setDraft(null);
+      setNotice(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const selected = templates.find(tpl => tpl.id === selectedId) ?? null;
+  const customTemplates = templates.filter(tpl => !tpl.builtIn);
+
+  const select = (tpl: AnalysisTemplate) => {
+    setSelectedId(tpl.id);
+    setDraft(tpl.builtIn ? null : { id: tpl.id, name: tpl.name, description: tpl.description, prompt: tpl.prompt });
+  };
+
+  const startNew = (from?: AnalysisTemplate) => {
+    setSelectedId(null);
+    setDraft(from
+      ? { name: `${templateDisplayName(from, language)} (2)`, description: from.description, prompt: from.prompt }
+      : EMPTY_DRAFT);
+  };
+
+  const save = () => {
+    if (!draft || !draft.name.trim() || !draft.prompt.trim()) return;
+    const saved = saveCustomTemplate(draft);
+    reload();
+    setSelectedId(saved.id);
+    setDraft({ ...draft, id: saved.id });
+    onTemplatesChange();
+  };
+
+  const remove = (id: string) => {
+    deleteCustomTemplate(id);
+    reload();
+    setSelectedId(null);
+    setDraft(null);
+    onTemplatesChange();
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = importTemplates(await file.text());
+      setNotice(t.templatesImported.replace('{count}', String(count)));
+      reload();
+      onTemplatesChange();
+    } catch (err: any) {
+      setNotice(`${t.templateImportFailed} ${err.message}`);
+    }
+  };
+
+  const handleExport = () => {
+    downloadTextFile(serializeTemplates(customTemplates), 'analysis-templates.json', 'application/json');
+  };
+
+  const fieldClass = "w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs text-white placeholder-slate-600 focus:outline-none focus:border-brand-500/50";
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-[#0f172a] border border-white/10 rounded-2xl shadow-2xl max-w-3xl w-full mx-4 max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-5 h-14 border-b border-white/5 shrink-0">
+          <div className="flex items-center gap-2">
+            <LayoutTemplate className="w-4 h-4 text-brand-400" />
+            <h3 className="text-sm font-bold text-white">{t.manageTemplates}</h3>
+          </div>
+          <div className="flex items-center gap-1">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="text-xs flex items-center gap-1.5 text-slate-400 hover:text-white px-2 py-1 rounded-lg hover:bg-white/10 transition-colors"
+            >
+              <Upload className="w-3 h-3" /> {t.importBtn}
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={!customTemplates.length}
+              className="text-xs flex items-center gap-1.5 text-slate-400 hover:text-white px-2 py-1 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <Download className="w-3 h-3" /> {t.exportBtn}
+            </button>
+            <button onClick={onClose} className="p-1.5 ml-1 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {notice && <p className="px-5 py-2 text-[11px] text-amber-200 bg-amber-500/10 border-b border-amber-500/20">{notice}</p>}
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-56 shrink-0 border-r border-white/5 overflow-y-auto custom-scrollbar p-2 space-y-1">
+            <button
+              onClick={() => startNew()}
+              className="w-full flex items-center gap-2 px-2.5 py-2 rounded-lg text-xs text-brand-300 hover:bg-brand-500/10 transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" /> {t.newTemplate}
+            </button>
+            {templates.map(tpl => (
+              <button
+                key={tpl.id}
+                onClick={() => select(tpl)}
+                className={`w-full text-left px-2.5 py-2 rounded-lg text-xs transition-colors flex items-center gap-2 ${
+                  tpl.id === selectedId ? 'bg-brand-500/10 text-white' : 'text-slate-300 hover:bg-white/5'
+                }`}
+              >
+                <span className="truncate flex-1">{templateDisplayName(tpl, language)}</span>
+                {tpl.builtIn && <Lock className="w-3 h-3 text-slate-600 shrink-0" aria-label={t.builtIn} />}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-5">
+            {selected?.builtIn && !draft && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-semibold text-white">{templateDisplayName(selected, language)}</p>
+                    <p className="text-[11px] text-slate-500">{selected.description}</p>
+                  </div>
+                  <button
+                    onClick={() => startNew(selected)}
+                    className="text-xs flex items-center gap-1.5 text-slate-300 hover:text-white px-2.5 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+                  >
+                    <Copy className="w-3 h-3" /> {t.duplicateBtn}
+                  </button>
+                </div>
+                <pre className="bg-black/40 border border-white/10 rounded-lg p-3 text-[11px] text-slate-300 whitespace-pre-wrap font-mono">{selected.prompt}</pre>
+              </div>
+            )}
+
+            {draft && (
+              <div className="space-y-3">
+                <label className="block">
+                  <span className="text-[11px] text-slate-400">{t.templateName}</span>
+                  <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={`${fieldClass} mt-1`} />
+                </label>
+                <label className="block">
+                  <span className="text-[11px] text-slate-400">{t.templateDescription}</span>
+                  <input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} className={`${fieldClass} mt-1`} />
+                </label>
+                <label className="block">
+                  <span className="text-[11px] text-slate-400">{t.templatePrompt}</span>
+                  <textarea
+                    value={draft.prompt}
+                    onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                    rows={10}
+                    className={`${fieldClass} mt-1 font-mono resize-y`}
+                  />
+                </label>
+                <p className="text-[10px] text-slate-500">{t.templatePlaceholderHint}</p>
+                <div className="flex justify-between pt-1">
+                  {draft.id ? (
+                    <button
+                      onClick={() => {
+                        if (window.confirm(t.confirmDeleteTemplate)) remove(draft.id!);
+                      }}
+                      className="text-xs flex items-center gap-1.5 text-red-300 hover:text-red-200 px-2.5 py-1.5 rounded-lg hover:bg-red-500/10 transition-colors"
+                    >
+                      <Trash2 className="w-3 h-3" /> {t.delete}
+                    </button>
+                  ) : <span />}
+                  <button
+                    onClick={save}
+                    disabled={!draft.name.trim() || !draft.prompt.trim()}
+                    className="px-5 py-1.5 rounded-lg bg-brand-600 hover:bg-brand-500 text-white text-xs font-bold transition-all disabled:opacity-40"
+                  >
+                    {t.saveBtn}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
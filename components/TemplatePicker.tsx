@@ -0,0 +1,87 @@
+import React from 'react';
+import { AnalysisTemplate, Language, SummaryDepth } from '../types';
+import { LayoutTemplate, SlidersHorizontal } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { templateDisplayName } from '../services/templates';
+import { SUMMARY_DEPTHS, depthDisplayName } from '../services/summaryDepth';
+import { listLanguages } from '../services/languages';
+
+interface TemplatePickerProps {
+  templates: AnalysisTemplate[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  depth: SummaryDepth;
+  onDepthChange: (depth: SummaryDepth) => void;
+  /** Language the report is written in, independent of the interface */
+  outputLanguage: Language;
+  onOutputLanguageChange: (language: Language) => void;
+  onManage: () => void;
+  disabled: boolean;
+  language: Language;
+}
+
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  templates,
+  selectedId,
+  onSelect,
+  depth,
+  onDepthChange,
+  outputLanguage,
+  onOutputLanguageChange,
+  onManage,
+  disabled,
+  language
+}) => {
+  const t = getTranslation(language);
+  const selected = templates.find(tpl => tpl.id === selectedId);
+
+  const selectClass = "bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-brand-500/50 disabled:opacity-50 min-w-0";
+
+  return (
+    <div className="glass-panel rounded-2xl p-3 shrink-0">
+      <div className="flex items-center gap-2">
+        <LayoutTemplate className="w-3.5 h-3.5 text-brand-400 shrink-0" />
+        <select
+          value={selectedId}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled}
+          aria-label={t.templateLabel}
+          className={`${selectClass} flex-1`}
+        >
+          {templates.map(tpl => (
+            <option key={tpl.id} value={tpl.id}>{templateDisplayName(tpl, language)}</option>
+          ))}
+        </select>
+        <select
+          value={depth}
+          onChange={(e) => onDepthChange(e.target.value as SummaryDepth)}
+          disabled={disabled}
+          aria-label={t.depthLabel}
+          className={selectClass}
+        >
+          {SUMMARY_DEPTHS.map(d => <option key={d} value={d}>{depthDisplayName(d, language)}</option>)}
+        </select>
+        <select
+          value={outputLanguage}
+          onChange={(e) => onOutputLanguageChange(e.target.value)}
+          disabled={disabled}
+          aria-label={t.summaryLanguage}
+          title={t.summaryLanguage}
+          className={selectClass}
+        >
+          {listLanguages().map(pack => <option key={pack.code} value={pack.code}>{pack.nativeName}</option>)}
+        </select>
+        <button
+          onClick={onManage}
+          title={t.manageTemplates}
+          className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors shrink-0"
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {selected?.description && (
+        <p className="text-[10px] text-slate-500 mt-1.5 pl-5 truncate" title={selected.description}>{selected.description}</p>
+      )}
+    </div>
+  );
+};
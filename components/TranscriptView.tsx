@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Language, TranscriptState } from '../types';
+import { Search, ChevronUp, ChevronDown, Pencil, Check, Download, Loader2, ScrollText, X } from 'lucide-react';
+import { formatTimestamp } from '../services/utils';
+import { getTranslation } from '../services/translations';
+import { TranscriptFormat } from '../services/exportService';
+
+interface TranscriptViewProps {
+  state: TranscriptState;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  /** Creates the transcript, or retries after an error */
+  onGenerate: () => void;
+  /** False when the uploaded video is no longer available */
+  canGenerate: boolean;
+  onRenameSpeaker: (id: string, name: string) => void;
+  onExport: (format: TranscriptFormat) => void;
+  language: Language;
+}
+
+const SPEAKER_COLORS = ['text-brand-300', 'text-amber-300', 'text-emerald-300', 'text-rose-300', 'text-sky-300', 'text-violet-300'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Wraps the parts of `text` matching the search query in <mark>.
+ */
+const highlight = (text: string, pattern: RegExp | null): React.ReactNode => {
+  if (!pattern) return text;
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-amber-400/30 text-amber-100 rounded px-0.5">{part}</mark> : part
+  );
+};
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({
+  state,
+  currentTime,
+  onSeek,
+  onGenerate,
+  canGenerate,
+  onRenameSpeaker,
+  onExport,
+  language
+}) => {
+  const t = getTranslation(language);
+  const [query, setQuery] = useState('');
+  const [matchPos, setMatchPos] = useState(0);
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const segmentRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const transcript = state.transcript;
+  const segments = transcript?.segments ?? [];
+  const speakerIds = transcript ? Object.keys(transcript.speakers) : [];
+
+  const pattern = useMemo(
+    () => query.trim() ? new RegExp(`(${escapeRegExp(query.trim())})`, 'gi') : null,
+    [query]
+  );
+  const matches = useMemo(
+    () => pattern ? segments.flatMap((s, i) => s.text.match(pattern) ? [i] : []) : [],
+    [segments, pattern]
+  );
+
+  // The line being spoken: the last one that has started
+  let activeIndex = -1;
+  for (let i = 0; i < segments.length && segments[i].start <= currentTime; i++) activeIndex = i;
+
+  // Follow playback, unless the user is stepping through search results
+  useEffect(() => {
+    if (pattern || activeIndex < 0) return;
+    segmentRefs.current[activeIndex]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeIndex, pattern]);
+
+  useEffect(() => {
+    setMatchPos(0);
+  }, [pattern]);
+
+  useEffect(() => {
+    if (matches.length) segmentRefs.current[matches[matchPos]]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [matches, matchPos]);
+
+  const stepMatch = (delta: number) => {
+    if (!matches.length) return;
+    setMatchPos(pos => (pos + delta + matches.length) % matches.length);
+  };
+
+  const startRename = (id: string) => {
+    setEditingSpeaker(id);
+    setDraftName(transcript?.speakers[id] ?? id);
+  };
+
+  const commitRename = () => {
+    if (editingSpeaker && draftName.trim()) onRenameSpeaker(editingSpeaker, draftName.trim());
+    setEditingSpeaker(null);
+  };
+
+  const colorOf = (id: string) => SPEAKER_COLORS[Math.max(0, speakerIds.indexOf(id)) % SPEAKER_COLORS.length];
+
+  if (state.isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-slate-400 gap-3 p-8">
+        <Loader2 className="w-6 h-6 animate-spin text-brand-400" />
+        <p className="text-xs">{t.transcribing}</p>
+      </div>
+    );
+  }
+
+  if (!transcript) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center gap-3 p-8">
+        <ScrollText className="w-8 h-8 text-slate-600" />
+        {state.error && <p className="text-xs text-red-300">{state.error}</p>}
+        <p className="text-slate-500 text-xs max-w-xs">{canGenerate ? t.transcriptDesc : t.transcriptNeedsVideo}</p>
+        <button
+          onClick={onGenerate}
+          disabled={!canGenerate}
+          className="px-4 py-2 rounded-xl bg-brand-600 hover:bg-brand-500 text-white text-xs font-bold transition-all disabled:opacity-40"
+        >
+          {state.error ? t.retryBtn : t.generateTranscript}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full animate-in fade-in zoom-in-95 duration-300">
+      <div className="border-b border-white/5 px-5 py-3 space-y-2.5 bg-white/[0.02]">
+        <div className="flex items-center gap-2">
+          <div className="flex-1 flex items-center gap-2 bg-black/40 border border-white/10 rounded-lg px-2.5 py-1.5">
+            <Search className="w-3.5 h-3.5 text-slate-500 shrink-0" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1);
+                if (e.key === 'Escape') setQuery('');
+              }}
+              placeholder={t.searchTranscript}
+              className="flex-1 bg-transparent text-xs text-white placeholder-slate-600 focus:outline-none min-w-0"
+            />
+            {pattern && (
+              <>
+                <span className="text-[10px] text-slate-500 font-mono shrink-0">
+                  {matches.length ? `${matchPos + 1}/${matches.length}` : t.noMatches}
+                </span>
+                <button onClick={() => stepMatch(-1)} disabled={!matches.length} className="p-0.5 text-slate-400 hover:text-white disabled:opacity-30">
+                  <ChevronUp className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => stepMatch(1)} disabled={!matches.length} className="p-0.5 text-slate-400 hover:text-white disabled:opacity-30">
+                  <ChevronDown className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => setQuery('')} className="p-0.5 text-slate-400 hover:text-white">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <Download className="w-3 h-3 text-slate-500" />
+            {(['srt', 'vtt', 'txt'] as TranscriptFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                disabled={!segments.length}
+                className="text-[10px] font-mono uppercase text-slate-400 hover:text-white bg-white/5 hover:bg-white/10 border border-white/5 px-1.5 py-1 rounded transition-colors disabled:opacity-30"
+              >
+                {format}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {speakerIds.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-[10px] text-slate-500 uppercase tracking-wider mr-1">{t.speakers}</span>
+            {speakerIds.map(id => editingSpeaker === id ? (
+              <div key={id} className="flex items-center gap-1">
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingSpeaker(null);
+                  }}
+                  onBlur={commitRename}
+                  className="w-28 bg-black/40 border border-brand-500/40 rounded px-1.5 py-0.5 text-[11px] text-white focus:outline-none"
+                />
+                <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="p-0.5 text-brand-300 hover:text-white">
+                  <Check className="w-3 h-3" />
+                </button>
+              </div>
+            ) : (
+              <button
+                key={id}
+                onClick={() => startRename(id)}
+                title={t.renameSpeaker}
+                className={`group text-[11px] font-semibold flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 ${colorOf(id)}`}
+              >
+                {transcript.speakers[id]}
+                <Pencil className="w-2.5 h-2.5 opacity-40 group-hover:opacity-100" />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-1">
+        {segments.length === 0 ? (
+          <p className="text-slate-500 text-xs text-center py-8">{t.noSpeech}</p>
+        ) : segments.map((segment, i) => {
+          const isActive = i === activeIndex;
+          const isCurrentMatch = matches.length > 0 && matches[matchPos] === i;
+          return (
+            <button
+              key={`${segment.start}-${i}`}
+              ref={el => { segmentRefs.current[i] = el; }}
+              onClick={() => onSeek(segment.start)}
+              className={`w-full text-left flex gap-3 rounded-lg px-3 py-2 border transition-colors ${
+                isActive
+                  ? 'bg-brand-500/15 border-brand-500/30'
+                  : isCurrentMatch
+                    ? 'bg-amber-500/10 border-amber-500/30'
+                    : 'border-transparent hover:bg-white/5'
+              }`}
+            >
+              <span className={`text-[10px] font-mono pt-0.5 shrink-0 ${isActive ? 'text-brand-200' : 'text-slate-500'}`}>
+                {formatTimestamp(segment.start)}
+              </span>
+              <span className="min-w-0">
+                <span className={`text-[11px] font-semibold mr-2 ${colorOf(segment.speaker)}`}>
+                  {transcript.speakers[segment.speaker] ?? segment.speaker}
+                </span>
+                <span className={`text-sm leading-relaxed ${isActive ? 'text-white' : 'text-slate-300'}`}>
+                  {highlight(segment.text, pattern)}
+                </span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Language } from '../types';
+import { Languages, Loader2, ChevronDown } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { listLanguages } from '../services/languages';
+
+interface TranslateMenuProps {
+  /** Language the content is currently in; left out of the list */
+  current: Language;
+  onTranslate: (target: Language) => void;
+  isTranslating: boolean;
+  disabled?: boolean;
+  language: Language;
+}
+
+export const TranslateMenu: React.FC<TranslateMenuProps> = ({ current, onTranslate, isTranslating, disabled, language }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const t = getTranslation(language);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSelect = (target: Language) => {
+    setIsOpen(false);
+    onTranslate(target);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled || isTranslating}
+        title={t.translateTo}
+        className="text-xs flex items-center gap-1.5 text-slate-400 hover:text-white transition-colors bg-white/5 px-2 py-1 rounded-lg border border-white/5 hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-white/5"
+      >
+        {isTranslating ? <Loader2 className="w-3 h-3 animate-spin" /> : <Languages className="w-3 h-3" />}
+        <span className="hidden sm:inline">{isTranslating ? t.translating : t.translate}</span>
+        <ChevronDown className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-44 z-30 bg-[#0f172a] border border-white/10 rounded-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-150">
+          <div className="px-3 pt-2 pb-1 text-[10px] uppercase tracking-wider text-slate-500">{t.translateTo}</div>
+          <div className="py-1">
+            {listLanguages().filter(pack => pack.code !== current).map(pack => (
+              <button
+                key={pack.code}
+                onClick={() => handleSelect(pack.code)}
+                className="w-full flex items-center justify-between gap-2 px-3 py-2 text-xs text-slate-300 hover:bg-white/5 hover:text-white transition-colors"
+              >
+                <span>{pack.nativeName}</span>
+                <span className="text-[10px] text-slate-500">{pack.name}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
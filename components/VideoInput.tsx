@@ -1,44 +1,88 @@
-import React, { useCallback, useState } from 'react';
-import { InputMode, VideoFile, Language } from '../types';
-import { Upload, Link, AlertCircle, CloudLightning, ArrowRight } from 'lucide-react';
-import { urlToFile } from '../services/utils';
+import React, { useCallback, useRef, useState } from 'react';
+import { InputMode, VideoFile, Language, VideoReference, RemoteVideoErrorCode } from '../types';
+import { Upload, Link, AlertCircle, CloudLightning, ArrowRight, Video } from 'lucide-react';
+import { MAX_VIDEO_BYTES, formatBytes } from '../services/utils';
+import { fetchRemoteVideo, isYouTubeUrl, youTubeVideoId, RemoteVideoError, DownloadProgress } from '../services/remoteVideo';
+import { linkVideoUrl } from '../services/aiProvider';
 import { getTranslation } from '../services/translations';
+import { VideoRecorder } from './VideoRecorder';
 
 interface VideoInputProps {
   onVideoSelected: (video: VideoFile) => void;
+  /** Enables multi-file selection; called when more than one valid video is picked */
+  onVideosSelected?: (videos: VideoFile[]) => void;
+  /** Called for links the analysis provider reads by URL, which need no download */
+  onVideoLinked?: (video: VideoFile, reference: VideoReference) => void;
   disabled: boolean;
   language: Language;
 }
 
-export const VideoInput: React.FC<VideoInputProps> = ({ onVideoSelected, disabled, language }) => {
+export const VideoInput: React.FC<VideoInputProps> = ({ onVideoSelected, onVideosSelected, onVideoLinked, disabled, language }) => {
   const [mode, setMode] = useState<InputMode>(InputMode.UPLOAD);
   const [urlInput, setUrlInput] = useState('');
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isFetchingUrl, setIsFetchingUrl] = useState(false);
+  const [download, setDownload] = useState<DownloadProgress | null>(null);
+  const downloadAbortRef = useRef<AbortController | null>(null);
   
   const t = getTranslation(language);
 
-  const handleFile = (file: File) => {
+  const remoteErrors: Record<RemoteVideoErrorCode, string> = {
+    'invalid-url': t.invalidUrl,
+    'blocked': t.urlBlocked,
+    'unreachable': t.failedToFetch,
+    'http': t.failedToFetch,
+    'not-video': t.validFileErr,
+    'too-large': t.fileSizeLimit
+  };
+
+  const validateFile = (file: File): string | null => {
     if (!file.type.startsWith('video/')) {
-      setError(t.validFileErr);
-      return;
+      return t.validFileErr;
+    }
+    if (file.size > MAX_VIDEO_BYTES) {
+      return t.fileSizeLimit;
     }
-    // Limit file size to 2GB
-    if (file.size > 2 * 1024 * 1024 * 1024) {
-      setError(t.fileSizeLimit);
+    return null;
+  };
+
+  const toVideoFile = (file: File): VideoFile => ({
+    file,
+    url: URL.createObjectURL(file),
+    name: file.name,
+    type: file.type,
+    size: file.size
+  });
+
+  const handleFile = (file: File) => {
+    const validationError = validateFile(file);
+    if (validationError) {
+      setError(validationError);
       return;
     }
 
     setError(null);
-    const objectUrl = URL.createObjectURL(file);
-    onVideoSelected({
-      file,
-      url: objectUrl,
-      name: file.name,
-      type: file.type,
-      size: file.size
-    });
+    onVideoSelected(toVideoFile(file));
+  };
+
+  const handleFiles = (fileList: FileList) => {
+    const files = Array.from(fileList);
+    if (files.length <= 1 || !onVideosSelected) {
+      if (files[0]) handleFile(files[0]);
+      return;
+    }
+
+    // Keep the valid files and report the first problem, if any
+    const valid = files.filter(f => !validateFile(f));
+    const firstError = files.map(validateFile).find(Boolean) ?? null;
+    setError(firstError);
+
+    if (valid.length === 1) {
+      onVideoSelected(toVideoFile(valid[0]));
+    } else if (valid.length > 1) {
+      onVideosSelected(valid.map(toVideoFile));
+    }
   };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
@@ -49,9 +93,9 @@ export const VideoInput: React.FC<VideoInputProps> = ({ onVideoSelected, disable
     if (disabled) return;
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+      handleFiles(e.dataTransfer.files);
     }
-  }, [disabled, language]);
+  }, [disabled, language, onVideosSelected]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -67,23 +111,51 @@ export const VideoInput: React.FC<VideoInputProps> = ({ onVideoSelected, disable
     e.preventDefault();
     if (!urlInput) return;
 
-    setIsFetchingUrl(true);
     setError(null);
 
-    try {
-      if (urlInput.includes('youtube.com') || urlInput.includes('youtu.be')) {
-        throw new Error(t.youtubeErr);
-      }
+    const reference = onVideoLinked ? linkVideoUrl(urlInput) : null;
+    if (reference) {
+      const id = youTubeVideoId(urlInput);
+      onVideoLinked!({
+        file: null,
+        url: null,
+        name: id ? `YouTube ${id}` : new URL(urlInput).hostname,
+        type: reference.mimeType,
+        size: 0
+      }, reference);
+      return;
+    }
+    // YouTube pages cannot be downloaded as a video file
+    if (isYouTubeUrl(urlInput)) {
+      setError(t.youtubeErr);
+      return;
+    }
 
-      const file = await urlToFile(urlInput, 'video-from-url.mp4');
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+    setIsFetchingUrl(true);
+    try {
+      const file = await fetchRemoteVideo(urlInput, setDownload, controller.signal);
       handleFile(file);
     } catch (err: any) {
-      setError(err.message || t.failedToFetch);
+      if (err?.name === 'AbortError') return;
+      console.warn("Fetching video from URL failed:", err);
+      if (err instanceof RemoteVideoError) {
+        setError(err.status ? `${remoteErrors[err.code]} (HTTP ${err.status})` : remoteErrors[err.code]);
+      } else {
+        setError(t.failedToFetch);
+      }
     } finally {
+      if (downloadAbortRef.current === controller) downloadAbortRef.current = null;
       setIsFetchingUrl(false);
+      setDownload(null);
     }
   };
 
+  const cancelDownload = () => {
+    downloadAbortRef.current?.abort();
+  };
+
   return (
     <div className="w-full max-w-xl mx-auto">
       {/* Tabs */}
@@ -112,6 +184,18 @@ export const VideoInput: React.FC<VideoInputProps> = ({ onVideoSelected, disable
           <Link className="w-3.5 h-3.5 mr-2" />
           {t.linkBtn}
         </button>
+        <button
+          onClick={() => setMode(InputMode.RECORD)}
+          disabled={disabled}
+          className={`flex items-center px-5 py-2 rounded-lg transition-all text-xs font-medium tracking-wide ${
+            mode === InputMode.RECORD
+              ? 'bg-white/10 text-white border border-white/10'
+              : 'text-slate-400 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          <Video className="w-3.5 h-3.5 mr-2" />
+          {t.recordBtn}
+        </button>
       </div>
 
       {/* Upload Area - Compact */}
@@ -132,8 +216,12 @@ export const VideoInput: React.FC<VideoInputProps> = ({ onVideoSelected, disable
           <input
             type="file"
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
-            onChange={(e) => e.target.files && handleFile(e.target.files[0])}
+            onChange={(e) => {
+              if (e.target.files) handleFiles(e.target.files);
+              e.target.value = '';
+            }}
             disabled={disabled}
+            multiple={!!onVideosSelected}
             accept="video/*"
           />
           <div className="flex flex-col items-center justify-center pointer-events-none relative z-0">
@@ -146,7 +234,7 @@ export const VideoInput: React.FC<VideoInputProps> = ({ onVideoSelected, disable
             <h3 className="text-lg font-semibold text-white mb-1">
               {t.dragDropTitle}
             </h3>
-            <p className="text-slate-400 text-xs mb-4">{t.dragDropSub}</p>
+            <p className="text-slate-400 text-xs mb-4">{onVideosSelected ? t.dragDropSubMulti : t.dragDropSub}</p>
           </div>
         </div>
       )}
@@ -182,10 +270,33 @@ export const VideoInput: React.FC<VideoInputProps> = ({ onVideoSelected, disable
                 </>
               )}
             </button>
+            {download && (
+              <div className="space-y-1.5">
+                <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+                  <div
+                    className={`h-full bg-brand-400 transition-all ${download.total ? '' : 'w-1/3 animate-pulse'}`}
+                    style={download.total ? { width: `${Math.min(100, (download.loaded / download.total) * 100)}%` } : undefined}
+                  />
+                </div>
+                <div className="flex items-center justify-between text-[10px] text-slate-400">
+                  <span>
+                    {t.downloadingVideo} {formatBytes(download.loaded)}{download.total ? ` / ${formatBytes(download.total)}` : ''}
+                  </span>
+                  <button type="button" onClick={cancelDownload} className="hover:text-white transition-colors">
+                    {t.cancelBtn}
+                  </button>
+                </div>
+              </div>
+            )}
           </form>
         </div>
       )}
 
+      {/* Recording */}
+      {mode === InputMode.RECORD && (
+        <VideoRecorder onRecorded={handleFile} disabled={disabled} language={language} />
+      )}
+
       {/* Error Message - Compact */}
       {error && (
         <div className="mt-6 p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-200 backdrop-blur-md animate-in slide-in-from-bottom-2 fade-in">
@@ -0,0 +1,268 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Language, RecordingSource } from '../types';
+import { Monitor, Camera, Mic, MicOff, Circle, Square, Scissors, RotateCcw, Loader2 } from 'lucide-react';
+import { getTranslation } from '../services/translations';
+import { formatTimestamp } from '../services/utils';
+import {
+  CaptureStream,
+  RecordingHandle,
+  isRecordingSupported,
+  isScreenCaptureSupported,
+  openCaptureStream,
+  startRecording,
+  trimVideo,
+  recordingFileName
+} from '../services/recorder';
+import { RangeSelector } from './RangeSelector';
+
+interface VideoRecorderProps {
+  onRecorded: (file: File) => void;
+  disabled: boolean;
+  language: Language;
+}
+
+// Choices for the longest recording, in minutes
+const MAX_DURATIONS = [1, 2, 5, 10];
+const DEFAULT_MAX_MINUTES = 5;
+
+type RecorderPhase = 'setup' | 'recording' | 'review' | 'trimming';
+
+interface Recording {
+  blob: Blob;
+  url: string;
+  /** Measured while recording; recorded WebM files often report no duration */
+  duration: number;
+}
+
+export const VideoRecorder: React.FC<VideoRecorderProps> = ({ onRecorded, disabled, language }) => {
+  const [phase, setPhase] = useState<RecorderPhase>('setup');
+  const [source, setSource] = useState<RecordingSource>(isScreenCaptureSupported() ? 'screen' : 'camera');
+  const [microphone, setMicrophone] = useState(true);
+  const [maxMinutes, setMaxMinutes] = useState(DEFAULT_MAX_MINUTES);
+  const [elapsed, setElapsed] = useState(0);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const [trimProgress, setTrimProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const captureRef = useRef<CaptureStream | null>(null);
+  const handleRef = useRef<RecordingHandle | null>(null);
+  const startedAtRef = useRef(0);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const reviewRef = useRef<HTMLVideoElement>(null);
+
+  const t = getTranslation(language);
+
+  const releaseCapture = () => {
+    captureRef.current?.release();
+    captureRef.current = null;
+  };
+
+  // Stop devices and free the recording when the recorder goes away
+  useEffect(() => () => {
+    handleRef.current?.stop();
+    releaseCapture();
+  }, []);
+
+  useEffect(() => {
+    if (!recording) return;
+    return () => URL.revokeObjectURL(recording.url);
+  }, [recording]);
+
+  const stop = async () => {
+    const handle = handleRef.current;
+    if (!handle) return;
+    handleRef.current = null;
+    const duration = (Date.now() - startedAtRef.current) / 1000;
+    const blob = await handle.stop();
+    releaseCapture();
+    if (blob.size === 0) {
+      setPhase('setup');
+      setError(t.recordingFailed);
+      return;
+    }
+    setRecording({ blob, url: URL.createObjectURL(blob), duration });
+    setRange({ start: 0, end: duration });
+    setPhase('review');
+  };
+
+  // Timer; ends the recording at the maximum length
+  useEffect(() => {
+    if (phase !== 'recording') return;
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(seconds);
+      if (seconds >= maxMinutes * 60) stop();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [phase, maxMinutes]);
+
+  const start = async () => {
+    setError(null);
+    try {
+      const capture = await openCaptureStream(source, microphone);
+      captureRef.current = capture;
+      // Ending the share from the browser's own controls ends the recording
+      capture.stream.getVideoTracks()[0]?.addEventListener('ended', () => stop());
+      handleRef.current = startRecording(capture.stream);
+      startedAtRef.current = Date.now();
+      setElapsed(0);
+      setRecording(null);
+      setPhase('recording');
+    } catch (err: any) {
+      releaseCapture();
+      console.warn("Could not start recording:", err);
+      setError(err?.name === 'NotAllowedError' ? t.recordingDenied : `${t.recordingFailed} ${err?.message || ''}`);
+    }
+  };
+
+  // The preview element only exists while recording, so attach the stream once it renders
+  useEffect(() => {
+    if (phase === 'recording' && previewRef.current && captureRef.current) {
+      previewRef.current.srcObject = captureRef.current.stream;
+    }
+  }, [phase]);
+
+  const handleRangeChange = (startSeconds: number, endSeconds: number) => {
+    if (reviewRef.current && startSeconds !== range.start) {
+      reviewRef.current.currentTime = startSeconds;
+    }
+    setRange({ start: startSeconds, end: endSeconds });
+  };
+
+  const handleUseClip = async () => {
+    if (!recording) return;
+    const isTrimmed = range.start > 0.1 || range.end < recording.duration - 0.1;
+    let blob = recording.blob;
+    if (isTrimmed) {
+      setPhase('trimming');
+      setTrimProgress(0);
+      try {
+        blob = await trimVideo(recording.blob, range.start, range.end, setTrimProgress);
+      } catch (err: any) {
+        console.warn("Trimming failed:", err);
+        setError(`${t.recordingFailed} ${err?.message || ''}`);
+        setPhase('review');
+        return;
+      }
+    }
+    onRecorded(new File([blob], recordingFileName(blob.type), { type: blob.type }));
+  };
+
+  const discard = () => {
+    setRecording(null);
+    setError(null);
+    setPhase('setup');
+  };
+
+  if (!isRecordingSupported()) {
+    return (
+      <div className="glass-panel rounded-2xl p-6 text-center text-xs text-slate-400">{t.recordingUnsupported}</div>
+    );
+  }
+
+  const chipClass = (active: boolean) => `flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border transition-all disabled:opacity-40 ${
+    active ? 'bg-white/10 text-white border-white/20' : 'text-slate-400 border-white/5 hover:text-white hover:bg-white/5'
+  }`;
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 animate-in fade-in zoom-in-95 duration-300 space-y-4">
+      {phase === 'setup' && (
+        <>
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            <button onClick={() => setSource('screen')} disabled={disabled || !isScreenCaptureSupported()} className={chipClass(source === 'screen')}>
+              <Monitor className="w-3.5 h-3.5" />
+              {t.recordScreen}
+            </button>
+            <button onClick={() => setSource('camera')} disabled={disabled} className={chipClass(source === 'camera')}>
+              <Camera className="w-3.5 h-3.5" />
+              {t.recordCamera}
+            </button>
+            <button onClick={() => setMicrophone(on => !on)} disabled={disabled} className={chipClass(microphone)} aria-pressed={microphone}>
+              {microphone ? <Mic className="w-3.5 h-3.5" /> : <MicOff className="w-3.5 h-3.5" />}
+              {t.recordMicrophone}
+            </button>
+            <select
+              value={maxMinutes}
+              onChange={(e) => setMaxMinutes(Number(e.target.value))}
+              disabled={disabled}
+              aria-label={t.recordMaxLength}
+              title={t.recordMaxLength}
+              className="bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-brand-500/50"
+            >
+              {MAX_DURATIONS.map(m => <option key={m} value={m}>{formatTimestamp(m * 60)}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={start}
+            disabled={disabled}
+            className="w-full bg-white text-black hover:bg-brand-50 disabled:opacity-50 py-2.5 rounded-xl text-sm font-semibold transition-all flex items-center justify-center gap-2"
+          >
+            <Circle className="w-3 h-3 fill-red-500 text-red-500" />
+            {t.startRecording}
+          </button>
+        </>
+      )}
+
+      {phase === 'recording' && (
+        <>
+          <video ref={previewRef} autoPlay muted playsInline className="w-full max-h-64 rounded-xl bg-black object-contain" />
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-2 text-xs font-mono text-slate-300">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+              {formatTimestamp(elapsed)} / {formatTimestamp(maxMinutes * 60)}
+            </span>
+            <button
+              onClick={stop}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-red-500/20 text-red-200 hover:bg-red-500/30 border border-red-500/30 text-xs font-semibold transition-colors"
+            >
+              <Square className="w-3 h-3 fill-current" />
+              {t.stopRecording}
+            </button>
+          </div>
+        </>
+      )}
+
+      {(phase === 'review' || phase === 'trimming') && recording && (
+        <>
+          <video ref={reviewRef} src={recording.url} controls playsInline className="w-full max-h-64 rounded-xl bg-black object-contain" />
+          <RangeSelector
+            duration={recording.duration}
+            start={range.start}
+            end={range.end}
+            onChange={handleRangeChange}
+            disabled={phase === 'trimming'}
+            startLabel={t.rangeStart}
+            endLabel={t.rangeEnd}
+          />
+          {phase === 'trimming' ? (
+            <div className="flex items-center justify-center gap-2 text-xs text-slate-400 py-2.5">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              {t.trimmingClip} {Math.round(trimProgress * 100)}%
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={discard}
+                className="flex items-center justify-center gap-1.5 px-4 py-2.5 rounded-xl text-xs font-semibold text-slate-300 bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                {t.recordAgain}
+              </button>
+              <button
+                onClick={handleUseClip}
+                disabled={disabled}
+                className="flex-1 bg-white text-black hover:bg-brand-50 disabled:opacity-50 py-2.5 rounded-xl text-sm font-semibold transition-all flex items-center justify-center gap-2"
+              >
+                <Scissors className="w-3.5 h-3.5" />
+                {t.useClip}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-300 text-center">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import type { Plugin } from 'vite';
+import { RemoteVideoErrorCode, VIDEO_PROXY_HEADER, VIDEO_PROXY_PATH } from '../types';
+
+/**
+ * Dev and preview server middleware that downloads remote videos on behalf of
+ * the app, for hosts that do not allow cross-origin requests. The body is
+ * streamed through as it arrives; nothing is stored on disk.
+ *
+ * It only runs with `vite` and `vite preview`. Static deployments have no
+ * proxy, and the app then reports such links as blocked.
+ */
+
+export interface VideoProxyOptions {
+  /** Largest video passed through, in bytes */
+  maxBytes?: number;
+  /** Time allowed for the remote host to start answering */
+  timeoutMs?: number;
+}
+
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Redirects followed before giving up; each hop is checked like the first URL
+const MAX_REDIRECTS = 5;
+
+const GENERIC_TYPES = ['application/octet-stream', 'binary/octet-stream', ''];
+const VIDEO_EXTENSION = /\.(mp4|m4v|mov|webm|mkv|avi|mpe?g|3gp|wmv|flv)$/i;
+
+const isPrivateIPv4 = (address: string): boolean => {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127) || a >= 224;
+};
+
+// IPv4 written inside IPv6 (::ffff:a.b.c.d, ::ffff:7f00:1, ::a.b.c.d), or null
+const embeddedIPv4 = (address: string): string | null => {
+  const match = address.match(/^::(?:ffff:(?:0:)?)?(.+)$/);
+  if (!match) return null;
+  if (isIP(match[1]) === 4) return match[1];
+  const hex = match[1].match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hex) return null;
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+};
+
+/**
+ * True for loopback, private, link-local, shared (CGNAT) and unspecified
+ * addresses, including IPv4 ones mapped into IPv6.
+ */
+const isPrivateAddress = (address: string): boolean => {
+  const host = address.replace(/^\[|\]$/g, '').toLowerCase();
+  if (isIP(host) === 4) return isPrivateIPv4(host);
+  if (isIP(host) !== 6) return true;
+  const v4 = embeddedIPv4(host);
+  if (v4) return isPrivateIPv4(v4);
+  return host === '::1' || host === '::' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+};
+
+// Loopback, private and link-local hosts are refused so the proxy cannot be
+// used to reach the developer's own network. Names are resolved and every
+// address they resolve to is checked, so a public name pointing at a private
+// address is refused too. fetch resolves the name again, so a DNS server
+// answering differently the second time is not caught; this is a dev server.
+const isPrivateHost = async (hostname: string): Promise<boolean> => {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) return true;
+  if (isIP(host)) return isPrivateAddress(host);
+  // A name that does not resolve throws, and is reported as unreachable
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  return addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address));
+};
+
+const isAllowedTarget = async (url: URL): Promise<boolean> =>
+  (url.protocol === 'http:' || url.protocol === 'https:') && !(await isPrivateHost(url.hostname));
+
+/**
+ * Fetches `target`, following redirects by hand so every hop is checked
+ * against private addresses. Returns null if a hop is refused.
+ */
+const fetchPublic = async (target: URL, signal: AbortSignal): Promise<{ response: Response; url: URL } | null> => {
+  let url = target;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!(await isAllowedTarget(url))) return null;
+    const response = await fetch(url, { signal, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return { response, url };
+    await response.body?.cancel();
+    url = new URL(location, url);
+  }
+  throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+};
+
+const isVideoResponse = (contentType: string | null, url: URL): boolean => {
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  return type.startsWith('video/') || (GENERIC_TYPES.includes(type) && VIDEO_EXTENSION.test(url.pathname));
+};
+
+const sendError = (res: ServerResponse, httpStatus: number, code: RemoteVideoErrorCode, message: string, status?: number) => {
+  res.statusCode = httpStatus;
+  res.setHeader(VIDEO_PROXY_HEADER, '1');
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ code, message, status }));
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse, maxBytes: number, timeoutMs: number) => {
+  if (req.method !== 'GET') {
+    res.statusCode = 405;
+    res.setHeader(VIDEO_PROXY_HEADER, '1');
+    res.end();
+    return;
+  }
+
+  let target: URL;
+  try {
+    target = new URL(new URL(req.url ?? '', 'http://proxy').searchParams.get('url') ?? '');
+  } catch {
+    return sendError(res, 400, 'invalid-url', 'Enter a complete http or https link.');
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return sendError(res, 400, 'invalid-url', 'Only public http and https links can be fetched.');
+  }
+
+  // Stop the download when the app cancels or the connection drops
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  let upstream: Response;
+  let finalUrl: URL;
+  try {
+    const result = await fetchPublic(target, controller.signal);
+    if (!result) {
+      return sendError(res, 400, 'invalid-url', 'Only public http and https links can be fetched.');
+    }
+    upstream = result.response;
+    finalUrl = result.url;
+  } catch (err: any) {
+    if (res.writableEnded || res.destroyed) return;
+    return sendError(res, 502, 'unreachable', `Could not reach ${target.hostname}: ${err?.message ?? err}`);
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!upstream.ok) {
+    return sendError(res, 502, 'http', `The server answered with status ${upstream.status}.`, upstream.status);
+  }
+  const contentType = upstream.headers.get('content-type');
+  if (!isVideoResponse(contentType, finalUrl)) {
+    return sendError(res, 415, 'not-video', `The link does not point to a video (${contentType || 'unknown type'}).`);
+  }
+  const length = Number(upstream.headers.get('content-length'));
+  if (Number.isFinite(length) && length > maxBytes) {
+    return sendError(res, 413, 'too-large', 'The video is larger than the size limit.');
+  }
+
+  res.statusCode = 200;
+  res.setHeader(VIDEO_PROXY_HEADER, '1');
+  res.setHeader('Content-Type', contentType || 'application/octet-stream');
+  if (Number.isFinite(length) && length > 0) res.setHeader('Content-Length', String(length));
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+  let sent = 0;
+  const reader = upstream.body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      sent += value.byteLength;
+      if (sent > maxBytes) {
+        // Headers are already out; cutting the connection is the only signal left
+        controller.abort();
+        res.destroy(new Error('Video exceeds the size limit'));
+        return;
+      }
+      // Respect backpressure so large videos are not buffered in memory
+      if (!res.write(value)) {
+        await new Promise<void>(resolve => {
+          res.once('drain', () => resolve());
+          // A closed connection never drains; the aborted read below ends the loop
+          res.once('close', () => resolve());
+        });
+      }
+    }
+    res.end();
+  } catch (err) {
+    if (!res.destroyed) res.destroy(err as Error);
+  }
+};
+
+/**
+ * Vite plugin serving the proxy at VIDEO_PROXY_PATH.
+ */
+export const videoProxy = (options: VideoProxyOptions = {}): Plugin => {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const middleware = (req: IncomingMessage, res: ServerResponse) => {
+    handleRequest(req, res, maxBytes, timeoutMs).catch(err => {
+      console.error('[video-proxy]', err);
+      if (!res.headersSent) sendError(res, 500, 'unreachable', 'The video proxy failed.');
+      else res.destroy();
+    });
+  };
+
+  return {
+    name: 'video-proxy',
+    configureServer(server) {
+      server.middlewares.use(VIDEO_PROXY_PATH, middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(VIDEO_PROXY_PATH, middleware);
+    }
+  };
+};
@@ -0,0 +1,233 @@
+import {
+  AICapability,
+  AIProviderId,
+  AnalysisOptions,
+  Chapter,
+  ChatSessionOptions,
+  ComparisonSource,
+  Language,
+  LiveConnection,
+  LiveSessionOptions,
+  ModelChoice,
+  ProviderSettings,
+  SegmentAnalysis,
+  Transcript,
+  UploadProgress,
+  VideoAIProvider,
+  VideoAnalysis,
+  VideoChatSession,
+  VideoReference
+} from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { DEFAULT_ANALYSIS_OPTIONS } from './templates';
+import { DEFAULT_LANGUAGE } from './languages';
+
+/**
+ * Routes each capability to the provider and model chosen in settings.
+ * The app calls these functions instead of a provider directly.
+ */
+
+const SETTINGS_KEY = 'ai_provider_settings';
+
+const PROVIDERS: Record<AIProviderId, VideoAIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+export const AI_CAPABILITIES: AICapability[] = ['analysis', 'chat', 'speech', 'live'];
+
+export const listProviders = (): VideoAIProvider[] => Object.values(PROVIDERS);
+
+export const getProvider = (id: AIProviderId): VideoAIProvider => PROVIDERS[id] ?? geminiProvider;
+
+const defaultChoice = (provider: VideoAIProvider, capability: AICapability): ModelChoice => ({
+  provider: provider.id,
+  model: provider.models[capability][0]
+});
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  analysis: defaultChoice(geminiProvider, 'analysis'),
+  chat: defaultChoice(geminiProvider, 'chat'),
+  speech: defaultChoice(geminiProvider, 'speech'),
+  live: defaultChoice(geminiProvider, 'live')
+};
+
+/**
+ * Drops unknown providers and models (e.g. saved by an older version).
+ */
+const sanitizeSettings = (raw: Partial<Record<AICapability, Partial<ModelChoice>>>): ProviderSettings => {
+  const settings = { ...DEFAULT_PROVIDER_SETTINGS };
+  for (const capability of AI_CAPABILITIES) {
+    const choice = raw[capability];
+    const provider = choice?.provider && PROVIDERS[choice.provider];
+    if (!provider) continue;
+    settings[capability] = provider.models[capability].includes(choice.model ?? '')
+      ? { provider: provider.id, model: choice.model! }
+      : defaultChoice(provider, capability);
+  }
+  return settings;
+};
+
+let currentSettings: ProviderSettings | null = null;
+
+export const getProviderSettings = (): ProviderSettings => {
+  if (!currentSettings) {
+    try {
+      currentSettings = sanitizeSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}'));
+    } catch {
+      currentSettings = DEFAULT_PROVIDER_SETTINGS;
+    }
+  }
+  return currentSettings;
+};
+
+export const setProviderSettings = (settings: ProviderSettings) => {
+  currentSettings = sanitizeSettings(settings);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(currentSettings));
+};
+
+/**
+ * True if any capability is routed to a provider that still needs setup.
+ */
+export const needsConfiguration = (settings: ProviderSettings = getProviderSettings()): boolean =>
+  AI_CAPABILITIES.some(c => !getProvider(settings[c].provider).isConfigured());
+
+const resolve = (capability: AICapability) => {
+  const choice = getProviderSettings()[capability];
+  return { provider: getProvider(choice.provider), model: choice.model };
+};
+
+/** Provider a reference belongs to; references without one predate the provider layer */
+const ownerOf = (video: VideoReference): AIProviderId => video.provider ?? 'gemini';
+
+/**
+ * Returns the reference if the given provider can read it, otherwise null so
+ * the caller falls back to text context.
+ */
+const usableBy = (provider: VideoAIProvider, video: VideoReference | null) =>
+  video && ownerOf(video) === provider.id ? video : null;
+
+/**
+ * Reference for a link the analysis provider reads by URL (e.g. YouTube), or
+ * null if the video has to be downloaded and uploaded.
+ */
+export const linkVideoUrl = (url: string): VideoReference | null => resolve('analysis').provider.linkVideo(url);
+
+/**
+ * True if the provider selected for `capability` can read this upload.
+ */
+export const isReferenceUsable = (video: VideoReference, capability: AICapability): boolean =>
+  !!usableBy(resolve(capability).provider, video);
+
+/* ---------- Capabilities ---------- */
+
+/**
+ * Uploads with the analysis provider, since analysis is the first consumer.
+ */
+export const uploadVideoFile = (
+  file: File,
+  onProgress?: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<VideoReference> => resolve('analysis').provider.uploadVideo(file, onProgress, signal);
+
+/**
+ * False if the upload expired or belongs to a provider that is no longer selected for analysis.
+ */
+export const isVideoReferenceAvailable = async (video: VideoReference): Promise<boolean> => {
+  const { provider } = resolve('analysis');
+  return ownerOf(video) === provider.id && provider.isVideoAvailable(video);
+};
+
+export const analyzeVideo = (
+  video: VideoReference,
+  language: Language = DEFAULT_LANGUAGE,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
+): Promise<{ text: string; analysis: VideoAnalysis | null; model: string }> => {
+  const { provider, model } = resolve('analysis');
+  return provider.analyzeVideo(video, language, model, options);
+};
+
+export const expandSummary = (
+  video: VideoReference | null,
+  previousText: string,
+  language: Language = DEFAULT_LANGUAGE,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
+): Promise<{ text: string; analysis: VideoAnalysis | null; model: string }> => {
+  const { provider, model } = resolve('analysis');
+  return provider.expandSummary(usableBy(provider, video), previousText, language, model, options);
+};
+
+export const mergeAnalyses = (
+  segments: SegmentAnalysis[],
+  language: Language = DEFAULT_LANGUAGE,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
+): Promise<{ text: string; analysis: VideoAnalysis | null; model: string }> => {
+  const { provider, model } = resolve('analysis');
+  return provider.mergeAnalyses(segments, language, model, options);
+};
+
+// Chapters and transcripts need the video itself, so another provider's upload is refused
+const requireUsable = (provider: VideoAIProvider, video: VideoReference): VideoReference => {
+  const usable = usableBy(provider, video);
+  if (!usable) throw new Error(`This upload cannot be read by ${provider.label}. Analyze the video again first.`);
+  return usable;
+};
+
+export const analyzeChapters = async (video: VideoReference, language: Language = DEFAULT_LANGUAGE): Promise<Chapter[]> => {
+  const { provider, model } = resolve('analysis');
+  return provider.analyzeChapters(requireUsable(provider, video), language, model);
+};
+
+export const transcribeVideo = async (video: VideoReference): Promise<Transcript> => {
+  const { provider, model } = resolve('analysis');
+  return provider.transcribeVideo(requireUsable(provider, video), model);
+};
+
+export const translateLines = (lines: string[], target: Language): Promise<{ lines: string[]; model: string }> => {
+  const { provider, model } = resolve('analysis');
+  return provider.translateLines(lines, target, model);
+};
+
+export const translateTexts = (texts: string[], target: Language): Promise<{ texts: string[]; model: string }> => {
+  const { provider, model } = resolve('analysis');
+  return provider.translateTexts(texts, target, model);
+};
+
+export const compareVideos = (sources: ComparisonSource[], language: Language = DEFAULT_LANGUAGE): Promise<{ text: string; model: string }> => {
+  const { provider, model } = resolve('analysis');
+  return provider.compareVideos(
+    sources.map(s => ({ ...s, reference: usableBy(provider, s.reference) })),
+    language,
+    model
+  );
+};
+
+export const createChatSession = (
+  video: VideoReference | null,
+  language: Language = DEFAULT_LANGUAGE,
+  options: ChatSessionOptions = {}
+): Promise<VideoChatSession> => {
+  const { provider, model } = resolve('chat');
+  // A video held by another provider falls back to `contextText`
+  return provider.createChat(usableBy(provider, video), language, model, options);
+};
+
+export const createComparisonChatSession = (sources: ComparisonSource[], language: Language = DEFAULT_LANGUAGE): Promise<VideoChatSession> => {
+  const { provider, model } = resolve('chat');
+  return provider.createComparisonChat(
+    sources.map(s => ({ ...s, reference: usableBy(provider, s.reference) })),
+    language,
+    model
+  );
+};
+
+export const synthesizeSpeech = (text: string, voiceName: string): Promise<AudioBuffer> => {
+  const { provider, model } = resolve('speech');
+  return provider.synthesizeSpeech(text, voiceName, model);
+};
+
+export const connectLiveSession = (options: LiveSessionOptions): LiveConnection => {
+  const { provider, model } = resolve('live');
+  return provider.connectLive({ ...options, video: usableBy(provider, options.video) }, model);
+};
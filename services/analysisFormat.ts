@@ -0,0 +1,40 @@
+import { Language, VideoAnalysis } from '../types';
+import { getTranslation } from './translations';
+import { formatTimestamp } from './utils';
+
+/**
+ * Renders a structured analysis as markdown, using the same section layout the
+ * text-only prompt produces. Headers are translated to the given language.
+ */
+export const analysisToMarkdown = (analysis: VideoAnalysis, language: Language): string => {
+  const t = getTranslation(language);
+  const sections: string[] = [];
+
+  sections.push(`### 🎯 ${t.execSummary}\n${analysis.summary}`);
+
+  if (analysis.highlights.length) {
+    sections.push(`### 🔑 ${t.keyHighlights}\n${analysis.highlights.map(h => `* ${h}`).join('\n')}`);
+  }
+
+  if (analysis.takeaway) {
+    sections.push(`### 💡 ${t.takeaway}\n${analysis.takeaway}`);
+  }
+
+  if (analysis.topics.length) {
+    sections.push(`### 🏷️ ${t.topics}\n${analysis.topics.join(', ')}`);
+  }
+
+  if (analysis.people.length) {
+    sections.push(`### 👥 ${t.people}\n${analysis.people.map(p => `* **${p.name}**${p.description ? ` – ${p.description}` : ''}`).join('\n')}`);
+  }
+
+  if (analysis.objects.length) {
+    sections.push(`### 📦 ${t.objects}\n${analysis.objects.map(o => `* **${o.name}**${o.description ? ` – ${o.description}` : ''}`).join('\n')}`);
+  }
+
+  if (analysis.chapters.length) {
+    sections.push(`### 🎬 ${t.chapters}\n${analysis.chapters.map(c => `* [${formatTimestamp(c.start)}] **${c.title}** – ${c.description}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+};
@@ -0,0 +1,145 @@
+import { BatchJob, BatchResult, VideoFile } from '../types';
+
+/**
+ * Processes one job. Implementations report intermediate state through
+ * `update` and must stop promptly when `signal` is aborted.
+ */
+export type BatchWorker = (
+  job: BatchJob,
+  signal: AbortSignal,
+  update: (changes: Partial<Pick<BatchJob, 'status' | 'progress' | 'reference'>>) => void
+) => Promise<BatchResult>;
+
+type Listener = (jobs: BatchJob[]) => void;
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+/**
+ * Job queue for analyzing several videos with a concurrency limit.
+ * Jobs can be retried or cancelled individually; listeners receive a new
+ * array on every change so it can be stored directly in React state.
+ */
+export class AnalysisQueue {
+  private jobs: BatchJob[] = [];
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<Listener>();
+  private worker: BatchWorker;
+  private concurrency: number;
+  private nextId = 0;
+
+  constructor(worker: BatchWorker, concurrency: number = DEFAULT_BATCH_CONCURRENCY) {
+    this.worker = worker;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  public subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.jobs);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public getJobs(): BatchJob[] {
+    return this.jobs;
+  }
+
+  public getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  public setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, concurrency);
+    this.pump();
+  }
+
+  public add(videos: VideoFile[]) {
+    const added: BatchJob[] = videos.map(video => ({
+      id: `job-${Date.now()}-${this.nextId++}`,
+      video,
+      status: 'queued',
+      progress: 0,
+      error: null,
+      reference: null,
+      result: null
+    }));
+    this.jobs = [...this.jobs, ...added];
+    this.emit();
+    this.pump();
+  }
+
+  public retry(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+    this.update(id, { status: 'queued', error: null, progress: 0 });
+    this.pump();
+  }
+
+  public cancel(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || job.status === 'done' || job.status === 'failed' || job.status === 'cancelled') return;
+    this.controllers.get(id)?.abort();
+    this.controllers.delete(id);
+    this.update(id, { status: 'cancelled' });
+    this.pump();
+  }
+
+  public remove(id: string) {
+    this.cancel(id);
+    this.jobs = this.jobs.filter(j => j.id !== id);
+    this.emit();
+  }
+
+  /**
+   * Cancels everything in flight and empties the queue.
+   */
+  public clear() {
+    this.controllers.forEach(c => c.abort());
+    this.controllers.clear();
+    this.jobs = [];
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l(this.jobs));
+  }
+
+  private update(id: string, changes: Partial<BatchJob>) {
+    this.jobs = this.jobs.map(j => (j.id === id ? { ...j, ...changes } : j));
+    this.emit();
+  }
+
+  private pump() {
+    while (this.controllers.size < this.concurrency) {
+      const next = this.jobs.find(j => j.status === 'queued');
+      if (!next) return;
+      this.run(next);
+    }
+  }
+
+  private async run(job: BatchJob) {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.update(job.id, { status: 'uploading' });
+
+    try {
+      const result = await this.worker(job, controller.signal, (changes) => {
+        if (!controller.signal.aborted) this.update(job.id, changes);
+      });
+      if (!controller.signal.aborted) {
+        this.update(job.id, { status: 'done', progress: 1, result });
+      }
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        console.error(`Batch job failed: ${job.video.name}`, error);
+        this.update(job.id, { status: 'failed', error: error?.message || 'Analysis failed' });
+      }
+    } finally {
+      // A cancelled job may already have been replaced by a retry
+      if (this.controllers.get(job.id) === controller) {
+        this.controllers.delete(job.id);
+      }
+      this.pump();
+    }
+  }
+}
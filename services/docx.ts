@@ -0,0 +1,203 @@
+import { MdBlock, MdInline } from './markdown';
+
+/**
+ * Minimal DOCX writer. Builds a WordprocessingML document from the markdown
+ * AST and packs it into an uncompressed zip, so no extra dependency is needed.
+ */
+
+/* ---------- Zip (store only) ---------- */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const createZip = (files: { name: string; content: string }[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // Method: store
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014B50, true); // Central directory signature
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true); // End of central directory
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...chunks, ...central, new Uint8Array(end.buffer)] as BlobPart[], {
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  });
+};
+
+/* ---------- WordprocessingML ---------- */
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Strip control characters that are invalid in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+const run = (text: string, style: RunStyle = {}): string => {
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="EEEEEE"/>' : '',
+    style.link ? '<w:color w:val="2563EB"/><w:u w:val="single"/>' : ''
+  ].join('');
+  const rPr = props ? `<w:rPr>${props}</w:rPr>` : '';
+  return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const inlineRuns = (nodes: MdInline[], style: RunStyle = {}): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return run(node.value, style);
+      case 'strong':
+        return inlineRuns(node.children, { ...style, bold: true });
+      case 'em':
+        return inlineRuns(node.children, { ...style, italic: true });
+      case 'code':
+        return run(node.value, { ...style, code: true });
+      case 'link':
+        return inlineRuns(node.children, { ...style, link: true });
+      case 'timestamp':
+        return run(`[${node.label}]`, { ...style, bold: true });
+      case 'break':
+        return '<w:r><w:br/></w:r>';
+    }
+  }).join('');
+
+const paragraph = (content: string, pPr = ''): string =>
+  `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${content}</w:p>`;
+
+const blocksToXml = (blocks: MdBlock[], indent = 0): string =>
+  blocks.map(block => {
+    const ind = indent ? `<w:ind w:left="${indent}"/>` : '';
+    switch (block.type) {
+      case 'heading':
+        return paragraph(inlineRuns(block.children), `<w:pStyle w:val="Heading${Math.min(block.level, 3)}"/>${ind}`);
+      case 'paragraph':
+        return paragraph(inlineRuns(block.children), ind);
+      case 'list':
+        return block.items.map((item, i) => {
+          const marker = block.ordered ? `${block.start + i}.` : '•';
+          const [first, ...rest] = item;
+          const firstRuns = first && (first.type === 'paragraph' || first.type === 'heading')
+            ? inlineRuns(first.children)
+            : '';
+          const remaining = first && !firstRuns ? item : rest;
+          return paragraph(
+            run(`${marker}\t`) + firstRuns,
+            `<w:tabs><w:tab w:val="left" w:pos="${indent + 360}"/></w:tabs><w:ind w:left="${indent + 360}" w:hanging="360"/>`
+          ) + blocksToXml(remaining, indent + 360);
+        }).join('');
+      case 'code':
+        return block.value.split('\n').map(line => paragraph(run(line, { code: true }), `<w:spacing w:after="0"/>${ind}`)).join('');
+      case 'blockquote':
+        return blocksToXml(block.children, indent + 360);
+      case 'hr':
+        return paragraph('', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CCCCCC"/></w:pBdr>');
+      case 'table': {
+        const cell = (content: MdInline[], header: boolean) =>
+          `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(inlineRuns(content, { bold: header }))}</w:tc>`;
+        const rows = [
+          `<w:tr>${block.header.map(c => cell(c, true)).join('')}</w:tr>`,
+          ...block.rows.map(r => `<w:tr>${r.map(c => cell(c, false)).join('')}</w:tr>`)
+        ].join('');
+        const border = 'w:val="single" w:sz="4" w:space="0" w:color="BBBBBB"';
+        return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders><w:top ${border}/><w:left ${border}/><w:bottom ${border}/><w:right ${border}/><w:insideH ${border}/><w:insideV ${border}/></w:tblBorders></w:tblPr>${rows}</w:tbl>${paragraph('')}`;
+      }
+    }
+  }).join('');
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+const headingStyle = (level: number, size: number) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Nyala" w:eastAsia="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style><w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/><w:rPr><w:b/><w:sz w:val="40"/></w:rPr></w:style>${headingStyle(1, 32)}${headingStyle(2, 28)}${headingStyle(3, 24)}</w:styles>`;
+
+/**
+ * Builds a .docx file from a title and markdown blocks.
+ */
+export const buildDocx = (title: string, blocks: MdBlock[]): Blob => {
+  const body = paragraph(run(title), '<w:pStyle w:val="Title"/>') + blocksToXml(blocks);
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', content: CONTENT_TYPES },
+    { name: '_rels/.rels', content: ROOT_RELS },
+    { name: 'word/document.xml', content: document },
+    { name: 'word/_rels/document.xml.rels', content: DOCUMENT_RELS },
+    { name: 'word/styles.xml', content: STYLES }
+  ]);
+};
@@ -0,0 +1,401 @@
+import { ChatMessage, Chapter, ComparisonState, ExportFormat, ExportMetadata, Language, SubtitleCue, SubtitleTrack, Transcript, VideoAnalysis } from '../types';
+import { getTranslation } from './translations';
+import { getLanguagePack } from './languages';
+import { downloadBlob, downloadTextFile, formatBytes, formatTimestamp } from './utils';
+import { parseMarkdown, MdBlock, MdInline } from './markdown';
+import { buildDocx } from './docx';
+
+/**
+ * Everything needed to export one analysis.
+ */
+export interface ExportDocument {
+  meta: ExportMetadata;
+  /** Markdown text of the analysis */
+  text: string;
+  analysis: VideoAnalysis | null;
+  chapters: Chapter[];
+  /** Chat transcript, or null to leave it out */
+  chat: ChatMessage[] | null;
+}
+
+/* ---------- Subtitles ---------- */
+
+const formatCueTime = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// WebVTT cue text is markup: '&' and '<' start entities and tags, and escaping
+// '>' also keeps '-->' out of the cue
+const escapeVttText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// A voice annotation ends at '>' and must stay on one line
+const escapeVttVoice = (voice: string) => escapeVttText(voice.replace(/\s+/g, ' ').trim());
+
+/**
+ * Serializes cues as SRT or WebVTT. Text is taken literally; in WebVTT it is
+ * escaped so characters like '<' and '&' show as written.
+ */
+export const buildSubtitles = (cues: SubtitleCue[], format: 'srt' | 'vtt'): string => {
+  const separator = format === 'srt' ? ',' : '.';
+  const body = cues.map((cue, i) => {
+    const timing = `${formatCueTime(cue.start, separator)} --> ${formatCueTime(cue.end, separator)}`;
+    // Blank lines would terminate a cue early
+    const text = cue.text.replace(/\n{2,}/g, '\n').trim();
+    if (format === 'srt') {
+      return `${i + 1}\n${timing}\n${cue.voice ? `${cue.voice}: ` : ''}${text}`;
+    }
+    const voice = cue.voice ? `<v ${escapeVttVoice(cue.voice)}>` : '';
+    return `${timing}\n${voice}${escapeVttText(text)}`;
+  }).join('\n\n');
+  return format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+};
+
+export const chaptersToCues = (chapters: Chapter[]): SubtitleCue[] =>
+  chapters.map(c => ({
+    start: c.start,
+    end: c.end,
+    text: c.description ? `${c.title}\n${c.description}` : c.title
+  }));
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt';
+
+const speakerName = (transcript: Transcript, id: string) => transcript.speakers[id] || id;
+
+/**
+ * One cue per utterance. WebVTT marks the speaker with a voice tag, which
+ * players can style; SRT has no equivalent, so the name is prefixed.
+ */
+export const transcriptToCues = (transcript: Transcript): SubtitleCue[] =>
+  transcript.segments.map(s => ({
+    start: s.start,
+    end: s.end,
+    text: s.text,
+    voice: speakerName(transcript, s.speaker)
+  }));
+
+export const transcriptToText = (transcript: Transcript): string =>
+  transcript.segments
+    .map(s => `[${formatTimestamp(s.start)}] ${speakerName(transcript, s.speaker)}: ${s.text}`)
+    .join('\n') + '\n';
+
+/* ---------- Markdown ---------- */
+
+/**
+ * Builds the full report as markdown: metadata, analysis and optional chat.
+ * HTML and DOCX exports are rendered from this same text.
+ */
+export const buildMarkdownReport = (doc: ExportDocument): string => {
+  const t = getTranslation(doc.meta.language);
+  const lines: string[] = [
+    `# ${doc.meta.videoName}`,
+    '',
+    `* **${t.metaVideo}:** ${doc.meta.videoName}`,
+    `* **${t.metaSize}:** ${formatBytes(doc.meta.videoSize)}`,
+    `* **${t.metaDuration}:** ${doc.meta.duration !== null ? formatTimestamp(doc.meta.duration) : '—'}`,
+    `* **${t.metaAnalyzed}:** ${new Date(doc.meta.analyzedAt).toLocaleString()}`,
+    `* **${t.metaModel}:** \`${doc.meta.model}\``,
+    ...(doc.meta.template ? [`* **${t.metaTemplate}:** ${doc.meta.template}`] : []),
+    ...(doc.meta.depth ? [`* **${t.metaDepth}:** ${doc.meta.depth}`] : []),
+    ...(doc.meta.clip ? [`* **${t.metaRange}:** ${formatTimestamp(doc.meta.clip.start)} – ${formatTimestamp(doc.meta.clip.end)}`] : []),
+    '',
+    '---',
+    '',
+    doc.text.trim()
+  ];
+
+  // The structured analysis already lists chapters; text-only fallbacks may not
+  if (!doc.analysis && doc.chapters.length) {
+    lines.push('', `### 🎬 ${t.chapters}`);
+    doc.chapters.forEach(c => lines.push(`* [${formatTimestamp(c.start)}] **${c.title}** – ${c.description}`));
+  }
+
+  if (doc.chat && doc.chat.length) {
+    lines.push('', '---', '', `## 💬 ${t.chatTranscript}`);
+    doc.chat.forEach(msg => {
+      const time = new Date(msg.timestamp).toLocaleTimeString();
+      lines.push('', `**${msg.role === 'user' ? t.you : t.assistant}** · ${time}`, '', msg.text.trim());
+    });
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+/* ---------- HTML ---------- */
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const inlineToHtml = (nodes: MdInline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.value);
+      case 'strong':
+        return `<strong>${inlineToHtml(node.children)}</strong>`;
+      case 'em':
+        return `<em>${inlineToHtml(node.children)}</em>`;
+      case 'code':
+        return `<code>${escapeHtml(node.value)}</code>`;
+      case 'link':
+        return `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children)}</a>`;
+      case 'timestamp':
+        return `<span class="ts">${escapeHtml(node.label)}</span>`;
+      case 'break':
+        return '<br>';
+    }
+  }).join('');
+
+const blocksToHtml = (blocks: MdBlock[]): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${inlineToHtml(block.children)}</h${block.level}>`;
+      case 'paragraph':
+        return `<p>${inlineToHtml(block.children)}</p>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+        return `<${tag}${start}>${block.items.map(item => `<li>${blocksToHtml(item)}</li>`).join('')}</${tag}>`;
+      }
+      case 'code':
+        return `<pre><code>${escapeHtml(block.value)}</code></pre>`;
+      case 'blockquote':
+        return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+      case 'hr':
+        return '<hr>';
+      case 'table': {
+        const align = (i: number) => block.align[i] ? ` style="text-align:${block.align[i]}"` : '';
+        const head = block.header.map((c, i) => `<th${align(i)}>${inlineToHtml(c)}</th>`).join('');
+        const rows = block.rows.map(r => `<tr>${r.map((c, i) => `<td${align(i)}>${inlineToHtml(c)}</td>`).join('')}</tr>`).join('');
+        return `<table><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+      }
+    }
+  }).join('\n');
+
+/**
+ * Wraps markdown in a standalone, print-ready HTML page.
+ */
+const markdownToHtmlPage = (markdown: string, title: string, lang: string): string => {
+  const body = blocksToHtml(parseMarkdown(markdown));
+  return `<!DOCTYPE html>
+<html lang="${lang}" dir="${getLanguagePack(lang).dir}">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: 'Inter', 'Noto Sans Ethiopic', system-ui, sans-serif; color: #0f172a; max-width: 780px; margin: 40px auto; padding: 0 24px; line-height: 1.6; font-size: 14px; }
+  h1 { font-size: 24px; margin-bottom: 8px; }
+  h1 ~ h1 { break-before: page; margin-top: 48px; }
+  h2 { font-size: 18px; margin-top: 32px; }
+  h3 { font-size: 15px; margin-top: 24px; }
+  hr { border: 0; border-top: 1px solid #e2e8f0; margin: 24px 0; }
+  code { font-family: ui-monospace, Consolas, monospace; background: #f1f5f9; padding: 1px 4px; border-radius: 4px; font-size: 0.9em; }
+  pre { background: #f1f5f9; padding: 12px; border-radius: 8px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  table { border-collapse: collapse; width: 100%; margin: 12px 0; }
+  th, td { border: 1px solid #e2e8f0; padding: 6px 8px; text-align: left; vertical-align: top; }
+  blockquote { border-left: 3px solid #3b82f6; margin: 12px 0; padding-left: 12px; color: #475569; }
+  a { color: #2563eb; }
+  .ts { font-family: ui-monospace, Consolas, monospace; color: #1d4ed8; font-weight: 600; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+/**
+ * Builds a standalone, print-ready HTML report.
+ */
+export const buildHtmlReport = (doc: ExportDocument): string =>
+  markdownToHtmlPage(buildMarkdownReport(doc), doc.meta.videoName, doc.meta.language);
+
+/* ---------- JSON ---------- */
+
+const toJsonObject = (doc: ExportDocument) => ({
+  metadata: {
+    ...doc.meta,
+    analyzedAt: new Date(doc.meta.analyzedAt).toISOString()
+  },
+  analysis: doc.analysis,
+  chapters: doc.chapters,
+  text: doc.text,
+  chat: doc.chat
+    ? doc.chat.map(m => ({ role: m.role, text: m.text, timestamp: new Date(m.timestamp).toISOString() }))
+    : undefined
+});
+
+export const buildJsonExport = (doc: ExportDocument): string =>
+  JSON.stringify(toJsonObject(doc), null, 2);
+
+/* ---------- Entry point ---------- */
+
+const baseFileName = (name: string, suffix = 'summary') => {
+  const stem = name.replace(/\.[^.]+$/, '').replace(/[^\p{L}\p{N}_-]+/gu, '-').replace(/^-+|-+$/g, '');
+  return `${stem || 'video'}-${suffix}`;
+};
+
+/**
+ * Opens the HTML report in a new window and triggers the print dialog,
+ * from which the user can save as PDF. Returns false if pop-ups are blocked.
+ */
+const printHtml = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  // Give the new window a moment to lay out before printing
+  setTimeout(() => win.print(), 250);
+  return true;
+};
+
+/**
+ * Exports the analysis in the requested format.
+ */
+export const exportAnalysis = (doc: ExportDocument, format: ExportFormat) => {
+  const base = baseFileName(doc.meta.videoName);
+
+  switch (format) {
+    case 'markdown':
+      downloadTextFile(buildMarkdownReport(doc), `${base}.md`, 'text/markdown');
+      break;
+    case 'json':
+      downloadTextFile(buildJsonExport(doc), `${base}.json`, 'application/json');
+      break;
+    case 'html':
+      downloadTextFile(buildHtmlReport(doc), `${base}.html`, 'text/html');
+      break;
+    case 'pdf': {
+      const html = buildHtmlReport(doc);
+      if (!printHtml(html)) {
+        console.warn("Pop-up blocked, downloading the printable HTML report instead");
+        downloadTextFile(html, `${base}.html`, 'text/html');
+      }
+      break;
+    }
+    case 'docx': {
+      // Drop the leading "# name" heading; the DOCX writer adds its own title
+      const blocks = parseMarkdown(buildMarkdownReport(doc)).slice(1);
+      downloadBlob(buildDocx(doc.meta.videoName, blocks), `${base}.docx`);
+      break;
+    }
+    case 'srt':
+    case 'vtt':
+      downloadTextFile(buildSubtitles(chaptersToCues(doc.chapters), format), `${base}.${format}`, format === 'vtt' ? 'text/vtt' : 'application/x-subrip');
+      break;
+  }
+};
+
+/* ---------- Batch ---------- */
+
+/**
+ * Combines several reports into one markdown document with a table of contents.
+ */
+export const buildBatchMarkdown = (docs: ExportDocument[], title: string): string => {
+  const toc = docs.map((doc, i) => `${i + 1}. ${doc.meta.videoName}`).join('\n');
+  const reports = docs.map(buildMarkdownReport).join('\n');
+  return `# ${title}\n\n${toc}\n\n${reports}`;
+};
+
+/**
+ * Writes a combined markdown document in one of the document formats.
+ * Returns false for formats that do not apply (JSON and subtitles).
+ */
+const exportMarkdownDocument = (markdown: string, title: string, base: string, lang: Language, format: ExportFormat): boolean => {
+  switch (format) {
+    case 'markdown':
+      downloadTextFile(markdown, `${base}.md`, 'text/markdown');
+      return true;
+    case 'html':
+      downloadTextFile(markdownToHtmlPage(markdown, title, lang), `${base}.html`, 'text/html');
+      return true;
+    case 'pdf': {
+      const html = markdownToHtmlPage(markdown, title, lang);
+      if (!printHtml(html)) {
+        console.warn("Pop-up blocked, downloading the printable HTML report instead");
+        downloadTextFile(html, `${base}.html`, 'text/html');
+      }
+      return true;
+    }
+    case 'docx':
+      // The DOCX writer adds the title itself
+      downloadBlob(buildDocx(title, parseMarkdown(markdown).slice(1)), `${base}.docx`);
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Exports the results of a batch run as a single combined file.
+ * Subtitle formats are per-video and are not supported here.
+ */
+export const exportBatch = (docs: ExportDocument[], format: ExportFormat, title: string) => {
+  if (!docs.length) return;
+  const base = `batch-summary-${new Date().toISOString().slice(0, 10)}`;
+
+  if (format === 'json') {
+    downloadTextFile(JSON.stringify(docs.map(toJsonObject), null, 2), `${base}.json`, 'application/json');
+  } else if (!exportMarkdownDocument(buildBatchMarkdown(docs, title), title, base, docs[0].meta.language, format)) {
+    console.warn(`Batch export does not support ${format}`);
+  }
+};
+
+/* ---------- Comparison ---------- */
+
+/**
+ * Prefixes the comparison report with the list of compared videos so the
+ * citation labels can be resolved outside the app.
+ */
+export const buildComparisonMarkdown = (comparison: ComparisonState, title: string): string => {
+  const legend = comparison.sources.map(s => `* **[${s.label}]** ${s.title}`).join('\n');
+  return `# ${title}\n\n${legend}\n\n${comparison.report ?? ''}\n`;
+};
+
+export const exportComparison = (comparison: ComparisonState, format: ExportFormat, title: string, lang: Language) => {
+  if (!comparison.report) return;
+  const base = `comparison-${new Date().toISOString().slice(0, 10)}`;
+
+  if (format === 'json') {
+    const json = {
+      sources: comparison.sources.map(s => ({ label: s.label, title: s.title })),
+      model: comparison.model ?? null,
+      report: comparison.report
+    };
+    downloadTextFile(JSON.stringify(json, null, 2), `${base}.json`, 'application/json');
+  } else if (!exportMarkdownDocument(buildComparisonMarkdown(comparison, title), title, base, lang, format)) {
+    console.warn(`Comparison export does not support ${format}`);
+  }
+};
+
+/* ---------- Transcript ---------- */
+
+export const exportTranscript = (transcript: Transcript, videoName: string, format: TranscriptFormat) => {
+  const base = baseFileName(videoName, 'transcript');
+  if (format === 'txt') {
+    downloadTextFile(transcriptToText(transcript), `${base}.txt`, 'text/plain');
+    return;
+  }
+  downloadTextFile(buildSubtitles(transcriptToCues(transcript), format), `${base}.${format}`, format === 'vtt' ? 'text/vtt' : 'application/x-subrip');
+};
+
+export const exportSubtitles = (track: SubtitleTrack, videoName: string, format: 'srt' | 'vtt') => {
+  const base = baseFileName(videoName, `subtitles-${track.language}`);
+  downloadTextFile(buildSubtitles(track.cues, format), `${base}.${format}`, format === 'vtt' ? 'text/vtt' : 'application/x-subrip');
+};
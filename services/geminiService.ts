@@ -1,5 +1,40 @@
-import { GoogleGenAI, Chat, Modality, GenerateContentResponse, LiveServerMessage } from "@google/genai";
-import { Language } from "../types";
+import { GoogleGenAI, Chat, Modality, GenerateContentResponse, LiveServerMessage, LiveCallbacks, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, GenerateContentConfig, ContentListUnion, FileState, createPartFromUri, Type, Content, Part } from "@google/genai";
+import {
+  Language,
+  VideoReference,
+  UploadProgress,
+  Chapter,
+  VideoAnalysis,
+  VideoEntity,
+  ChatMessage,
+  ComparisonSource,
+  AICapability,
+  ChatSessionOptions,
+  AnalysisOptions,
+  SummaryDepth,
+  Transcript,
+  TranscriptSegment,
+  LiveConnection,
+  VideoAIProvider,
+  VideoClip,
+  SegmentAnalysis,
+  LiveFrame,
+  PlayerPosition,
+  LiveSessionOptions,
+  LiveTranscript,
+  LiveState,
+  LiveError,
+  LiveActivity,
+  LiveLevels
+} from "../types";
+import { formatTimestamp, parseTimestamp } from "./utils";
+import { analysisToMarkdown } from "./analysisFormat";
+import { DEFAULT_ANALYSIS_OPTIONS, renderTemplatePrompt } from "./templates";
+import { DEPTH_PROFILES } from "./summaryDepth";
+import { DEFAULT_LANGUAGE, getLanguagePack, languageName, outputInstruction } from "./languages";
+import { getTranslation } from "./translations";
+import { youTubeVideoId } from "./remoteVideo";
+import { LIVE_INPUT_RATE, LiveAudioDevices, MicCapture, PcmPlayer, createBrowserAudio } from "./liveAudio";
 
 // API Key Management
 let runtimeKey: string | null = null;
@@ -8,117 +43,883 @@ export const setRuntimeApiKey = (key: string) => {
   runtimeKey = key;
 };
 
+// Prioritize the runtime key (set via UI), fallback to build-time env var
+const getApiKey = () => runtimeKey || process.env.API_KEY || null;
+
 const getAiClient = () => {
-  // Prioritize the runtime key (set via UI), fallback to build-time env var
-  const key = runtimeKey || process.env.API_KEY;
+  const key = getApiKey();
   if (!key) return null;
   return new GoogleGenAI({ apiKey: key });
 };
 
-// Type definition for the Live Session since it's not exported directly from the SDK
-type GenAILiveSession = Awaited<ReturnType<GoogleGenAI['live']['connect']>>;
+/**
+ * Models offered per capability; the first one is the default.
+ */
+export const GEMINI_MODELS: Record<AICapability, string[]> = {
+  analysis: ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash'],
+  chat: ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash'],
+  speech: ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'],
+  live: ['gemini-2.5-flash-native-audio-preview-09-2025']
+};
+
+// Retried with when the selected model fails, and used for small helper calls
+const FALLBACK_MODEL = 'gemini-2.5-flash';
+
+// Transcripts of long videos are large; this is the output limit of the 2.5 models
+const TRANSCRIPT_MAX_TOKENS = 65536;
 
 /**
- * Analyzes a video using the Gemini 3 Pro model.
+ * FILES API UPLOAD
  */
-export const analyzeVideo = async (base64Data: string, mimeType: string, language: Language = 'en'): Promise<string> => {
+const UPLOAD_ENDPOINT = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // Must be a multiple of 256KB
+const UPLOAD_MAX_RETRIES = 3;
+const PROCESSING_POLL_MS = 3000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Upload cancelled', 'AbortError'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Upload cancelled', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+interface ChunkResponse {
+  status: string | null;
+  sizeReceived: number | null;
+  body: string;
+}
+
+/**
+ * Sends a single command to a resumable upload session. XHR is used instead of
+ * fetch so that per-chunk upload progress can be reported.
+ */
+const sendUploadCommand = (
+  uploadUrl: string,
+  command: string,
+  offset: number,
+  chunk: Blob | null,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<ChunkResponse> => new Promise((resolve, reject) => {
+  const xhr = new XMLHttpRequest();
+  xhr.open('POST', uploadUrl);
+  xhr.setRequestHeader('X-Goog-Upload-Command', command);
+  if (chunk) xhr.setRequestHeader('X-Goog-Upload-Offset', String(offset));
+
+  const onAbort = () => xhr.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  xhr.upload.onprogress = (e) => onChunkProgress(e.loaded);
+  xhr.onload = () => {
+    signal?.removeEventListener('abort', onAbort);
+    if (xhr.status < 200 || xhr.status >= 300) {
+      reject(new Error(`Upload failed with status ${xhr.status}`));
+      return;
+    }
+    const received = xhr.getResponseHeader('x-goog-upload-size-received');
+    resolve({
+      status: xhr.getResponseHeader('x-goog-upload-status'),
+      sizeReceived: received ? Number(received) : null,
+      body: xhr.responseText
+    });
+  };
+  xhr.onerror = () => {
+    signal?.removeEventListener('abort', onAbort);
+    reject(new Error('Network error during upload'));
+  };
+  xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+  xhr.send(chunk);
+});
+
+/**
+ * Uploads a video to the Gemini Files API using the resumable protocol and
+ * waits until the service has finished processing it.
+ * Failed chunks are retried from the offset the server reports as received.
+ */
+export const uploadVideoFile = async (
+  file: File,
+  onProgress?: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<VideoReference> => {
+  const key = getApiKey();
   const ai = getAiClient();
-  if (!ai) {
+  if (!key || !ai) {
     throw new Error("API Key is missing. Please enter it in settings.");
   }
 
-  const modelId = 'gemini-3-pro-preview'; 
-  const finalMimeType = mimeType || 'video/mp4';
+  const mimeType = file.type || 'video/mp4';
+  const total = file.size;
+  onProgress?.({ phase: 'uploading', loaded: 0, total });
+
+  // 1. Open the resumable session
+  const startResponse = await fetch(UPLOAD_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'x-goog-api-key': key,
+      'Content-Type': 'application/json',
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(total),
+      'X-Goog-Upload-Header-Content-Type': mimeType
+    },
+    body: JSON.stringify({ file: { displayName: file.name } }),
+    signal
+  });
+  const uploadUrl = startResponse.headers.get('x-goog-upload-url');
+  if (!startResponse.ok || !uploadUrl) {
+    throw new Error(`Failed to start upload (status ${startResponse.status}).`);
+  }
+
+  // 2. Send the file in chunks
+  let offset = 0;
+  let finalBody: string | null = null;
+  let retries = 0;
+
+  while (finalBody === null) {
+    const end = Math.min(offset + UPLOAD_CHUNK_SIZE, total);
+    const isLast = end >= total;
+    const chunkStart = offset;
+
+    try {
+      const res = await sendUploadCommand(
+        uploadUrl,
+        isLast ? 'upload, finalize' : 'upload',
+        chunkStart,
+        file.slice(chunkStart, end),
+        (loaded) => onProgress?.({ phase: 'uploading', loaded: chunkStart + loaded, total }),
+        signal
+      );
+      retries = 0;
+      if (isLast) {
+        if (res.status !== 'final') throw new Error('Upload was not finalized by the server.');
+        finalBody = res.body;
+      } else {
+        offset = end;
+      }
+    } catch (err: any) {
+      if (err?.name === 'AbortError' || retries >= UPLOAD_MAX_RETRIES) throw err;
+      retries++;
+      console.warn(`Upload chunk failed, resuming (attempt ${retries})...`, err);
+      await sleep(1000 * 2 ** (retries - 1), signal);
+      // Ask the server how much it actually received and resume from there
+      const status = await sendUploadCommand(uploadUrl, 'query', 0, null, () => {}, signal);
+      if (status.status === 'final') {
+        finalBody = status.body;
+      } else if (status.sizeReceived !== null) {
+        offset = status.sizeReceived;
+      }
+    }
+  }
+
+  onProgress?.({ phase: 'uploading', loaded: total, total });
+
+  const uploaded = JSON.parse(finalBody).file as { name: string; uri: string; mimeType?: string; state?: string };
+
+  // 3. Wait for the Files API to finish processing the video
+  onProgress?.({ phase: 'processing', loaded: total, total });
+  let state = uploaded.state;
+  while (state !== FileState.ACTIVE) {
+    if (state === FileState.FAILED) {
+      throw new Error("The video could not be processed by the server.");
+    }
+    await sleep(PROCESSING_POLL_MS, signal);
+    const info = await ai.files.get({ name: uploaded.name, config: { abortSignal: signal } });
+    state = info.state;
+  }
+
+  return {
+    uri: uploaded.uri,
+    mimeType: uploaded.mimeType || mimeType,
+    name: uploaded.name,
+    provider: 'gemini'
+  };
+};
+
+/**
+ * YouTube videos are read by Gemini straight from their URL, so they need no
+ * upload. Other links have to be downloaded and uploaded.
+ */
+export const linkVideo = (url: string): VideoReference | null => {
+  const id = youTubeVideoId(url);
+  if (!id) return null;
+  return {
+    uri: `https://www.youtube.com/watch?v=${id}`,
+    mimeType: 'video/*',
+    name: `youtube/${id}`,
+    provider: 'gemini',
+    remote: true
+  };
+};
+
+/**
+ * The request part for a video. Linked videos are passed by URL alone; the
+ * API works out their format itself.
+ */
+const videoPart = (video: VideoReference, clip?: VideoClip): Part => ({
+  ...(video.remote ? { fileData: { fileUri: video.uri } } : createPartFromUri(video.uri, video.mimeType)),
+  // Offsets make the model read only that part, without cutting the file
+  ...(clip ? { videoMetadata: { startOffset: `${Math.floor(clip.start)}s`, endOffset: `${Math.ceil(clip.end)}s` } } : {})
+});
+
+/**
+ * Tells the model which part of the video it was given, so timestamps still
+ * refer to the full video.
+ */
+const clipInstruction = (clip?: VideoClip): string =>
+  clip
+    ? `\n\nOnly the part from ${formatTimestamp(clip.start)} to ${formatTimestamp(clip.end)} of the video is provided. Describe only that part, and give every timestamp as a position in the full video (the part starts at ${formatTimestamp(clip.start)}).`
+    : '';
+
+const chapterItemSchema = {
+  type: Type.OBJECT,
+  properties: {
+    start: { type: Type.STRING, description: "Start timestamp in mm:ss or h:mm:ss format" },
+    end: { type: Type.STRING, description: "End timestamp in mm:ss or h:mm:ss format" },
+    title: { type: Type.STRING },
+    description: { type: Type.STRING }
+  },
+  required: ['start', 'end', 'title', 'description'],
+  propertyOrdering: ['start', 'end', 'title', 'description']
+};
+
+const chaptersSchema = {
+  type: Type.ARRAY,
+  items: chapterItemSchema
+};
+
+const entitySchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      description: { type: Type.STRING }
+    },
+    required: ['name', 'description']
+  }
+};
+
+const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "A single, powerful sentence describing the video's core message" },
+    highlights: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Key points, as many as the instructions ask for" },
+    takeaway: { type: Type.STRING, description: "A brief concluding insight" },
+    topics: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Short topic keywords" },
+    people: { ...entitySchema, description: "People who appear or speak, with their role" },
+    objects: { ...entitySchema, description: "Notable objects, products, places or on-screen items" },
+    chapters: chaptersSchema
+  },
+  required: ['summary', 'highlights', 'takeaway', 'topics', 'people', 'objects', 'chapters'],
+  propertyOrdering: ['summary', 'highlights', 'takeaway', 'topics', 'people', 'objects', 'chapters']
+};
 
-  const langInstruction = language === 'am' 
-    ? "Provide the output strictly in Amharic language." 
-    : "Provide the output in English.";
+/**
+ * Converts raw chapter JSON returned by the model into validated, sorted chapters.
+ * Entries with unparseable timestamps are dropped.
+ */
+const normalizeChapters = (data: unknown): Chapter[] => {
+  if (!Array.isArray(data)) throw new Error("Chapter response is not a list");
 
-  const prompt = `Analyze this video content. ${langInstruction}`;
+  const chapters: Chapter[] = [];
+  for (const item of data) {
+    const start = typeof item?.start === 'string' ? parseTimestamp(item.start) : null;
+    const end = typeof item?.end === 'string' ? parseTimestamp(item.end) : null;
+    if (start === null || end === null || end < start) continue;
+    chapters.push({
+      start,
+      end,
+      title: String(item.title ?? '').trim(),
+      description: String(item.description ?? '').trim()
+    });
+  }
+  return chapters.sort((a, b) => a.start - b.start);
+};
+
+const toStringList = (data: unknown, field: string): string[] => {
+  if (!Array.isArray(data)) throw new Error(`Analysis field "${field}" is not a list`);
+  return data.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim());
+};
+
+const toEntityList = (data: unknown, field: string): VideoEntity[] => {
+  if (!Array.isArray(data)) throw new Error(`Analysis field "${field}" is not a list`);
+  return data
+    .filter(v => typeof v?.name === 'string' && v.name.trim() !== '')
+    .map(v => ({ name: v.name.trim(), description: String(v.description ?? '').trim() }));
+};
+
+/**
+ * Parses and validates the structured analysis JSON. Throws if required fields
+ * are missing or have the wrong shape so callers can fall back to text output.
+ */
+const parseVideoAnalysis = (raw: string): VideoAnalysis => {
+  const data = JSON.parse(raw);
+  if (!data || typeof data !== 'object') throw new Error("Analysis response is not an object");
+  if (typeof data.summary !== 'string' || !data.summary.trim()) throw new Error("Analysis is missing a summary");
+
+  return {
+    summary: data.summary.trim(),
+    highlights: toStringList(data.highlights, 'highlights'),
+    takeaway: typeof data.takeaway === 'string' ? data.takeaway.trim() : '',
+    topics: toStringList(data.topics ?? [], 'topics'),
+    people: toEntityList(data.people ?? [], 'people'),
+    objects: toEntityList(data.objects ?? [], 'objects'),
+    chapters: normalizeChapters(data.chapters ?? [])
+  };
+};
+
+/**
+ * Runs a request on the selected model and, if that fails, once more on
+ * FALLBACK_MODEL without thinking. `parse` turns the response text into the
+ * result; when it throws, the attempt counts as failed as well. `task` names
+ * the request in logs and in the error thrown when both attempts fail.
+ */
+const generateWithFallback = async <T = string | undefined>(
+  ai: GoogleGenAI,
+  modelId: string,
+  contents: ContentListUnion,
+  config: GenerateContentConfig,
+  task: string,
+  parse: (text: string | undefined, model: string) => T = (text) => text as T
+): Promise<{ result: T; model: string }> => {
+  try {
+    const response = await ai.models.generateContent({ model: modelId, contents, config });
+    return { result: parse(response.text, modelId), model: modelId };
+  } catch (error: any) {
+    if (config.abortSignal?.aborted) throw error;
+    console.warn(`${task} failed with ${modelId}, retrying with ${FALLBACK_MODEL}...`, error);
+  }
+
+  const { thinkingConfig, ...standardConfig } = config;
+  try {
+    const response = await ai.models.generateContent({ model: FALLBACK_MODEL, contents, config: standardConfig });
+    return { result: parse(response.text, FALLBACK_MODEL), model: FALLBACK_MODEL };
+  } catch (retryError: any) {
+    console.error(`${task} retry failed:`, retryError);
+    throw new Error(`${task} failed: ${retryError.message}`);
+  }
+};
+
+/**
+ * Produces a free-form markdown summary, in the format given by
+ * `templateInstruction` or the default one. Used for markdown templates and
+ * as the fallback when the structured analysis cannot be parsed.
+ */
+const analyzeVideoText = async (
+  ai: GoogleGenAI,
+  parts: Part[],
+  language: Language,
+  modelId: string,
+  depth: SummaryDepth,
+  templateInstruction?: string,
+  signal?: AbortSignal
+): Promise<{ text: string; model: string }> => {
+  const profile = DEPTH_PROFILES[depth];
+  const langInstruction = outputInstruction(language);
+
+  const contents = [{ parts: [...parts, { text: langInstruction }] }];
 
   // Common config
-  const systemInstruction = `You are an expert video analyst. 
-    Analyze the provided video content and generate a very clear, short, and optimized summary.
+  const systemInstruction = templateInstruction ?? `You are an expert video analyst. 
+    Analyze the provided video content and generate a clear and optimized summary, ${profile.length}.
     
-    Format your response strictly as follows (Translate headers if in Amharic):
+    Format your response strictly as follows (translate the headers into the output language):
 
     ### 🎯 Executive Summary
     [A single, powerful sentence describing the video's core message]
 
     ### 🔑 Key Highlights
-    * [Key point 1]
-    * [Key point 2]
-    * [Key point 3]
+    [A bulleted list of exactly ${profile.highlights} key points]
 
     ### 💡 Takeaway
     [A brief concluding insight]
     
+    ${profile.instruction}
     Keep the tone professional, clear, and objective. ${langInstruction}`;
 
+  const { result, model } = await generateWithFallback(ai, modelId, contents, {
+    temperature: 0.2,
+    thinkingConfig: { thinkingBudget: profile.thinkingBudget },
+    maxOutputTokens: profile.maxOutputTokens,
+    systemInstruction,
+    abortSignal: signal
+  }, 'Analysis');
+  if (result) return { text: result, model };
+  return { text: "No summary generated.", model: modelId };
+};
+
+/**
+ * Runs the selected template over `parts`. Structured templates return a
+ * parsed result; if the model does not return valid JSON, or the template is
+ * a markdown one, `analysis` is null.
+ */
+const runAnalysis = async (
+  parts: Part[],
+  language: Language,
+  modelId: string,
+  options: AnalysisOptions
+): Promise<{ text: string; analysis: VideoAnalysis | null; model: string }> => {
+  const ai = getAiClient();
+  if (!ai) {
+    throw new Error("API Key is missing. Please enter it in settings.");
+  }
+
+  const profile = DEPTH_PROFILES[options.depth];
+  const systemInstruction = renderTemplatePrompt(options.template, language, options.depth);
+
+  // Markdown templates describe their own output format
+  if (!options.template.structured) {
+    const result = await analyzeVideoText(ai, parts, language, modelId, options.depth, systemInstruction, options.signal);
+    return { ...result, analysis: null };
+  }
+
+  const contents = [{ parts }];
+
+  const { result: raw, model } = await generateWithFallback(ai, modelId, contents, {
+    temperature: 0.2,
+    thinkingConfig: { thinkingBudget: profile.thinkingBudget },
+    maxOutputTokens: profile.maxOutputTokens,
+    responseMimeType: 'application/json',
+    responseSchema: analysisSchema,
+    systemInstruction,
+    abortSignal: options.signal
+  }, 'Analysis');
+
+  if (raw) {
+    try {
+      const analysis = parseVideoAnalysis(raw);
+      return { text: analysisToMarkdown(analysis, language), analysis, model };
+    } catch (parseError) {
+      console.warn("Structured analysis was invalid, falling back to text output...", parseError);
+    }
+  }
+
+  const fallback = await analyzeVideoText(ai, parts, language, modelId, options.depth, undefined, options.signal);
+  return { ...fallback, analysis: null };
+};
+
+/**
+ * Analyzes a video with the selected Gemini model, template and depth.
+ */
+export const analyzeVideo = (
+  video: VideoReference,
+  language: Language = DEFAULT_LANGUAGE,
+  modelId: string = GEMINI_MODELS.analysis[0],
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
+): Promise<{ text: string; analysis: VideoAnalysis | null; model: string }> =>
+  runAnalysis(
+    [videoPart(video, options.clip), { text: `Analyze this video content.${clipInstruction(options.clip)}` }],
+    language,
+    modelId,
+    options
+  );
+
+/**
+ * Rewrites an earlier summary at a deeper level. The uploaded video is reused
+ * when still available, so expanding never needs a new upload; without it the
+ * model can only elaborate on what the earlier summary says.
+ */
+export const expandSummary = (
+  video: VideoReference | null,
+  previousText: string,
+  language: Language = DEFAULT_LANGUAGE,
+  modelId: string = GEMINI_MODELS.analysis[0],
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
+): Promise<{ text: string; analysis: VideoAnalysis | null; model: string }> => {
+  const request = video
+    ? "Expand the earlier summary below into a longer one. Keep it consistent with the earlier summary and add the missing detail from the video."
+    : "The video is no longer available. Expand the earlier summary below into a longer one, using only what it says. Do not invent events, names or numbers.";
+  const parts: Part[] = [
+    ...(video ? [videoPart(video, options.clip)] : []),
+    { text: `${request}${video ? clipInstruction(options.clip) : ''}\n\nEarlier summary:\n${previousText}` }
+  ];
+  return runAnalysis(parts, language, modelId, options);
+};
+
+/**
+ * Reduce step of a long video analysis: merges the analyses of its windows
+ * into one, from their text alone.
+ */
+export const mergeAnalyses = (
+  segments: SegmentAnalysis[],
+  language: Language = DEFAULT_LANGUAGE,
+  modelId: string = GEMINI_MODELS.analysis[0],
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
+): Promise<{ text: string; analysis: VideoAnalysis | null; model: string }> => {
+  const reports = segments
+    .map(s => `## Part ${formatTimestamp(s.clip.start)} - ${formatTimestamp(s.clip.end)}\n${s.text}`)
+    .join('\n\n');
+  const request = "The video was too long to analyze at once, so each part below was analyzed separately. Combine them into one coherent analysis of the whole video: remove repetition, connect events across parts and keep every timestamp as given. Gaps between parts were not analyzed; do not invent what happened in them.";
+  return runAnalysis([{ text: `${request}\n\n${reports}` }], language, modelId, { ...options, clip: undefined });
+};
+
+/**
+ * Breaks a video into timestamped chapters (scene-by-scene breakdown).
+ */
+export const analyzeChapters = async (
+  video: VideoReference,
+  language: Language = DEFAULT_LANGUAGE,
+  modelId: string = GEMINI_MODELS.analysis[0]
+): Promise<Chapter[]> => {
+  const ai = getAiClient();
+  if (!ai) {
+    throw new Error("API Key is missing. Please enter it in settings.");
+  }
+
+  const langInstruction = `Titles and descriptions: ${outputInstruction(language)}`;
+
+  const systemInstruction = `You are an expert video editor. 
+    Split the provided video into consecutive chapters, one per distinct scene or topic.
+    For each chapter give its start and end timestamp, a short title (max 8 words) and a one or two sentence description.
+    Chapters must cover the whole video in order and must not overlap. ${langInstruction}`;
+
+  const contents = [
+    {
+      parts: [
+        videoPart(video),
+        { text: "Create a timestamped chapter breakdown of this video." }
+      ]
+    }
+  ];
+
+  const { result } = await generateWithFallback(ai, modelId, contents, {
+    temperature: 0.2,
+    thinkingConfig: { thinkingBudget: 1024 },
+    responseMimeType: 'application/json',
+    responseSchema: chaptersSchema,
+    systemInstruction
+  }, 'Chapter analysis', (text) => text ? normalizeChapters(JSON.parse(text)) : []);
+  return result;
+};
+
+const transcriptSchema = {
+  type: Type.OBJECT,
+  properties: {
+    speakers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "Short id such as S1, S2" },
+          name: { type: Type.STRING, description: "Name if it is said or shown, otherwise a neutral label like Speaker 1" }
+        },
+        required: ['id', 'name']
+      }
+    },
+    utterances: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.STRING, description: "Start timestamp in mm:ss or h:mm:ss format" },
+          end: { type: Type.STRING, description: "End timestamp in mm:ss or h:mm:ss format" },
+          speaker: { type: Type.STRING, description: "Id of the speaker" },
+          text: { type: Type.STRING }
+        },
+        required: ['start', 'end', 'speaker', 'text'],
+        propertyOrdering: ['start', 'end', 'speaker', 'text']
+      }
+    }
+  },
+  required: ['speakers', 'utterances']
+};
+
+/**
+ * Validates the transcript JSON. Utterances with unparseable timestamps are
+ * dropped; speakers that were not declared are added under their id.
+ */
+const normalizeTranscript = (raw: string, model: string): Transcript => {
+  const data = JSON.parse(raw);
+  if (!data || !Array.isArray(data.utterances)) throw new Error("Transcript response has no utterances");
+
+  const speakers: Record<string, string> = {};
+  for (const item of Array.isArray(data.speakers) ? data.speakers : []) {
+    if (typeof item?.id === 'string' && item.id.trim()) {
+      speakers[item.id.trim()] = String(item.name ?? '').trim() || item.id.trim();
+    }
+  }
+
+  const segments: TranscriptSegment[] = [];
+  for (const item of data.utterances) {
+    const start = typeof item?.start === 'string' ? parseTimestamp(item.start) : null;
+    const end = typeof item?.end === 'string' ? parseTimestamp(item.end) : null;
+    const text = String(item?.text ?? '').trim();
+    if (start === null || end === null || !text) continue;
+    const speaker = String(item.speaker ?? '').trim() || 'S?';
+    if (!speakers[speaker]) speakers[speaker] = speaker;
+    segments.push({ start, end: Math.max(start, end), speaker, text });
+  }
+
+  return { segments: segments.sort((a, b) => a.start - b.start), speakers, model, createdAt: Date.now() };
+};
+
+/**
+ * Transcribes everything said in the video, verbatim and in the spoken
+ * language, with speaker labels.
+ */
+export const transcribeVideo = async (
+  video: VideoReference,
+  modelId: string = GEMINI_MODELS.analysis[0]
+): Promise<Transcript> => {
+  const ai = getAiClient();
+  if (!ai) {
+    throw new Error("API Key is missing. Please enter it in settings.");
+  }
+
+  const systemInstruction = `You are a professional transcriber.
+    Transcribe all speech in the provided video verbatim, in the language it is spoken. Do not translate or summarize.
+    Split the speech into utterances of at most two sentences and give each its start and end timestamp.
+    Identify the different speakers by voice and appearance and label every utterance with its speaker id.
+    Use a speaker's name only if it is said or shown in the video. If there is no speech, return no utterances.`;
+
+  const contents = [
+    {
+      parts: [
+        videoPart(video),
+        { text: "Transcribe this video with speaker labels." }
+      ]
+    }
+  ];
+
+  const { result } = await generateWithFallback(ai, modelId, contents, {
+    temperature: 0,
+    thinkingConfig: { thinkingBudget: 1024 },
+    maxOutputTokens: TRANSCRIPT_MAX_TOKENS,
+    responseMimeType: 'application/json',
+    responseSchema: transcriptSchema,
+    systemInstruction
+  }, 'Transcription', (text, model): Transcript => text
+    ? normalizeTranscript(text, model)
+    : { segments: [], speakers: {}, model, createdAt: Date.now() });
+  return result;
+};
+
+/**
+ * What is being translated: caption lines must stay short, documents (report
+ * sections, chat messages) must keep their markdown.
+ */
+type TranslationKind = 'captions' | 'documents';
+
+// Items per translation request; keeps each response well within the output limit
+const TRANSLATION_BATCH_SIZE: Record<TranslationKind, number> = { captions: 80, documents: 20 };
+
+const translationInstruction = (kind: TranslationKind, targetName: string) => kind === 'captions'
+  ? `You are a professional subtitle translator.
+    Translate each caption line in the given JSON array into ${targetName}. Keep lines that are already in ${targetName} unchanged.
+    Keep every line short enough to read at subtitle speed, and keep names, numbers and technical terms accurate.
+    Return a JSON array with exactly one translated line per input line, in the same order.`
+  : `You are a professional translator.
+    Translate each text in the given JSON array into ${targetName}. Keep texts that are already in ${targetName} unchanged.
+    Keep markdown formatting, line breaks, timestamps such as [MM:SS], bracketed citations, names and numbers exactly as they are.
+    Return a JSON array with exactly one translated text per input text, in the same order.`;
+
+const translateBatch = async (
+  ai: GoogleGenAI,
+  lines: string[],
+  target: Language,
+  modelId: string,
+  kind: TranslationKind
+): Promise<{ lines: string[]; model: string }> => {
+  const systemInstruction = translationInstruction(kind, languageName(target));
+  const contents = [{ parts: [{ text: JSON.stringify(lines) }] }];
+  const config = {
+    temperature: 0.2,
+    responseMimeType: 'application/json',
+    responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+    systemInstruction
+  };
+
+  const parse = (raw: string | undefined): string[] => {
+    const data = JSON.parse(raw || '[]');
+    if (!Array.isArray(data) || data.length !== lines.length) {
+      throw new Error(`Expected ${lines.length} translated lines`);
+    }
+    return data.map((line, i) => typeof line === 'string' && line.trim() ? line.trim() : lines[i]);
+  };
+
+  // A wrong line count counts as a failure, so the fallback model gets a try
+  const { result, model } = await generateWithFallback(
+    ai, modelId, contents, { ...config, thinkingConfig: { thinkingBudget: 512 } }, 'Translation', parse
+  );
+  return { lines: result, model };
+};
+
+/**
+ * Translates items one to one. Long lists are sent in batches so the item
+ * count of every response can be checked.
+ */
+const translateAll = async (
+  items: string[],
+  target: Language,
+  modelId: string,
+  kind: TranslationKind
+): Promise<{ lines: string[]; model: string }> => {
+  const ai = getAiClient();
+  if (!ai) {
+    throw new Error("API Key is missing. Please enter it in settings.");
+  }
+
+  const size = TRANSLATION_BATCH_SIZE[kind];
+  const translated: string[] = [];
+  let model = modelId;
+  for (let i = 0; i < items.length; i += size) {
+    const batch = await translateBatch(ai, items.slice(i, i + size), target, modelId, kind);
+    translated.push(...batch.lines);
+    model = batch.model;
+  }
+  return { lines: translated, model };
+};
+
+export const translateLines = (
+  lines: string[],
+  target: Language,
+  modelId: string = GEMINI_MODELS.analysis[0]
+): Promise<{ lines: string[]; model: string }> => translateAll(lines, target, modelId, 'captions');
+
+export const translateTexts = async (
+  texts: string[],
+  target: Language,
+  modelId: string = GEMINI_MODELS.analysis[0]
+): Promise<{ texts: string[]; model: string }> => {
+  const { lines, model } = await translateAll(texts, target, modelId, 'documents');
+  return { texts: lines, model };
+};
+
+// Rough budget for replayed chat turns; the video itself takes most of the context
+const CHAT_HISTORY_TOKEN_BUDGET = 24000;
+// Most recent turns always kept verbatim when older history is summarized
+const CHAT_HISTORY_KEEP_RECENT = 6;
+
+// ~4 characters per token is close enough for budgeting purposes
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Condenses older chat turns into a short paragraph so a long conversation
+ * can be resumed without exceeding the context window.
+ */
+const summarizeChatTurns = async (ai: GoogleGenAI, turns: ChatMessage[]): Promise<string | null> => {
+  const transcript = turns
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}`)
+    .join('\n');
   try {
-    // Attempt 1: With Thinking Mode
-    console.log("Starting analysis with Thinking Mode...");
     const response = await ai.models.generateContent({
-      model: modelId,
-      contents: [
-        {
-          parts: [
-            { inlineData: { mimeType: finalMimeType, data: base64Data } },
-            { text: prompt }
-          ]
-        }
-      ],
+      model: FALLBACK_MODEL,
+      contents: [{ parts: [{ text: transcript }] }],
       config: {
         temperature: 0.2,
-        thinkingConfig: { thinkingBudget: 1024 }, // Reduced budget to prevent timeouts on large contexts
-        systemInstruction: systemInstruction
+        systemInstruction: "Summarize this conversation about a video in a short paragraph. Keep every fact, question and conclusion that later turns may refer to. Write in the language of the conversation."
       }
     });
+    return response.text?.trim() || null;
+  } catch (error) {
+    console.warn("Chat history summarization failed, dropping older turns instead", error);
+    return null;
+  }
+};
 
-    if (response.text) return response.text;
-  } catch (error: any) {
-    console.warn("Thinking mode analysis failed, retrying with standard config...", error);
-    
-    // Attempt 2: Fallback without Thinking Mode (Standard)
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash', // Fallback to a faster model if Pro fails
-            contents: [
-              {
-                parts: [
-                  { inlineData: { mimeType: finalMimeType, data: base64Data } },
-                  { text: prompt }
-                ]
-              }
-            ],
-            config: {
-              temperature: 0.2,
-              systemInstruction: systemInstruction
-            }
-          });
-      
-          if (response.text) return response.text;
-    } catch (retryError: any) {
-        console.error("Retry failed:", retryError);
-        throw new Error(`Analysis failed: ${retryError.message}`);
+/**
+ * Turns a stored transcript into model history that fits the token budget.
+ * When it does not fit, older turns are summarized (or dropped if that fails)
+ * and the most recent turns are kept verbatim.
+ */
+const buildChatHistory = async (ai: GoogleGenAI, transcript: ChatMessage[]): Promise<Content[]> => {
+  // Only completed exchanges are replayed; the canned greeting is UI-only
+  const turns = transcript.filter(m => m.id !== 'init' && m.text.trim());
+
+  const total = turns.reduce((sum, m) => sum + estimateTokens(m.text), 0);
+  let kept = turns;
+  let summary: string | null = null;
+
+  if (total > CHAT_HISTORY_TOKEN_BUDGET) {
+    // Keep as many recent turns as fit in half the budget (at least a few)
+    let used = 0;
+    let cut = turns.length;
+    while (cut > 0) {
+      const cost = estimateTokens(turns[cut - 1].text);
+      if (turns.length - cut >= CHAT_HISTORY_KEEP_RECENT && used + cost > CHAT_HISTORY_TOKEN_BUDGET / 2) break;
+      used += cost;
+      cut--;
     }
+    kept = turns.slice(cut);
+    if (cut > 0) summary = await summarizeChatTurns(ai, turns.slice(0, cut));
   }
 
-  return "No summary generated.";
+  // History must alternate and start with a user turn; merge consecutive same-role turns
+  const history: Content[] = [];
+  if (summary) {
+    history.push(
+      { role: 'user', parts: [{ text: `Summary of our earlier conversation: ${summary}` }] },
+      { role: 'model', parts: [{ text: "Understood." }] }
+    );
+  }
+  for (const msg of kept) {
+    const last = history[history.length - 1];
+    if (!last && msg.role === 'model') continue;
+    if (last && last.role === msg.role) {
+      last.parts!.push({ text: msg.text });
+    } else {
+      history.push({ role: msg.role, parts: [{ text: msg.text }] });
+    }
+  }
+  // Chat history must end on a model turn before the next user message
+  if (history.length && history[history.length - 1].role === 'user') {
+    history.pop();
+  }
+  return history;
+};
+
+/**
+ * Checks whether a Files API upload can still be used (uploads expire after 48h).
+ */
+export const isVideoReferenceAvailable = async (video: VideoReference): Promise<boolean> => {
+  if (video.remote) return true;
+  const ai = getAiClient();
+  if (!ai) return false;
+  try {
+    const info = await ai.files.get({ name: video.name });
+    return info.state === FileState.ACTIVE;
+  } catch {
+    return false;
+  }
 };
 
 /**
  * Creates a chat session initialized with the video context.
+ * Pass a stored transcript to resume an earlier conversation. If the video
+ * is no longer available, `contextText` (the analysis) is used instead.
  */
-export const createChatSession = async (base64Data: string, mimeType: string, language: Language = 'en'): Promise<Chat> => {
+export const createChatSession = async (
+  video: VideoReference | null,
+  language: Language = DEFAULT_LANGUAGE,
+  options: ChatSessionOptions = {},
+  modelId: string = GEMINI_MODELS.chat[0]
+): Promise<Chat> => {
   const ai = getAiClient();
   if (!ai) throw new Error("API Key missing");
-
-  const modelId = 'gemini-3-pro-preview';
+  if (!video && !options.contextText) throw new Error("No video or analysis to chat about");
   
-  const langInstruction = language === 'am' 
-    ? "You must answer in Amharic language." 
-    : "Answer in English.";
+  const langInstruction = outputInstruction(language);
+
+  const contextTurn: Content = video
+    ? {
+        role: 'user',
+        parts: [
+            videoPart(video),
+            { text: "Here is the video I want to talk about." }
+        ]
+      }
+    : {
+        role: 'user',
+        parts: [{ text: `The video is no longer available, but here is your earlier analysis of it:\n\n${options.contextText}` }]
+      };
+
+  const history = options.transcript?.length ? await buildChatHistory(ai, options.transcript) : [];
 
   const chat = ai.chats.create({
     model: modelId,
@@ -127,21 +928,110 @@ export const createChatSession = async (base64Data: string, mimeType: string, la
         systemInstruction: `You are a helpful AI video assistant. You have watched the video provided by the user. Answer their questions about the video details, visuals, audio, and meaning accurately and concisely. Keep answers short and to the point. ${langInstruction}`
     },
     history: [
+      contextTurn,
       {
-        role: 'user',
-        parts: [
-            { inlineData: { mimeType: mimeType || 'video/mp4', data: base64Data } },
-            { text: "Here is the video I want to talk about." }
-        ]
+        role: 'model',
+        parts: [{ text: getTranslation(language).chatSeedReply }]
       },
+      ...history
+    ]
+  });
+
+  return chat;
+};
+
+/**
+ * Labels each video and attaches it, or its saved analysis when the upload
+ * has expired, so the model can tell the sources apart.
+ */
+const buildComparisonParts = (sources: ComparisonSource[]): Part[] =>
+  sources.flatMap((source): Part[] => source.reference
+    ? [
+        { text: `${source.label}: "${source.title}"` },
+        videoPart(source.reference)
+      ]
+    : [
+        { text: `${source.label}: "${source.title}" (the video is no longer available, here is your earlier analysis of it)\n\n${source.summaryText}` }
+      ]);
+
+const citationInstruction = (sources: ComparisonSource[]) => {
+  const labels = sources.map(s => s.label).join(', ');
+  return `The videos are labelled ${labels}. Always refer to them by these exact labels, even when answering in another language.
+    Cite the source of every statement about a video's content in square brackets, e.g. [${sources[0].label}] or [${sources.slice(0, 2).map(s => s.label).join(', ')}].`;
+};
+
+/**
+ * Generates a markdown report of where two or more videos agree and differ.
+ */
+export const compareVideos = async (
+  sources: ComparisonSource[],
+  language: Language = DEFAULT_LANGUAGE,
+  modelId: string = GEMINI_MODELS.analysis[0]
+): Promise<{ text: string; model: string }> => {
+  const ai = getAiClient();
+  if (!ai) {
+    throw new Error("API Key is missing. Please enter it in settings.");
+  }
+  if (sources.length < 2) throw new Error("Select at least two videos to compare");
+
+  const langInstruction = `${outputInstruction(language)} Translate the headers into the output language.`;
+
+  const systemInstruction = `You are an expert video analyst comparing several videos.
+    Format your response strictly as follows:
+
+    ### 🧭 Overview
+    [One or two sentences on what the videos have in common and how they differ overall]
+
+    ### ✅ Agreements
+    * [Point the videos share, with citations]
+
+    ### ⚖️ Differences
+    * [Point where the videos differ, stating what each video does, with citations]
+
+    ### 📋 At a Glance
+    [A markdown table with one column per video and rows for topic, tone, key content and conclusion]
+
+    Be concise and objective. ${citationInstruction(sources)} ${langInstruction}`;
+
+  const contents = [{ parts: [...buildComparisonParts(sources), { text: "Compare these videos." }] }];
+
+  const { result, model } = await generateWithFallback(ai, modelId, contents, {
+    temperature: 0.2,
+    thinkingConfig: { thinkingBudget: 2048 },
+    systemInstruction
+  }, 'Comparison');
+  if (result) return { text: result, model };
+  throw new Error("Comparison failed: the model returned no text");
+};
+
+/**
+ * Creates a chat session that has every compared video in its context and
+ * cites which video each statement comes from.
+ */
+export const createComparisonChatSession = async (
+  sources: ComparisonSource[],
+  language: Language = DEFAULT_LANGUAGE,
+  modelId: string = GEMINI_MODELS.chat[0]
+): Promise<Chat> => {
+  const ai = getAiClient();
+  if (!ai) throw new Error("API Key missing");
+
+  const langInstruction = outputInstruction(language);
+
+  return ai.chats.create({
+    model: modelId,
+    config: {
+        temperature: 0.4,
+        systemInstruction: `You are a helpful AI video assistant. You have watched all the videos provided by the user. Answer comparative questions about them accurately and concisely. ${citationInstruction(sources)} Keep answers short and to the point. ${langInstruction}`
+    },
+    history: [
+      { role: 'user', parts: [...buildComparisonParts(sources), { text: "These are the videos I want to compare." }] },
       {
         role: 'model',
-        parts: [{ text: language === 'am' ? "ቪዲዮውን አይቼዋለሁ። ምን ልርዳዎት?" : "I have analyzed the video. What would you like to know about it?" }]
+        parts: [{ text: getTranslation(language).comparisonSeedReply }]
       }
     ]
   });
-
-  return chat;
 };
 
 /**
@@ -198,34 +1088,19 @@ async function decodeAudioData(
   return buffer;
 }
 
-/**
- * Encode Float32Array from AudioBuffer to PCM Base64 for Gemini
- */
-function base64EncodeAudio(float32Array: Float32Array): string {
-  const int16Array = new Int16Array(float32Array.length);
-  for (let i = 0; i < float32Array.length; i++) {
-    let s = Math.max(-1, Math.min(1, float32Array[i]));
-    int16Array[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
-  
-  let binary = '';
-  const bytes = new Uint8Array(int16Array.buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
 /**
  * Synthesizes speech from text using Gemini TTS.
  */
-export const synthesizeSpeech = async (text: string, voiceName: string = 'Puck'): Promise<AudioBuffer> => {
+export const synthesizeSpeech = async (
+  text: string,
+  voiceName: string = 'Puck',
+  modelId: string = GEMINI_MODELS.speech[0]
+): Promise<AudioBuffer> => {
   const ai = getAiClient();
   if (!ai) throw new Error("API Key missing");
   try {
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
+      model: modelId,
       contents: [{ parts: [{ text }] }],
       config: {
         responseModalities: [Modality.AUDIO],
@@ -262,124 +1137,497 @@ export const synthesizeSpeech = async (text: string, voiceName: string = 'Puck')
 /**
  * LIVE API IMPLEMENTATION
  */
-export class LiveSession {
-  private session: Promise<GenAILiveSession>;
-  private inputContext: AudioContext;
-  private outputContext: AudioContext;
-  private inputSource: MediaStreamAudioSourceNode | null = null;
-  private processor: ScriptProcessorNode | null = null;
-  private nextStartTime: number = 0;
+
+/** The part of the SDK's live session a LiveSession uses */
+export interface LiveTransportSession {
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  close(): void;
+}
+
+/**
+ * Opens live connections for a LiveSession. The default one connects to the
+ * Gemini Live API; tests and offline development can pass their own.
+ */
+export type LiveTransport = (callbacks: LiveCallbacks) => Promise<LiveTransportSession>;
+
+/** Replacements for the parts of a LiveSession that need the network or a browser */
+export interface LiveSessionDeps {
+  transport?: LiveTransport;
+  audio?: LiveAudioDevices;
+}
+
+export const RECONNECT_BASE_MS = 1000;
+export const MAX_RECONNECT_ATTEMPTS = 5;
+// Back to listening if no reply follows the user going quiet, e.g. after a cough
+const THINKING_TIMEOUT_MS = 10000;
+
+/**
+ * True if the server closed the connection because the key or model was
+ * rejected; reconnecting cannot help then.
+ */
+const isAuthFailure = (code: number | undefined, reason: string): boolean =>
+  code === 1008 || /api key|permission|unauthenticated|forbidden/i.test(reason);
+
+const microphoneError = (err: any): LiveError =>
+  err?.name === 'NotAllowedError' || err?.name === 'SecurityError'
+    ? { reason: 'microphone-denied', message: 'Microphone access was denied.' }
+    : { reason: 'microphone-unavailable', message: err?.message || 'No microphone could be opened.' };
+
+type LiveTurn = { id: string; text: string };
+
+export class LiveSession implements LiveConnection {
+  private ai: GoogleGenAI | null;
+  private transport: LiveTransport;
+  private session: LiveTransportSession | null = null;
+  // Increases with every connection attempt so callbacks of older ones are ignored
+  private connectionId = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private state: LiveState = { status: 'connecting', error: null, attempt: 0 };
+  private audio: LiveAudioDevices;
+  private stream: MediaStream | null = null;
+  private capture: MicCapture | null = null;
+  // Increases with every microphone opened so a slower, older request is dropped
+  private micRequest = 0;
+  private inputDeviceId: string | null;
+  private muted: boolean;
+  private player: Promise<PcmPlayer>;
+  private activity: LiveActivity = 'listening';
+  private thinkingTimer: ReturnType<typeof setTimeout> | null = null;
+  private levels: LiveLevels = { input: 0, output: 0 };
+  // Set while the model's reply is still arriving; audio may pause mid-turn
+  private modelTurnOpen = false;
+  private outputPlaying = false;
   private voiceName: string;
   private contextText: string;
   private language: Language;
+  private video: VideoReference | null;
+  // Earlier chat plus every finished live turn, replayed after a reconnect
+  private history: ChatMessage[];
+  private onTranscript?: (transcript: LiveTranscript) => void;
+  private onStateChange?: (state: LiveState) => void;
+  private onActivityChange?: (activity: LiveActivity) => void;
+  // Turns being transcribed; each side has at most one open turn
+  private turns: Record<LiveTranscript['role'], LiveTurn | null> = { user: null, model: null };
+  private turnCount = 0;
 
-  constructor(voiceName: string, contextText: string, language: Language = 'en') {
-    const ai = getAiClient();
-    if (!ai) throw new Error("API Key missing");
+  constructor(options: LiveSessionOptions, modelId: string = GEMINI_MODELS.live[0], { transport, audio }: LiveSessionDeps = {}) {
+    this.ai = getAiClient();
+    if (!this.ai && !transport) throw new Error("API Key missing");
     
-    this.voiceName = voiceName;
-    this.contextText = contextText;
-    this.language = language;
+    this.voiceName = options.voiceName;
+    this.contextText = options.contextText;
+    this.language = options.language;
+    this.video = options.video;
+    this.history = [...options.history];
+    this.onTranscript = options.onTranscript;
+    this.onStateChange = options.onStateChange;
+    this.onActivityChange = options.onActivityChange;
+    this.inputDeviceId = options.inputDeviceId ?? null;
+    this.muted = options.muted ?? false;
     
-    this.inputContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-    this.outputContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    this.audio = audio ?? createBrowserAudio();
+    this.player = this.audio.createPlayer({
+      onPlayingChange: (playing) => this.onPlayingChange(playing),
+      onLevel: (level) => {
+        this.levels.output = level;
+      }
+    });
+    this.player.catch(err => console.error("Live audio playback is unavailable:", err));
+
+    this.transport = transport ?? this.geminiTransport(this.ai!, modelId);
+    this.connect();
+    this.startMicrophone();
+  }
 
-    const langInstruction = this.language === 'am' 
-      ? "Speak in Amharic. Translate your insights into Amharic." 
-      : "Speak in English.";
+  private geminiTransport(ai: GoogleGenAI, modelId: string): LiveTransport {
+    const langInstruction = getLanguagePack(this.language).speech.instruction;
+    const config = {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: this.voiceName } },
+      },
+      // Both sides are transcribed so spoken turns appear in the chat
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      systemInstruction: `You are a helpful, specialized video analysis AI. 
+      You are talking with a user about a specific video.
+      Here is the Summary/Analysis of the video content:
+      "${this.contextText}"
+      
+      While the user watches, you receive frames from the video and notes on where the player is.
+      When the user asks about "this", "here" or "now", answer from the most recent frames.
+      Otherwise answer the user's questions based on the video and this summary.
+      Be conversational, concise, and friendly. Do not use markdown in your speech.
+      
+      IMPORTANT: ${langInstruction}`,
+    };
+    return (callbacks) => ai.live.connect({ model: modelId, config, callbacks });
+  }
 
-    this.session = ai.live.connect({
-      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: this.voiceName } },
-        },
-        systemInstruction: `You are a helpful, specialized video analysis AI. 
-        You are talking with a user about a specific video.
-        Here is the Summary/Analysis of the video content:
-        "${this.contextText}"
-        
-        Answer the user's questions based on this summary. 
-        Be conversational, concise, and friendly. Do not use markdown in your speech.
-        
-        IMPORTANT: ${langInstruction}`,
+  public getState(): LiveState {
+    return this.state;
+  }
+
+  private setState(state: LiveState) {
+    this.state = state;
+    this.onStateChange?.(state);
+  }
+
+  public getActivity(): LiveActivity {
+    return this.activity;
+  }
+
+  public getLevels(): LiveLevels {
+    return { ...this.levels };
+  }
+
+  private setActivity(activity: LiveActivity) {
+    if (this.thinkingTimer) {
+      clearTimeout(this.thinkingTimer);
+      this.thinkingTimer = null;
+    }
+    if (activity === 'thinking') {
+      this.thinkingTimer = setTimeout(() => this.setActivity('listening'), THINKING_TIMEOUT_MS);
+    }
+    if (activity === this.activity) return;
+    this.activity = activity;
+    this.onActivityChange?.(activity);
+  }
+
+  private isEnded() {
+    return this.state.status === 'closed' || this.state.status === 'error';
+  }
+
+  private connect() {
+    const id = ++this.connectionId;
+    this.reconnectTimer = null;
+    this.transport({
+      onopen: () => console.log("Live Session Connected"),
+      onmessage: (message) => {
+        if (id === this.connectionId) this.onMessage(message);
       },
-      callbacks: {
-        onopen: this.onOpen.bind(this),
-        onmessage: this.onMessage.bind(this),
-        onclose: () => console.log("Live session closed"),
-        onerror: (err) => console.error("Live session error:", err),
+      // A close event always follows, and decides what happens next
+      onerror: (err) => console.error("Live session error:", err),
+      onclose: (event) => {
+        if (id === this.connectionId) this.onConnectionLost(event?.code, event?.reason || '');
+      }
+    }).then(session => {
+      if (id !== this.connectionId || this.isEnded()) {
+        session.close();
+        return;
       }
+      this.session = session;
+      this.setState({ status: 'live', error: null, attempt: 0 });
+      this.shareContext(session);
+    }).catch((err: any) => {
+      if (id === this.connectionId) this.onConnectionLost(undefined, err?.message || String(err));
     });
   }
 
-  private async onOpen() {
-    console.log("Live Session Connected");
-    // Start Audio Stream
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      this.inputSource = this.inputContext.createMediaStreamSource(stream);
-      this.processor = this.inputContext.createScriptProcessor(4096, 1, 1);
-      
-      this.processor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        const base64Data = base64EncodeAudio(inputData);
-        
-        this.session.then(s => {
-            s.sendRealtimeInput({
-                media: {
-                    mimeType: 'audio/pcm;rate=16000',
-                    data: base64Data
-                }
-            });
-        });
-      };
+  /**
+   * Shares the already uploaded video so answers aren't limited to the
+   * summary, then the chat so far so the conversation continues where it
+   * left off (also after a reconnect).
+   */
+  private shareContext(session: LiveTransportSession) {
+    const video = this.video;
+    const history = this.ai ? buildChatHistory(this.ai, this.history) : Promise.resolve([]);
+    history
+      .then(turns => {
+        if (session !== this.session) return;
+        const context: Content[] = [
+          ...(video ? [{ role: 'user', parts: [videoPart(video), { text: "This is the video we are discussing." }] }] : []),
+          ...turns
+        ];
+        if (context.length) session.sendClientContent({ turns: context, turnComplete: false });
+      })
+      .catch(err => console.warn("Failed to share the video and chat with the live session:", err));
+  }
+
+  /**
+   * The connection closed without disconnect() being called, or could not be
+   * opened. Reconnects with growing delays unless the key was rejected.
+   */
+  private onConnectionLost(code: number | undefined, reason: string) {
+    if (this.isEnded()) return;
+    console.warn(`Live session connection lost (${code ?? 'no code'}): ${reason}`);
+    this.session = null;
+    this.stopPlayback();
+    this.endTurn('user');
+    this.endTurn('model');
+    this.modelTurnOpen = false;
+    this.setActivity('listening');
+
+    if (isAuthFailure(code, reason)) {
+      this.fail({ reason: 'auth', message: reason || 'The API key was rejected.' });
+      return;
+    }
+    const attempt = this.state.attempt + 1;
+    const error: LiveError = { reason: 'connection', message: reason || 'The connection was lost.' };
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      this.fail(error);
+      return;
+    }
+    this.setState({ status: 'reconnecting', error, attempt });
+    this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_BASE_MS * 2 ** (attempt - 1));
+  }
+
+  private fail(error: LiveError) {
+    this.setState({ status: 'error', error, attempt: this.state.attempt });
+    this.release();
+  }
 
-      this.inputSource.connect(this.processor);
-      this.processor.connect(this.inputContext.destination);
+  private async startMicrophone() {
+    try {
+      await this.openMicrophone();
     } catch (err) {
       console.error("Error accessing microphone:", err);
+      if (!this.isEnded()) this.fail(microphoneError(err));
+    }
+  }
+
+  /**
+   * Opens the chosen microphone and sends what it hears to the model. The
+   * microphone in use, if any, is only replaced once the new one works.
+   */
+  private async openMicrophone() {
+    const request = ++this.micRequest;
+    // The session may end, or another microphone be picked, while this waits
+    const superseded = () => this.isEnded() || request !== this.micRequest;
+    const stream = await this.audio.openMicrophone(this.inputDeviceId);
+    if (superseded()) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    stream.getAudioTracks().forEach(track => {
+      track.enabled = !this.muted;
+    });
+    let capture: MicCapture;
+    try {
+      capture = await this.audio.startCapture(stream, {
+        onAudio: (data) => {
+          // Audio spoken while reconnecting is dropped
+          if (!this.session || this.state.status !== 'live') return;
+          this.session.sendRealtimeInput({ audio: { data, mimeType: `audio/pcm;rate=${LIVE_INPUT_RATE}` } });
+        },
+        onSpeech: () => {
+          // Talking over the model stays 'speaking' until the server interrupts it
+          if (this.activity !== 'speaking') this.setActivity('listening');
+        },
+        // Silence is not sent, so tell the server the user stopped talking
+        onPause: () => {
+          if (!this.session || this.state.status !== 'live') return;
+          this.session.sendRealtimeInput({ audioStreamEnd: true });
+          if (this.activity === 'listening') this.setActivity('thinking');
+        },
+        onLevel: (level) => {
+          this.levels.input = level;
+        }
+      });
+    } catch (err) {
+      stream.getTracks().forEach(track => track.stop());
+      throw err;
+    }
+    if (superseded()) {
+      capture.stop();
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.stopMicrophone();
+    this.stream = stream;
+    this.capture = capture;
+  }
+
+  private stopMicrophone() {
+    if (this.capture) {
+      this.capture.stop();
+      this.capture = null;
     }
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+    this.levels.input = 0;
+  }
+
+  public setMuted(muted: boolean) {
+    this.muted = muted;
+    // Disabled tracks deliver silence, which the capture worklet does not send
+    this.stream?.getAudioTracks().forEach(track => {
+      track.enabled = !muted;
+    });
+  }
+
+  /**
+   * Switches microphones without reconnecting. Rejects, keeping the current
+   * microphone, if the new one cannot be opened.
+   */
+  public async setInputDevice(deviceId: string | null) {
+    if (this.isEnded()) return;
+    this.inputDeviceId = deviceId;
+    await this.openMicrophone();
   }
 
   private async onMessage(message: LiveServerMessage) {
-    // Handle Audio Output
-    const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-    
-    if (base64Audio) {
+    const content = message.serverContent;
+    if (!content) return;
+
+    // The user talked over the model: drop what is still queued
+    if (content.interrupted) {
+      this.stopPlayback();
+      this.endTurn('model');
+      this.modelTurnOpen = false;
+      this.setActivity('listening');
+    }
+
+    if (content.inputTranscription?.text) {
+      this.appendTranscript('user', content.inputTranscription.text);
+    }
+    if (content.outputTranscription?.text) {
+      // The model answering means the user has finished
+      this.endTurn('user');
+      this.appendTranscript('model', content.outputTranscription.text);
+    }
+
+    if (content.modelTurn) this.modelTurnOpen = true;
+    for (const part of content.modelTurn?.parts ?? []) {
+      if (part.inlineData?.data) await this.playAudio(part.inlineData.data);
+    }
+
+    if (content.turnComplete) {
+      this.endTurn('user');
+      this.endTurn('model');
+      this.modelTurnOpen = false;
+      // Otherwise the player reports when the rest of the reply has been heard
+      if (!this.outputPlaying) this.setActivity('listening');
+    }
+  }
+
+  private onPlayingChange(playing: boolean) {
+    this.outputPlaying = playing;
+    if (!playing) this.levels.output = 0;
+    if (this.isEnded()) return;
+    if (playing) this.setActivity('speaking');
+    else this.setActivity(this.modelTurnOpen ? 'thinking' : 'listening');
+  }
+
+  private async playAudio(base64Audio: string) {
+    if (this.isEnded()) return;
+    try {
+      // Chunks queue up in the player worklet and play without gaps
+      (await this.player).play(base64Audio);
+    } catch (e) {
+      console.error("Error playing audio chunk", e);
+    }
+  }
+
+  private stopPlayback() {
+    this.player.then(player => player.clear()).catch(() => { /* Playback never started */ });
+  }
+
+  private appendTranscript(role: LiveTranscript['role'], chunk: string) {
+    const turn = this.turns[role] ?? { id: `live-${Date.now()}-${this.turnCount++}`, text: '' };
+    turn.text += chunk;
+    this.turns[role] = turn;
+    this.onTranscript?.({ id: turn.id, role, text: turn.text.trim(), final: false });
+  }
+
+  private endTurn(role: LiveTranscript['role']) {
+    const turn = this.turns[role];
+    if (!turn) return;
+    this.turns[role] = null;
+    const text = turn.text.trim();
+    if (text) this.history.push({ id: turn.id, role, text, timestamp: Date.now(), isAudio: true });
+    this.onTranscript?.({ id: turn.id, role, text, final: true });
+  }
+
+  public sendFrame(frame: LiveFrame) {
+    if (this.state.status !== 'live') return;
+    this.session?.sendRealtimeInput({
+      video: { data: frame.data, mimeType: frame.mimeType }
+    });
+  }
+
+  public sendPlayerPosition(position: PlayerPosition) {
+    if (this.state.status !== 'live') return;
+    // Added as context only; the model answers when the user speaks
+    this.session?.sendClientContent({
+      turns: [{
+        role: 'user',
+        parts: [{ text: `(The video is ${position.paused ? 'paused' : 'playing'} at ${formatTimestamp(position.time)}.)` }]
+      }],
+      turnComplete: false
+    });
+  }
+
+  /**
+   * Stops reconnecting, closes the connection and releases the microphone
+   * and audio output. Safe to call more than once.
+   */
+  private release() {
+    this.connectionId++;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.thinkingTimer) {
+      clearTimeout(this.thinkingTimer);
+      this.thinkingTimer = null;
+    }
+    this.stopPlayback();
+    this.micRequest++;
+    this.stopMicrophone();
+    this.levels.output = 0;
+    if (this.session) {
       try {
-        const audioBuffer = await decodeAudioData(
-          decode(base64Audio),
-          this.outputContext,
-          24000,
-          1
-        );
-        
-        const source = this.outputContext.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(this.outputContext.destination);
-        
-        this.nextStartTime = Math.max(this.outputContext.currentTime, this.nextStartTime);
-        source.start(this.nextStartTime);
-        this.nextStartTime += audioBuffer.duration;
-        
-      } catch (e) {
-        console.error("Error decoding audio chunk", e);
+        this.session.close();
+      } catch (err) {
+        console.warn("Closing the live session failed:", err);
       }
+      this.session = null;
     }
+    this.audio.close();
   }
 
   public async disconnect() {
-    if (this.processor) {
-      this.processor.disconnect();
-      this.processor = null;
-    }
-    if (this.inputSource) {
-      this.inputSource.disconnect();
-      this.inputSource = null;
-    }
-    await this.inputContext.close();
-    await this.outputContext.close();
+    // Whatever was said so far is kept
+    this.endTurn('user');
+    this.endTurn('model');
+    const wasEnded = this.isEnded();
+    this.release();
+    if (!wasEnded) this.setState({ status: 'closed', error: null, attempt: 0 });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Adapter exposing this module through the provider interface.
+ */
+const toChatSession = (chat: Chat) => ({
+  sendMessageStream: (message: string) => sendChatMessageStream(chat, message)
+});
+
+export const geminiProvider: VideoAIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: GEMINI_MODELS,
+  isConfigured: () => !!getApiKey(),
+  uploadVideo: uploadVideoFile,
+  isVideoAvailable: isVideoReferenceAvailable,
+  linkVideo,
+  analyzeVideo: (video, language, model, options) => analyzeVideo(video, language, model, options),
+  expandSummary: (video, previousText, language, model, options) => expandSummary(video, previousText, language, model, options),
+  mergeAnalyses: (segments, language, model, options) => mergeAnalyses(segments, language, model, options),
+  analyzeChapters: (video, language, model) => analyzeChapters(video, language, model),
+  transcribeVideo: (video, model) => transcribeVideo(video, model),
+  translateLines: (lines, target, model) => translateLines(lines, target, model),
+  translateTexts: (texts, target, model) => translateTexts(texts, target, model),
+  compareVideos: (sources, language, model) => compareVideos(sources, language, model),
+  createChat: async (video, language, model, options) =>
+    toChatSession(await createChatSession(video, language, options, model)),
+  createComparisonChat: async (sources, language, model) =>
+    toChatSession(await createComparisonChatSession(sources, language, model)),
+  synthesizeSpeech: (text, voiceName, model) => synthesizeSpeech(text, voiceName, model),
+  connectLive: (options, model) =>
+    new LiveSession(options, model)
+};
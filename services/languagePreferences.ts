@@ -0,0 +1,25 @@
+import { Language, LanguagePreferences } from '../types';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from './languages';
+
+/**
+ * Interface, summary and chat languages, stored in localStorage. Codes of
+ * packs that no longer exist fall back to the default language.
+ */
+
+const PREFERENCES_KEY = 'language_preferences';
+
+const pick = (code: unknown): Language =>
+  typeof code === 'string' && isSupportedLanguage(code) ? code : DEFAULT_LANGUAGE;
+
+export const getLanguagePreferences = (): LanguagePreferences => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(PREFERENCES_KEY) || '{}');
+    return { ui: pick(raw.ui), summary: pick(raw.summary), chat: pick(raw.chat) };
+  } catch {
+    return { ui: DEFAULT_LANGUAGE, summary: DEFAULT_LANGUAGE, chat: DEFAULT_LANGUAGE };
+  }
+};
+
+export const setLanguagePreferences = (preferences: LanguagePreferences) => {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+};
@@ -0,0 +1,232 @@
+import type { LanguagePack } from './index';
+
+export const am: LanguagePack = {
+  code: 'am',
+  name: 'Amharic',
+  nativeName: 'አማርኛ',
+  dir: 'ltr',
+  outputInstruction: 'Write the output strictly in Amharic, using Ge\'ez script. Translate headings too.',
+  speech: {
+    voice: 'Kore',
+    instruction: 'Speak in Amharic. Translate your insights into Amharic.'
+  },
+  strings: {
+    appTitle: "የቪዲዮ ማጠቃለያ AI",
+    subtitle: "ቀጣይ ትውልድ ቪዥን",
+    landingTitle: "የቪዲዮ ግንዛቤ",
+    landingDesc: "ፈጣን ማጠቃለያ እና ውይይት ለቪዲዮዎች እስከ",
+    uploadBtn: "ጫን",
+    linkBtn: "ሊንክ",
+    dragDropTitle: "ቪዲዮ ለመጫን ይንኩ",
+    dragDropSub: "ወይም ይጎትቱ እና ይጣሉ (እስከ 2GB)",
+    dragDropSubMulti: "ወይም አንድ ወይም ከዚያ በላይ ቪዲዮዎችን ይጎትቱ እና ይጣሉ (እያንዳንዳቸው እስከ 2GB)",
+    loadUrl: "ሊንኩን ጫን",
+    analyzing: "ምስሉን በመተንተን ላይ...",
+    uploadingVideo: "በመጫን ላይ",
+    processingVideo: "ቪዲዮውን በማዘጋጀት ላይ...",
+    cancelBtn: "ሰርዝ",
+    analyzeBtn: "ቪዲዮውን ተነትን",
+    tabAnalysis: "ማጠቃለያ",
+    tabChat: "AI ውይይት",
+    tabTranscript: "ግልባጭ",
+    generateTranscript: "ግልባጭ ፍጠር",
+    transcriptDesc: "በቪዲዮው ውስጥ የተነገረውን ሁሉ ከሰዓት ምልክቶች እና ከተናጋሪ ስሞች ጋር ያግኙ።",
+    chaptersNeedVideo: "የተሰቀለው ቪዲዮ ከእንግዲህ አይገኝም። ምዕራፎችን ለመፍጠር እንደገና ይተንትኑት።",
+    transcriptNeedsVideo: "የተሰቀለው ቪዲዮ ከእንግዲህ አይገኝም። ግልባጭ ለመፍጠር እንደገና ይተንትኑት።",
+    transcribing: "ንግግርን በመገልበጥ ላይ...",
+    transcriptFailed: "ግልባጩን መፍጠር አልተቻለም።",
+    noSpeech: "በዚህ ቪዲዮ ውስጥ ንግግር አልተገኘም።",
+    searchTranscript: "በግልባጩ ውስጥ ፈልግ",
+    noMatches: "ምንም አልተገኘም",
+    speakers: "ተናጋሪዎች",
+    renameSpeaker: "የተናጋሪውን ስም ቀይር",
+    subtitleLanguage: "የንዑስ ርዕስ ቋንቋ",
+    subtitleSource: "የመጀመሪያው ቋንቋ",
+    generateSubtitles: "ንዑስ ርዕስ ፍጠር",
+    generatingSubtitles: "በመፍጠር ላይ...",
+    subtitlesFailed: "ንዑስ ርዕሶችን መፍጠር አልተቻለም።",
+    captionCount: "{count} መግለጫዎች",
+    showCaptions: "መግለጫዎችን አሳይ",
+    hideCaptions: "መግለጫዎችን ደብቅ",
+    editCaptions: "መግለጫዎችን አርትዕ",
+    shiftTimings: "ሁሉንም አንቀሳቅስ (ሰ)",
+    applyBtn: "ተግብር",
+    addCaption: "አክል በ",
+    captionStart: "መጀመሪያ (ሰ)",
+    captionEnd: "መጨረሻ (ሰ)",
+    systemStandby: "ሲስተም ዝግጁ ነው",
+    systemStandbyDesc: "ግንዛቤዎችን እና የውይይት ችሎታዎችን ለመክፈት ቪዲዮ ይጫኑ እና ትንታኔ ያስጀምሩ።",
+    execSummary: "ዋና ማጠቃለያ",
+    chapters: "ምዕራፎች",
+    keyHighlights: "ዋና ዋና ነጥቦች",
+    takeaway: "ቁልፍ ትምህርት",
+    topics: "ርዕሶች",
+    people: "ሰዎች",
+    objects: "ነገሮች እና ቦታዎች",
+    generatingChapters: "ትዕይንቶችን በመከፋፈል ላይ...",
+    noChapters: "በዚህ ቪዲዮ ውስጥ ምንም ምዕራፍ አልተገኘም።",
+    chaptersFailed: "ምዕራፎችን ማዘጋጀት አልተቻለም።",
+    retryBtn: "እንደገና ሞክር",
+    export: "ላክ",
+    exportMarkdown: "Markdown (.md)",
+    exportJson: "JSON (የተዋቀረ)",
+    exportHtml: "HTML ሪፖርት",
+    exportPdf: "PDF (አትም)",
+    exportDocx: "Word (.docx)",
+    exportSrt: "ንዑስ ርዕሶች (.srt)",
+    exportVtt: "ንዑስ ርዕሶች (.vtt)",
+    includeChat: "የውይይቱን ጽሑፍ አካት",
+    metaVideo: "ቪዲዮ",
+    metaSize: "መጠን",
+    metaDuration: "ርዝመት",
+    metaAnalyzed: "የተተነተነበት",
+    metaModel: "ሞዴል",
+    chatTranscript: "የውይይት ጽሑፍ",
+    you: "እርስዎ",
+    assistant: "AI",
+    liveConnection: "ቀጥታ ግንኙነት",
+    listening: "በማዳመጥ ላይ...",
+    liveConnecting: "በመገናኘት ላይ...",
+    liveReconnecting: "እንደገና በመገናኘት ላይ (ሙከራ {attempt})...",
+    liveFailed: "ተቋርጧል",
+    liveMicDenied: "የማይክሮፎን መዳረሻ ተከልክሏል። በአሳሹ ውስጥ ፈቅደው እንደገና ይሞክሩ።",
+    liveMicUnavailable: "ማይክሮፎን ሊከፈት አልቻለም። መገናኘቱንና በሌላ እየተጠቀመ አለመሆኑን ያረጋግጡ።",
+    liveAuthFailed: "የቀጥታ ክፍለ ጊዜው ተቀባይነት አላገኘም። የኤፒአይ ቁልፍዎን እና የተመረጠውን የቀጥታ ሞዴል ያረጋግጡ።",
+    liveConnectionLost: "ከቀጥታ ክፍለ ጊዜው ጋር ያለው ግንኙነት ተቋርጧል።",
+    spokenMessage: "በድምፅ",
+    liveThinking: "በማሰብ ላይ...",
+    liveSpeaking: "በመናገር ላይ...",
+    liveMuted: "ማይክሮፎኑ ድምፅ አልባ ነው",
+    muteMic: "ማይክሮፎኑን ዝጋ",
+    unmuteMic: "ማይክሮፎኑን ክፈት",
+    microphone: "ማይክሮፎን",
+    defaultMicrophone: "ነባሪ ማይክሮፎን",
+    micSwitchFailed: "ያ ማይክሮፎን ሊከፈት አልቻለም። የቀድሞው አሁንም በጥቅም ላይ ነው።",
+    liveWatching: "ቪዲዮውን ከእርስዎ ጋር እያየ ነው። የትም ቦታ ያቁሙና ይጠይቁ።",
+    disconnect: "አቋርጥ",
+    aiOnline: "AI ረዳት መስመር ላይ ነው",
+    chatPlaceholder: "ስለ ቪዲዮው የሆነ ነገር ይጠይቁ...",
+    liveBtn: "ቀጥታ",
+    fileSizeLimit: "የፋይሉ መጠን ከ2GB በላይ ነው።",
+    validFileErr: "እባክዎ ትክክለኛ የቪዲዮ ፋይል ይጫኑ።",
+    youtubeErr: "የYouTube ሊንኮች እነሱን ማንበብ የሚችል የትንታኔ አቅራቢ (ለምሳሌ Gemini) ይፈልጋሉ። እባክዎ በምትኩ ፋይል ይጫኑ።",
+    failedToFetch: "ቪዲዮውን ማምጣት አልተቻለም።",
+    invalidUrl: "ሙሉ የhttp ወይም https ሊንክ ያስገቡ።",
+    urlBlocked: "ይህ ድረ-ገጽ ከአሳሹ ማውረድን አይፈቅድም። ለማምጣት መተግበሪያውን በዴቭ ሰርቨሩ ያስጀምሩ፣ ወይም ቪዲዮውን አውርደው ፋይሉን ይጫኑ።",
+    downloadingVideo: "በማውረድ ላይ",
+    videoLinked: "ይህ ቪዲዮ ከሊንኩ ስለሚነበብ እዚህ መጫወት አይችልም።",
+    openLink: "ሊንኩን ክፈት",
+    recordBtn: "ቅረጽ",
+    recordScreen: "ስክሪን",
+    recordCamera: "ካሜራ",
+    recordMicrophone: "ማይክሮፎን",
+    recordMaxLength: "ከፍተኛ ርዝመት",
+    startRecording: "መቅረጽ ጀምር",
+    stopRecording: "አቁም",
+    recordAgain: "እንደገና ቅረጽ",
+    useClip: "ይህን ቅንጥብ ተጠቀም",
+    trimmingClip: "ቅንጥቡን በመቁረጥ ላይ...",
+    rangeStart: "መጀመሪያ",
+    rangeEnd: "መጨረሻ",
+    selectRange: "የቪዲዮውን ክፍል ተንትን",
+    wholeVideo: "ሙሉውን ቪዲዮ ተንትን",
+    analyzedRange: "የተተነተነው ክፍል",
+    segmentsProgress: "ረጅም ቪዲዮ፦ ከ{total} ክፍሎች {done}ዱ ተተንትነዋል",
+    partialResult: "ከፊል ውጤት። እነዚህ ክፍሎች ሊተነተኑ አልቻሉም፦ {ranges}",
+    recordingDenied: "የመቅረጽ ፈቃድ ተከልክሏል። የስክሪን ወይም የካሜራ መዳረሻ ፈቅደው እንደገና ይሞክሩ።",
+    recordingUnsupported: "በዚህ አሳሽ መቅረጽ አይደገፍም።",
+    recordingFailed: "መቅረጽ አልተሳካም።",
+    apiKeyTitle: "የኤፒአይ ቁልፍ ማስተካከያ",
+    apiKeyDesc: "ሲስተሙን ለማስጀመር የGemini API ቁልፍ ያስገቡ።",
+    apiKeyPlaceholder: "ቁልፉን እዚህ ይለጥፉ...",
+    saveBtn: "ሲስተሙን አስጀምር",
+    settings: "ቅንብሮች",
+    library: "ቤተ-መዛግብት",
+    librarySearch: "ያለፉ ክፍለ ጊዜዎችን ይፈልጉ...",
+    libraryEmpty: "የተተነተኑ ቪዲዮዎች እዚህ ይታያሉ።",
+    libraryNoMatches: "ከፍለጋዎ ጋር የሚዛመድ ክፍለ ጊዜ የለም።",
+    videoStored: "የቪዲዮ ፋይል ተቀምጧል",
+    rename: "እንደገና ሰይም",
+    delete: "ሰርዝ",
+    discardVideo: "የተቀመጠውን ቪዲዮ አስወግድ",
+    confirmDelete: "ይህን ክፍለ ጊዜ ከቤተ-መዛግብቱ ይሰረዝ?",
+    keepVideoFiles: "የቪዲዮ ፋይሎችን በቤተ-መዛግብቱ አቆይ",
+    storageUsed: "የተያዘ ማከማቻ",
+    storageFull: "ማከማቻው ሞልቷል። ክፍለ ጊዜው ያለ ቪዲዮ ፋይሉ ተቀምጧል።",
+    videoNotStored: "ለዚህ ክፍለ ጊዜ የቪዲዮ ፋይሉ አልተቀመጠም።",
+    batchTitle: "የብዙ ቪዲዮ ትንታኔ",
+    batchSummary: "ተጠናቋል",
+    batchConcurrency: "በአንድ ጊዜ የሚሰሩ",
+    batchAddMore: "ቪዲዮዎችን አክል",
+    batchExportAll: "ሁሉንም ላክ",
+    batchClear: "ወረፋውን አጽዳ",
+    batchCombinedTitle: "የተጣመሩ የቪዲዮ ማጠቃለያዎች",
+    statusQueued: "በወረፋ ላይ",
+    statusUploading: "በመጫን ላይ",
+    statusAnalyzing: "በመተንተን ላይ",
+    statusDone: "ተጠናቋል",
+    statusFailed: "አልተሳካም",
+    statusCancelled: "ተሰርዟል",
+    openBtn: "ክፈት",
+    removeBtn: "አስወግድ",
+    compareVideos: "ቪዲዮዎችን አወዳድር",
+    compareSelect: "ከ2 እስከ {max} ቪዲዮዎችን ይምረጡ",
+    compareBtn: "አወዳድር",
+    comparisonTitle: "የቪዲዮ ንጽጽር",
+    comparisonReport: "የንጽጽር ሪፖርት",
+    comparisonFromSummary: "ቪዲዮው ጊዜው አልፎበታል፣ የተቀመጠው ትንታኔ ጥቅም ላይ ውሏል",
+    comparing: "ቪዲዮዎችን በማወዳደር ላይ...",
+    comparisonFailed: "ንጽጽሩ አልተሳካም። እባክዎ እንደገና ይሞክሩ።",
+    metaTemplate: "አብነት",
+    templateLabel: "አብነት",
+    metaDepth: "ጥልቀት",
+    metaRange: "የተተነተነው ክፍል",
+    depthLabel: "ጥልቀት",
+    depthTldr: "በአጭሩ",
+    depthStandard: "መደበኛ",
+    depthDetailed: "ዝርዝር ዘገባ",
+    depthExhaustive: "የተሟላ ማስታወሻ",
+    expandSummary: "አስፋ",
+    expandSummaryTo: "ወደ {depth} አስፋ",
+    expandFailed: "ማጠቃለያውን ማስፋት አልተቻለም፦",
+    manageTemplates: "አብነቶችን ያስተዳድሩ",
+    newTemplate: "አዲስ አብነት",
+    templateName: "ስም",
+    templateDescription: "መግለጫ",
+    templatePrompt: "መመሪያ",
+    templatePlaceholderHint: "የውጤቱ ቋንቋ እና የተመረጠው ጥልቀት በሚገቡበት ቦታ {language} እና {length} ይጠቀሙ።",
+    builtIn: "አብሮ የተሰራ",
+    duplicateBtn: "ቅዳ",
+    importBtn: "አስገባ",
+    exportBtn: "ላክ",
+    templatesImported: "{count} አብነት(ቶች) ገብተዋል።",
+    templateImportFailed: "አብነቶችን ማስገባት አልተቻለም፦",
+    confirmDeleteTemplate: "ይህ አብነት ይሰረዝ?",
+    tplGeneral: "አጠቃላይ ማጠቃለያ",
+    tplMeeting: "የስብሰባ ቃለ ጉባኤ",
+    tplLecture: "የትምህርት ማስታወሻ",
+    tplTutorial: "የአጋዥ ስልጠና ደረጃዎች",
+    tplSports: "የስፖርት ድምቀቶች",
+    tplSecurity: "የደህንነት ክስተቶች መዝገብ",
+    settingsModels: "የAI ሞዴሎች",
+    capAnalysis: "ትንታኔ",
+    capChat: "ውይይት",
+    capSpeech: "ንግግር",
+    capLive: "የቀጥታ ድምፅ",
+    providerLabel: "አቅራቢ",
+    modelLabel: "ሞዴል",
+    comparisonChat: "ስለ ቪዲዮዎቹ ይጠይቁ",
+    comparisonPlaceholder: "ለምሳሌ፦ በእነዚህ ቪዲዮዎች መካከል ምን ተለወጠ?",
+    chatGreeting: "ቪዲዮውን አይቼዋለሁ! ማንኛውንም ነገር ይጠይቁኝ።",
+    chatSeedReply: "ቪዲዮውን አይቼዋለሁ። ምን ልርዳዎት?",
+    comparisonGreeting: "ቪዲዮዎቹን ({videos}) አይቻለሁ። እንዴት እንደሚለያዩ ይጠይቁኝ።",
+    comparisonSeedReply: "ሁሉንም ቪዲዮዎች አይቻለሁ። ምን ማወዳደር ይፈልጋሉ?",
+    interfaceLanguage: "የገጽ ቋንቋ",
+    summaryLanguage: "የማጠቃለያ ቋንቋ",
+    chatLanguage: "የመልስ ቋንቋ",
+    translate: "ተርጉም",
+    translating: "በመተርጎም ላይ...",
+    translateTo: "ተርጉም ወደ",
+    translateFailed: "መተርጎም አልተቻለም፦"
+  }
+};
@@ -0,0 +1,62 @@
+import type { LanguagePack } from './index';
+
+export const ar: LanguagePack = {
+  code: 'ar',
+  name: 'Arabic',
+  nativeName: 'العربية',
+  dir: 'rtl',
+  outputInstruction: 'Write the output strictly in Modern Standard Arabic. Translate headings too.',
+  speech: {
+    voice: 'Fenrir',
+    instruction: 'Speak in Modern Standard Arabic.'
+  },
+  strings: {
+    landingTitle: "فهم الفيديو",
+    landingDesc: "ملخصات ومحادثة فورية لمقاطع فيديو يصل حجمها إلى",
+    uploadBtn: "رفع",
+    linkBtn: "رابط",
+    dragDropTitle: "انقر لرفع فيديو",
+    dragDropSub: "أو اسحبه وأفلته هنا (حتى 2 غيغابايت)",
+    dragDropSubMulti: "أو اسحب مقطعًا أو أكثر وأفلته هنا (حتى 2 غيغابايت لكل مقطع)",
+    loadUrl: "تحميل الرابط",
+    analyzing: "جارٍ تحليل البيانات المرئية...",
+    uploadingVideo: "جارٍ الرفع",
+    processingVideo: "جارٍ تجهيز الفيديو...",
+    cancelBtn: "إلغاء",
+    analyzeBtn: "تحليل محتوى الفيديو",
+    tabAnalysis: "التحليل",
+    tabChat: "المحادثة",
+    tabTranscript: "النص",
+    systemStandby: "في وضع الانتظار",
+    systemStandbyDesc: "ارفع فيديو وابدأ التحليل للاطلاع على النتائج والمحادثة.",
+    execSummary: "الملخص",
+    chapters: "الفصول",
+    keyHighlights: "أبرز النقاط",
+    takeaway: "الخلاصة",
+    topics: "المواضيع",
+    people: "الأشخاص",
+    objects: "الأشياء والأماكن",
+    retryBtn: "إعادة المحاولة",
+    export: "تصدير",
+    you: "أنت",
+    assistant: "الذكاء الاصطناعي",
+    listening: "جارٍ الاستماع...",
+    disconnect: "قطع الاتصال",
+    chatPlaceholder: "اسأل أي شيء عن الفيديو...",
+    settings: "الإعدادات",
+    library: "المكتبة",
+    rename: "إعادة التسمية",
+    delete: "حذف",
+    chatGreeting: "شاهدت الفيديو! اسألني ما تشاء.",
+    chatSeedReply: "حللت الفيديو. ماذا تريد أن تعرف عنه؟",
+    comparisonGreeting: "شاهدت {videos}. اسألني كيف تختلف.",
+    comparisonSeedReply: "شاهدت جميع المقاطع. ماذا تريد أن تقارن؟",
+    interfaceLanguage: "لغة الواجهة",
+    summaryLanguage: "لغة الملخص",
+    chatLanguage: "لغة الردود",
+    translate: "ترجمة",
+    translating: "جارٍ الترجمة...",
+    translateTo: "ترجمة إلى",
+    translateFailed: "تعذّرت الترجمة:"
+  }
+};
@@ -0,0 +1,240 @@
+import type { LanguagePack } from './index';
+
+/**
+ * English is the base pack: it defines every UI string, and other packs
+ * fall back to it for the keys they leave out.
+ */
+export const strings = {
+  appTitle: "Video Summary AI",
+  subtitle: "Next Gen Vision",
+  landingTitle: "Video Understanding",
+  landingDesc: "Instant summaries & chat for videos up to",
+  uploadBtn: "Upload",
+  linkBtn: "Link",
+  dragDropTitle: "Tap to upload video",
+  dragDropSub: "or drag and drop (up to 2GB)",
+  dragDropSubMulti: "or drag and drop one or more videos (up to 2GB each)",
+  loadUrl: "Load URL",
+  analyzing: "Processing Visual Data...",
+  uploadingVideo: "Uploading",
+  processingVideo: "Preparing video...",
+  cancelBtn: "Cancel",
+  analyzeBtn: "Analyze Video Content",
+  tabAnalysis: "Analysis",
+  tabChat: "Neural Chat",
+  tabTranscript: "Transcript",
+  generateTranscript: "Generate transcript",
+  transcriptDesc: "Get everything that is said in the video, with timestamps and speaker labels.",
+  chaptersNeedVideo: "The uploaded video is no longer available. Analyze it again to create chapters.",
+  transcriptNeedsVideo: "The uploaded video is no longer available. Analyze it again to create a transcript.",
+  transcribing: "Transcribing speech...",
+  transcriptFailed: "Failed to create the transcript.",
+  noSpeech: "No speech was found in this video.",
+  searchTranscript: "Search transcript",
+  noMatches: "No matches",
+  speakers: "Speakers",
+  renameSpeaker: "Rename speaker",
+  subtitleLanguage: "Subtitle language",
+  subtitleSource: "Original language",
+  generateSubtitles: "Create subtitles",
+  generatingSubtitles: "Creating...",
+  subtitlesFailed: "Failed to create subtitles.",
+  captionCount: "{count} captions",
+  showCaptions: "Show captions",
+  hideCaptions: "Hide captions",
+  editCaptions: "Edit captions",
+  shiftTimings: "Shift all by (s)",
+  applyBtn: "Apply",
+  addCaption: "Add at",
+  captionStart: "Start (s)",
+  captionEnd: "End (s)",
+  systemStandby: "System Standby",
+  systemStandbyDesc: "Upload a video and initiate analysis to unlock insights and chat capabilities.",
+  execSummary: "Executive Summary",
+  chapters: "Chapters",
+  keyHighlights: "Key Highlights",
+  takeaway: "Takeaway",
+  topics: "Topics",
+  people: "People",
+  objects: "Objects & Places",
+  generatingChapters: "Building scene-by-scene breakdown...",
+  noChapters: "No chapters were found in this video.",
+  chaptersFailed: "Failed to generate chapters.",
+  retryBtn: "Retry",
+  export: "Export",
+  exportMarkdown: "Markdown (.md)",
+  exportJson: "JSON (structured)",
+  exportHtml: "HTML report",
+  exportPdf: "PDF (print)",
+  exportDocx: "Word (.docx)",
+  exportSrt: "Subtitles (.srt)",
+  exportVtt: "Subtitles (.vtt)",
+  includeChat: "Include chat transcript",
+  metaVideo: "Video",
+  metaSize: "Size",
+  metaDuration: "Duration",
+  metaAnalyzed: "Analyzed",
+  metaModel: "Model",
+  chatTranscript: "Chat Transcript",
+  you: "You",
+  assistant: "AI",
+  liveConnection: "LIVE CONNECTION",
+  listening: "Listening...",
+  liveConnecting: "Connecting...",
+  liveReconnecting: "Reconnecting (attempt {attempt})...",
+  liveFailed: "Disconnected",
+  liveMicDenied: "Microphone access was denied. Allow it in the browser and try again.",
+  liveMicUnavailable: "No microphone could be opened. Check that one is connected and not in use.",
+  liveAuthFailed: "The live session was refused. Check your API key and the selected live model.",
+  liveConnectionLost: "The connection to the live session was lost.",
+  spokenMessage: "Spoken",
+  liveThinking: "Thinking...",
+  liveSpeaking: "Speaking...",
+  liveMuted: "Microphone muted",
+  muteMic: "Mute microphone",
+  unmuteMic: "Unmute microphone",
+  microphone: "Microphone",
+  defaultMicrophone: "Default microphone",
+  micSwitchFailed: "That microphone could not be opened. The previous one is still in use.",
+  liveWatching: "Watching the video with you. Pause anywhere and ask about it.",
+  disconnect: "Disconnect",
+  aiOnline: "AI Assistant Online",
+  chatPlaceholder: "Ask something about the video...",
+  liveBtn: "LIVE",
+  fileSizeLimit: "File size exceeds the 2GB limit.",
+  validFileErr: "Please upload a valid video file.",
+  youtubeErr: "YouTube links need an analysis provider that can read them, such as Gemini. Please upload a file instead.",
+  failedToFetch: "Failed to fetch video.",
+  invalidUrl: "Enter a complete http or https link.",
+  urlBlocked: "This site does not allow downloads from the browser. Run the app with its dev server to fetch it, or download the video and upload the file.",
+  downloadingVideo: "Downloading",
+  videoLinked: "This video is read from its link, so it cannot be played here.",
+  openLink: "Open link",
+  recordBtn: "Record",
+  recordScreen: "Screen",
+  recordCamera: "Camera",
+  recordMicrophone: "Microphone",
+  recordMaxLength: "Maximum length",
+  startRecording: "Start recording",
+  stopRecording: "Stop",
+  recordAgain: "Record again",
+  useClip: "Use this clip",
+  trimmingClip: "Trimming clip...",
+  rangeStart: "Start",
+  rangeEnd: "End",
+  selectRange: "Analyze part of the video",
+  wholeVideo: "Analyze the whole video",
+  analyzedRange: "Analyzed part",
+  segmentsProgress: "Long video: {done} of {total} parts analyzed",
+  partialResult: "Partial result. These parts could not be analyzed: {ranges}",
+  recordingDenied: "Permission to record was denied. Allow screen or camera access and try again.",
+  recordingUnsupported: "Recording is not supported in this browser.",
+  recordingFailed: "Recording failed.",
+  apiKeyTitle: "API Key Setup",
+  apiKeyDesc: "Enter your Gemini API key to activate the neural engine.",
+  apiKeyPlaceholder: "Paste your API Key here...",
+  saveBtn: "Initialize System",
+  settings: "Settings",
+  library: "Library",
+  librarySearch: "Search past sessions...",
+  libraryEmpty: "Analyzed videos will appear here.",
+  libraryNoMatches: "No sessions match your search.",
+  videoStored: "Video file stored",
+  rename: "Rename",
+  delete: "Delete",
+  discardVideo: "Discard stored video",
+  confirmDelete: "Delete this session from the library?",
+  keepVideoFiles: "Keep video files in library",
+  storageUsed: "Storage used",
+  storageFull: "Storage is full. The session was saved without the video file.",
+  videoNotStored: "The video file was not kept for this session.",
+  batchTitle: "Batch Analysis",
+  batchSummary: "done",
+  batchConcurrency: "Parallel jobs",
+  batchAddMore: "Add videos",
+  batchExportAll: "Export all",
+  batchClear: "Clear queue",
+  batchCombinedTitle: "Combined Video Summaries",
+  statusQueued: "Queued",
+  statusUploading: "Uploading",
+  statusAnalyzing: "Analyzing",
+  statusDone: "Done",
+  statusFailed: "Failed",
+  statusCancelled: "Cancelled",
+  openBtn: "Open",
+  removeBtn: "Remove",
+  compareVideos: "Compare videos",
+  compareSelect: "Select 2 to {max} videos",
+  compareBtn: "Compare",
+  comparisonTitle: "Video Comparison",
+  comparisonReport: "Comparison Report",
+  comparisonFromSummary: "Video expired, using saved analysis",
+  comparing: "Comparing videos...",
+  comparisonFailed: "Comparison failed. Please try again.",
+  metaTemplate: "Template",
+  templateLabel: "Template",
+  metaDepth: "Depth",
+  metaRange: "Analyzed part",
+  depthLabel: "Depth",
+  depthTldr: "TL;DR",
+  depthStandard: "Standard",
+  depthDetailed: "Detailed report",
+  depthExhaustive: "Exhaustive notes",
+  expandSummary: "Expand",
+  expandSummaryTo: "Expand to {depth}",
+  expandFailed: "Could not expand the summary:",
+  manageTemplates: "Manage templates",
+  newTemplate: "New template",
+  templateName: "Name",
+  templateDescription: "Description",
+  templatePrompt: "Prompt",
+  templatePlaceholderHint: "Use {language} and {length} where the output language and the selected depth should go.",
+  builtIn: "Built-in",
+  duplicateBtn: "Duplicate",
+  importBtn: "Import",
+  exportBtn: "Export",
+  templatesImported: "{count} template(s) imported.",
+  templateImportFailed: "Could not import templates:",
+  confirmDeleteTemplate: "Delete this template?",
+  tplGeneral: "General summary",
+  tplMeeting: "Meeting minutes",
+  tplLecture: "Lecture notes",
+  tplTutorial: "Tutorial steps",
+  tplSports: "Sports highlights",
+  tplSecurity: "Security event log",
+  settingsModels: "AI Models",
+  capAnalysis: "Analysis",
+  capChat: "Chat",
+  capSpeech: "Speech",
+  capLive: "Live voice",
+  providerLabel: "provider",
+  modelLabel: "model",
+  comparisonChat: "Ask across videos",
+  comparisonPlaceholder: "e.g. What changed between these videos?",
+  chatGreeting: "I've watched the video! Ask me anything.",
+  chatSeedReply: "I have analyzed the video. What would you like to know about it?",
+  comparisonGreeting: "I've watched {videos}. Ask me how they compare.",
+  comparisonSeedReply: "I have watched all the videos. What would you like to compare?",
+  interfaceLanguage: "Interface language",
+  summaryLanguage: "Summary language",
+  chatLanguage: "Reply language",
+  translate: "Translate",
+  translating: "Translating...",
+  translateTo: "Translate to",
+  translateFailed: "Translation failed:"
+};
+
+export type UIStrings = typeof strings;
+
+export const en: LanguagePack = {
+  code: 'en',
+  name: 'English',
+  nativeName: 'English',
+  dir: 'ltr',
+  outputInstruction: 'Write the output in English.',
+  speech: {
+    voice: 'Puck',
+    instruction: 'Speak in English.'
+  },
+  strings
+};
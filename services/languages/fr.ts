@@ -0,0 +1,62 @@
+import type { LanguagePack } from './index';
+
+export const fr: LanguagePack = {
+  code: 'fr',
+  name: 'French',
+  nativeName: 'Français',
+  dir: 'ltr',
+  outputInstruction: 'Write the output strictly in French. Translate headings too.',
+  speech: {
+    voice: 'Charon',
+    instruction: 'Speak in French.'
+  },
+  strings: {
+    landingTitle: "Compréhension vidéo",
+    landingDesc: "Résumés et discussion instantanés pour des vidéos jusqu'à",
+    uploadBtn: "Importer",
+    linkBtn: "Lien",
+    dragDropTitle: "Touchez pour importer une vidéo",
+    dragDropSub: "ou glissez-déposez (jusqu'à 2 Go)",
+    dragDropSubMulti: "ou glissez-déposez une ou plusieurs vidéos (jusqu'à 2 Go chacune)",
+    loadUrl: "Charger l'URL",
+    analyzing: "Analyse des données visuelles...",
+    uploadingVideo: "Importation",
+    processingVideo: "Préparation de la vidéo...",
+    cancelBtn: "Annuler",
+    analyzeBtn: "Analyser la vidéo",
+    tabAnalysis: "Analyse",
+    tabChat: "Discussion",
+    tabTranscript: "Transcription",
+    systemStandby: "En attente",
+    systemStandbyDesc: "Importez une vidéo et lancez l'analyse pour accéder aux résultats et à la discussion.",
+    execSummary: "Résumé",
+    chapters: "Chapitres",
+    keyHighlights: "Points clés",
+    takeaway: "À retenir",
+    topics: "Thèmes",
+    people: "Personnes",
+    objects: "Objets et lieux",
+    retryBtn: "Réessayer",
+    export: "Exporter",
+    you: "Vous",
+    assistant: "IA",
+    listening: "À l'écoute...",
+    disconnect: "Déconnecter",
+    chatPlaceholder: "Posez une question sur la vidéo...",
+    settings: "Paramètres",
+    library: "Bibliothèque",
+    rename: "Renommer",
+    delete: "Supprimer",
+    chatGreeting: "J'ai regardé la vidéo ! Posez-moi vos questions.",
+    chatSeedReply: "J'ai analysé la vidéo. Que voulez-vous savoir ?",
+    comparisonGreeting: "J'ai regardé {videos}. Demandez-moi ce qui les distingue.",
+    comparisonSeedReply: "J'ai regardé toutes les vidéos. Que voulez-vous comparer ?",
+    interfaceLanguage: "Langue de l'interface",
+    summaryLanguage: "Langue du résumé",
+    chatLanguage: "Langue des réponses",
+    translate: "Traduire",
+    translating: "Traduction...",
+    translateTo: "Traduire en",
+    translateFailed: "La traduction a échoué :"
+  }
+};
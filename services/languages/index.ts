@@ -0,0 +1,51 @@
+import { Language } from '../../types';
+import type { UIStrings } from './en';
+import { en } from './en';
+import { am } from './am';
+import { ar } from './ar';
+import { fr } from './fr';
+
+/**
+ * Everything the app needs to support one language. Only the English pack
+ * defines every UI string; the others fall back to English for missing keys.
+ */
+export interface LanguagePack {
+  /** ISO 639-1 code; this is the value stored wherever a Language is kept */
+  code: string;
+  /** English name, used in prompts */
+  name: string;
+  /** Name in the language itself, shown in the picker */
+  nativeName: string;
+  dir: 'ltr' | 'rtl';
+  /** Appended to prompts so the model writes in this language */
+  outputInstruction: string;
+  speech: {
+    /** Voice preselected when the language is chosen */
+    voice: string;
+    /** Added to live session instructions */
+    instruction: string;
+  };
+  strings: Partial<UIStrings>;
+}
+
+/**
+ * All available languages, in picker order. Adding a language only needs a
+ * new pack file and an entry here.
+ */
+const PACKS: LanguagePack[] = [en, am, ar, fr];
+
+export const DEFAULT_LANGUAGE: Language = en.code;
+
+export const listLanguages = (): LanguagePack[] => PACKS;
+
+export const isSupportedLanguage = (code: string): boolean => PACKS.some(p => p.code === code);
+
+/**
+ * The pack for `code`, or English for unknown codes (e.g. a session saved
+ * with a pack that has since been removed).
+ */
+export const getLanguagePack = (code: Language): LanguagePack => PACKS.find(p => p.code === code) ?? en;
+
+export const languageName = (code: Language): string => getLanguagePack(code).name;
+
+export const outputInstruction = (code: Language): string => getLanguagePack(code).outputInstruction;
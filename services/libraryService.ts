@@ -0,0 +1,193 @@
+import { LibraryEntry } from '../types';
+
+/**
+ * Local analysis library backed by IndexedDB.
+ * Session metadata and video blobs live in separate stores so listing the
+ * library never loads video data.
+ */
+
+const DB_NAME = 'video-summary-library';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const VIDEOS_STORE = 'videos';
+const KEEP_VIDEO_KEY = 'library_keep_video';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(VIDEOS_STORE)) {
+          db.createObjectStore(VIDEOS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open the library database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisifyTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+/**
+ * True if the error means the browser refused to store more data.
+ */
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/* ---------- Preferences ---------- */
+
+export const getKeepVideoPreference = (): boolean =>
+  localStorage.getItem(KEEP_VIDEO_KEY) === 'true';
+
+export const setKeepVideoPreference = (keep: boolean) => {
+  localStorage.setItem(KEEP_VIDEO_KEY, String(keep));
+};
+
+/* ---------- Sessions ---------- */
+
+/**
+ * Lists all saved sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<LibraryEntry[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const entries = await promisifyRequest(tx.objectStore(SESSIONS_STORE).getAll() as IDBRequest<LibraryEntry[]>);
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = async (id: string): Promise<LibraryEntry | null> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const entry = await promisifyRequest(tx.objectStore(SESSIONS_STORE).get(id) as IDBRequest<LibraryEntry | undefined>);
+  return entry ?? null;
+};
+
+/**
+ * Saves a session, optionally with its video blob.
+ * If the blob does not fit in the storage quota the session is still saved
+ * without it; the returned entry reflects what was actually stored.
+ */
+export const saveSession = async (entry: LibraryEntry, videoBlob?: Blob | null): Promise<LibraryEntry> => {
+  const db = await openDb();
+
+  if (videoBlob) {
+    try {
+      const tx = db.transaction([SESSIONS_STORE, VIDEOS_STORE], 'readwrite');
+      const saved = { ...entry, hasVideoBlob: true };
+      tx.objectStore(VIDEOS_STORE).put({ id: entry.id, blob: videoBlob });
+      tx.objectStore(SESSIONS_STORE).put(saved);
+      await promisifyTransaction(tx);
+      return saved;
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      console.warn("Storage quota exceeded, saving session without the video file", error);
+    }
+  }
+
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const saved = videoBlob ? { ...entry, hasVideoBlob: false } : entry;
+  tx.objectStore(SESSIONS_STORE).put(saved);
+  await promisifyTransaction(tx);
+  return saved;
+};
+
+/**
+ * Applies a partial update to a saved session and bumps `updatedAt`.
+ */
+export const updateSession = async (
+  id: string,
+  changes: Partial<Omit<LibraryEntry, 'id' | 'createdAt'>>
+): Promise<LibraryEntry | null> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  const existing = await promisifyRequest(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+  if (!existing) return null;
+  const updated: LibraryEntry = { ...existing, ...changes, updatedAt: Date.now() };
+  store.put(updated);
+  await promisifyTransaction(tx);
+  return updated;
+};
+
+export const renameSession = (id: string, title: string) => updateSession(id, { title });
+
+export const getVideoBlob = async (id: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const tx = db.transaction(VIDEOS_STORE, 'readonly');
+  const record = await promisifyRequest(tx.objectStore(VIDEOS_STORE).get(id) as IDBRequest<{ id: string; blob: Blob } | undefined>);
+  return record?.blob ?? null;
+};
+
+/**
+ * Removes the stored video of a session while keeping its analysis and chat.
+ */
+export const discardVideoBlob = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, VIDEOS_STORE], 'readwrite');
+  tx.objectStore(VIDEOS_STORE).delete(id);
+  const store = tx.objectStore(SESSIONS_STORE);
+  const existing = await promisifyRequest(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+  if (existing) store.put({ ...existing, hasVideoBlob: false });
+  await promisifyTransaction(tx);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, VIDEOS_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  tx.objectStore(VIDEOS_STORE).delete(id);
+  await promisifyTransaction(tx);
+};
+
+/* ---------- Storage ---------- */
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+/**
+ * Reports how much origin storage is used, if the browser exposes it.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/**
+ * Asks the browser not to evict the library under storage pressure.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
@@ -0,0 +1,209 @@
+/**
+ * Audio plumbing for live sessions, built on AudioWorklets so capture and
+ * playback run on the audio thread instead of competing with React renders.
+ * See services/worklets for the processors.
+ */
+
+/** Sample rate the Live API expects for microphone input */
+export const LIVE_INPUT_RATE = 16000;
+/** Sample rate of the audio the Live API sends back */
+export const LIVE_OUTPUT_RATE = 24000;
+
+const CAPTURE_WORKLET_URL = new URL('./worklets/micCapture.worklet.js', import.meta.url);
+const PLAYER_WORKLET_URL = new URL('./worklets/pcmPlayer.worklet.js', import.meta.url);
+
+// Byte chunk size for String.fromCharCode, well below argument count limits
+const ENCODE_CHUNK = 0x8000;
+// RMS of loud speech is around 0.15; this gain maps it close to a full meter
+const LEVEL_GAIN = 6;
+
+/** Meter level from 0 to 1 for an RMS value, on a curve that suits speech */
+export const rmsToLevel = (rms: number): number => Math.min(1, Math.sqrt(rms * LEVEL_GAIN));
+
+/** Base64 of raw bytes, without building the string one character at a time */
+export const bytesToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += ENCODE_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + ENCODE_CHUNK));
+  }
+  return btoa(binary);
+};
+
+/** Samples of base64 16-bit little-endian PCM, scaled to [-1, 1] */
+export const base64ToFloat32 = (base64: string): Float32Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  const pcm = new Int16Array(bytes.buffer, 0, bytes.length >> 1);
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / 32768;
+  }
+  return samples;
+};
+
+// Modules already added to each context; a processor can only be registered once
+const loadedWorklets = new WeakMap<AudioContext, Map<string, Promise<void>>>();
+
+const loadWorklet = (ctx: AudioContext, url: URL): Promise<void> => {
+  if (!ctx.audioWorklet) {
+    return Promise.reject(new Error('This browser does not support AudioWorklet, which live mode needs.'));
+  }
+  let modules = loadedWorklets.get(ctx);
+  if (!modules) {
+    modules = new Map();
+    loadedWorklets.set(ctx, modules);
+  }
+  let loading = modules.get(url.href);
+  if (!loading) {
+    loading = ctx.audioWorklet.addModule(url);
+    modules.set(url.href, loading);
+  }
+  return loading;
+};
+
+/**
+ * Microphones the user can pick from. Labels are empty until microphone
+ * access has been granted once.
+ */
+export const listMicrophones = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+};
+
+export interface MicCaptureOptions {
+  /** Receives base64 16 kHz PCM chunks while the user speaks */
+  onAudio: (base64Pcm: string) => void;
+  /** Called when sending stops because the user went quiet */
+  onPause?: () => void;
+  /** Called when sending starts again because the user speaks */
+  onSpeech?: () => void;
+  /** Receives the input level (0 to 1) about 20 times a second */
+  onLevel?: (level: number) => void;
+}
+
+export interface MicCapture {
+  stop: () => void;
+}
+
+/**
+ * Captures `stream` at 16 kHz through the capture worklet. Silence is
+ * skipped on the audio thread, so only speech reaches `onAudio`.
+ */
+export const startMicCapture = async (
+  ctx: AudioContext,
+  stream: MediaStream,
+  { onAudio, onPause, onSpeech, onLevel }: MicCaptureOptions
+): Promise<MicCapture> => {
+  await loadWorklet(ctx, CAPTURE_WORKLET_URL);
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, 'mic-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    processorOptions: { targetRate: LIVE_INPUT_RATE }
+  });
+  node.port.onmessage = (event) => {
+    switch (event.data.type) {
+      case 'audio': onAudio(bytesToBase64(event.data.pcm)); break;
+      case 'speech': onSpeech?.(); break;
+      case 'pause': onPause?.(); break;
+      case 'level': onLevel?.(rmsToLevel(event.data.rms)); break;
+    }
+  };
+  source.connect(node);
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    }
+  };
+};
+
+export interface PcmPlayer {
+  /** Queues base64 24 kHz PCM right after what is already queued */
+  play: (base64Pcm: string) => void;
+  /** Drops everything queued, e.g. when the user interrupts */
+  clear: () => void;
+  disconnect: () => void;
+}
+
+export interface PcmPlayerOptions {
+  /** Called when sound starts and when the queue has run dry */
+  onPlayingChange?: (playing: boolean) => void;
+  /** Receives the output level (0 to 1) about 20 times a second while playing */
+  onLevel?: (level: number) => void;
+}
+
+/**
+ * Gapless player for the model's audio. `ctx` must run at LIVE_OUTPUT_RATE,
+ * which the worklet plays without resampling.
+ */
+export const createPcmPlayer = async (
+  ctx: AudioContext,
+  { onPlayingChange, onLevel }: PcmPlayerOptions = {}
+): Promise<PcmPlayer> => {
+  await loadWorklet(ctx, PLAYER_WORKLET_URL);
+  const node = new AudioWorkletNode(ctx, 'pcm-player', {
+    numberOfInputs: 0,
+    numberOfOutputs: 1,
+    outputChannelCount: [1]
+  });
+  node.port.onmessage = (event) => {
+    if (event.data.type === 'playing') onPlayingChange?.(event.data.playing);
+    else if (event.data.type === 'level') onLevel?.(rmsToLevel(event.data.rms));
+  };
+  node.connect(ctx.destination);
+  return {
+    play: (base64Pcm) => {
+      const samples = base64ToFloat32(base64Pcm);
+      node.port.postMessage({ type: 'audio', samples }, [samples.buffer]);
+    },
+    clear: () => node.port.postMessage({ type: 'clear' }),
+    disconnect: () => {
+      node.port.onmessage = null;
+      node.disconnect();
+    }
+  };
+};
+
+/**
+ * The audio side of a live session: microphone, capture and playback.
+ * LiveSession takes one so it can run without a browser, e.g. in tests.
+ */
+export interface LiveAudioDevices {
+  /** Opens the microphone with this id, or the default one for null */
+  openMicrophone(deviceId: string | null): Promise<MediaStream>;
+  startCapture(stream: MediaStream, options: MicCaptureOptions): Promise<MicCapture>;
+  createPlayer(options: PcmPlayerOptions): Promise<PcmPlayer>;
+  /** Releases the audio hardware; safe to call more than once */
+  close(): void;
+}
+
+/**
+ * Live audio through Web Audio and getUserMedia. Input runs at the device
+ * rate and is resampled in the capture worklet; output runs at the model's
+ * rate so playback needs no resampling.
+ */
+export const createBrowserAudio = (): LiveAudioDevices => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const input: AudioContext = new AudioContextClass();
+  const output: AudioContext = new AudioContextClass({ sampleRate: LIVE_OUTPUT_RATE });
+  return {
+    openMicrophone: (deviceId) => navigator.mediaDevices.getUserMedia({
+      audio: deviceId ? { deviceId: { exact: deviceId } } : true
+    }),
+    startCapture: (stream, options) => startMicCapture(input, stream, options),
+    createPlayer: (options) => createPcmPlayer(output, options),
+    close: () => {
+      [input, output].forEach(ctx => {
+        if (ctx.state !== 'closed') ctx.close().catch(() => { /* Already closing */ });
+      });
+    }
+  };
+};
@@ -0,0 +1,127 @@
+import { LiveConnection, LiveFrame } from '../types';
+
+/**
+ * Streams what the player shows to a live session, so voice answers can refer
+ * to the picture. While the video plays a frame is sent every second, about
+ * the rate the Live API takes in. On pause or seek the model is told the new
+ * position and, when paused, gets the frames leading up to it; those are read
+ * from a hidden copy of the video so the visible player does not move.
+ */
+
+export const LIVE_FRAME_INTERVAL_MS = 1000;
+// Seconds before the position for the frames sent after a pause or seek
+const CONTEXT_FRAME_OFFSETS = [-4, -2, 0];
+const FRAME_MAX_WIDTH = 640;
+const FRAME_QUALITY = 0.7;
+// A seek that never completes must not hold up later ones
+const SEEK_TIMEOUT_MS = 3000;
+
+/**
+ * Draws the current picture of `video` as a JPEG frame, or null while it has
+ * no picture. Throws if the video is cross-origin without CORS headers.
+ */
+const drawFrame = (canvas: HTMLCanvasElement, video: HTMLVideoElement, time: number): LiveFrame | null => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const scale = Math.min(1, FRAME_MAX_WIDTH / video.videoWidth);
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const url = canvas.toDataURL('image/jpeg', FRAME_QUALITY);
+  return { data: url.slice(url.indexOf(',') + 1), mimeType: 'image/jpeg', time };
+};
+
+const seek = (video: HTMLVideoElement, time: number) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer);
+    video.removeEventListener('seeked', done);
+    video.removeEventListener('error', done);
+    resolve();
+  };
+  const timer = setTimeout(done, SEEK_TIMEOUT_MS);
+  video.addEventListener('seeked', done);
+  video.addEventListener('error', done);
+  const start = () => {
+    video.currentTime = time;
+  };
+  if (video.readyState >= HTMLMediaElement.HAVE_METADATA) start();
+  else video.addEventListener('loadedmetadata', start, { once: true });
+});
+
+/**
+ * Starts streaming frames of `video` to `connection`. Returns a function that
+ * stops the stream.
+ */
+export const streamVideoFrames = (
+  video: HTMLVideoElement,
+  connection: LiveConnection,
+  intervalMs: number = LIVE_FRAME_INTERVAL_MS
+): (() => void) => {
+  const canvas = document.createElement('canvas');
+  let stopped = false;
+  let unreadable = false;
+  // Raised on every pause or seek so an older burst of context frames stops
+  let burst = 0;
+  let sampler: HTMLVideoElement | null = null;
+
+  const send = (source: HTMLVideoElement, time: number) => {
+    if (stopped || unreadable) return;
+    try {
+      const frame = drawFrame(canvas, source, time);
+      if (frame) connection.sendFrame(frame);
+    } catch (err) {
+      // The canvas stays tainted, so give up instead of failing every second
+      unreadable = true;
+      console.warn("Video frames cannot be read; live mode continues without them.", err);
+    }
+  };
+
+  const sendContext = async () => {
+    const id = ++burst;
+    const time = video.currentTime;
+    connection.sendPlayerPosition({ time, paused: video.paused });
+    if (!video.paused) {
+      send(video, time);
+      return;
+    }
+    if (!sampler) {
+      sampler = document.createElement('video');
+      sampler.muted = true;
+      sampler.preload = 'auto';
+      sampler.crossOrigin = video.crossOrigin;
+      sampler.src = video.currentSrc;
+    }
+    const times = [...new Set(CONTEXT_FRAME_OFFSETS.map(offset => Math.max(0, time + offset)))];
+    for (const at of times) {
+      await seek(sampler, at);
+      if (stopped || id !== burst) return;
+      send(sampler, at);
+    }
+  };
+
+  const timer = setInterval(() => {
+    if (!video.paused && !video.seeking) send(video, video.currentTime);
+  }, intervalMs);
+
+  const onChange = () => {
+    sendContext().catch(err => console.warn("Failed to send video context:", err));
+  };
+  video.addEventListener('pause', onChange);
+  video.addEventListener('play', onChange);
+  video.addEventListener('seeked', onChange);
+  onChange();
+
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+    video.removeEventListener('pause', onChange);
+    video.removeEventListener('play', onChange);
+    video.removeEventListener('seeked', onChange);
+    if (sampler) {
+      sampler.removeAttribute('src');
+      sampler.load();
+      sampler = null;
+    }
+  };
+};
@@ -0,0 +1,251 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LiveCallbacks, LiveServerMessage } from '@google/genai';
+import { LiveSession, LiveTransportSession, MAX_RECONNECT_ATTEMPTS, RECONNECT_BASE_MS } from './geminiService';
+import type { LiveAudioDevices } from './liveAudio';
+import type { LiveSessionOptions, LiveState, LiveTranscript } from '../types';
+
+/** One connection attempt, opened, failed or dropped by the test */
+class FakeConnection {
+  session: LiveTransportSession = { sendClientContent: vi.fn(), sendRealtimeInput: vi.fn(), close: vi.fn() };
+  promise: Promise<LiveTransportSession>;
+  open!: () => void;
+  fail!: (error: Error) => void;
+
+  constructor(public callbacks: LiveCallbacks) {
+    this.promise = new Promise((resolve, reject) => {
+      this.open = () => resolve(this.session);
+      this.fail = reject;
+    });
+  }
+
+  drop(code = 1006, reason = 'Connection reset') {
+    this.callbacks.onclose?.({ code, reason } as CloseEvent);
+  }
+
+  send(message: object) {
+    this.callbacks.onmessage(message as LiveServerMessage);
+  }
+}
+
+const createTransport = () => {
+  const connections: FakeConnection[] = [];
+  const transport = vi.fn((callbacks: LiveCallbacks) => {
+    const connection = new FakeConnection(callbacks);
+    connections.push(connection);
+    return connection.promise;
+  });
+  return { transport, connections };
+};
+
+type FakeTrack = { stop: ReturnType<typeof vi.fn>; enabled: boolean };
+
+const createAudio = () => {
+  const tracks: FakeTrack[] = [];
+  const captures: { stop: ReturnType<typeof vi.fn> }[] = [];
+  const audio = {
+    openMicrophone: vi.fn(async () => {
+      const track: FakeTrack = { stop: vi.fn(), enabled: true };
+      tracks.push(track);
+      return { getTracks: () => [track], getAudioTracks: () => [track] } as unknown as MediaStream;
+    }),
+    startCapture: vi.fn(async () => {
+      const capture = { stop: vi.fn() };
+      captures.push(capture);
+      return capture;
+    }),
+    createPlayer: vi.fn(async () => ({ play: vi.fn(), clear: vi.fn(), disconnect: vi.fn() })),
+    close: vi.fn()
+  } satisfies LiveAudioDevices;
+  return { audio, tracks, captures };
+};
+
+const startSession = (overrides: Partial<LiveSessionOptions> = {}) => {
+  const { transport, connections } = createTransport();
+  const { audio, tracks, captures } = createAudio();
+  const states: LiveState[] = [];
+  const transcripts: LiveTranscript[] = [];
+  const session = new LiveSession(
+    {
+      voiceName: 'Puck',
+      contextText: 'A video about testing.',
+      language: 'en',
+      video: null,
+      history: [],
+      onStateChange: (state) => states.push(state),
+      onTranscript: (transcript) => transcripts.push(transcript),
+      ...overrides
+    },
+    'test-model',
+    { transport, audio }
+  );
+  return { session, transport, connections, audio, tracks, captures, states, transcripts };
+};
+
+// Lets pending promise callbacks run without moving the clock
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+describe('LiveSession', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('is connecting until the transport opens, then live', async () => {
+    const { session, connections, states } = startSession();
+    expect(session.getState().status).toBe('connecting');
+
+    connections[0].open();
+    await settle();
+
+    expect(session.getState()).toEqual({ status: 'live', error: null, attempt: 0 });
+    expect(states.map(s => s.status)).toEqual(['live']);
+  });
+
+  it('reconnects after a drop with doubling delays and fails after the last attempt', async () => {
+    const { session, transport, connections, audio } = startSession();
+    connections[0].open();
+    await settle();
+
+    connections[0].drop();
+    for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+      expect(session.getState()).toMatchObject({ status: 'reconnecting', attempt, error: { reason: 'connection' } });
+      const delay = RECONNECT_BASE_MS * 2 ** (attempt - 1);
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(transport).toHaveBeenCalledTimes(attempt);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(transport).toHaveBeenCalledTimes(attempt + 1);
+      connections[attempt].fail(new Error('Network unreachable'));
+      await settle();
+    }
+
+    expect(session.getState()).toMatchObject({ status: 'error', error: { reason: 'connection' } });
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(transport).toHaveBeenCalledTimes(MAX_RECONNECT_ATTEMPTS + 1);
+    expect(audio.close).toHaveBeenCalled();
+  });
+
+  it('uses delays of 1s, 2s and 4s for the first reconnects', async () => {
+    const { transport, connections } = startSession();
+    connections[0].open();
+    await settle();
+    connections[0].drop();
+
+    const callTimes: number[] = [];
+    transport.mockImplementation((callbacks: LiveCallbacks) => {
+      callTimes.push(Date.now());
+      const connection = new FakeConnection(callbacks);
+      connections.push(connection);
+      connection.fail(new Error('Network unreachable'));
+      return connection.promise;
+    });
+    const droppedAt = Date.now();
+    await vi.advanceTimersByTimeAsync(7000);
+
+    expect(callTimes.map((t, i) => t - (i ? callTimes[i - 1] : droppedAt))).toEqual([1000, 2000, 4000]);
+  });
+
+  it('fails with an auth error and does not retry when the server closes with 1008', async () => {
+    const { session, transport, connections, audio, tracks } = startSession();
+    connections[0].open();
+    await settle();
+
+    connections[0].drop(1008, 'Policy violation');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(session.getState()).toMatchObject({ status: 'error', error: { reason: 'auth' } });
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(tracks[0].stop).toHaveBeenCalled();
+    expect(audio.close).toHaveBeenCalled();
+  });
+
+  it('reports a denied microphone and leaves no track running', async () => {
+    const { transport, connections } = createTransport();
+    const { audio, tracks } = createAudio();
+    audio.openMicrophone.mockRejectedValueOnce(Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' }));
+    const session = new LiveSession(
+      { voiceName: 'Puck', contextText: '', language: 'en', video: null, history: [] },
+      'test-model',
+      { transport, audio }
+    );
+    connections[0].open();
+    await settle();
+
+    expect(session.getState()).toMatchObject({ status: 'error', error: { reason: 'microphone-denied' } });
+    expect(tracks.every(track => track.stop.mock.calls.length > 0)).toBe(true);
+    expect(connections[0].session.close).toHaveBeenCalled();
+    expect(audio.close).toHaveBeenCalled();
+  });
+
+  it('stops the opened tracks when capture is refused', async () => {
+    const { transport, connections } = createTransport();
+    const { audio, tracks } = createAudio();
+    audio.startCapture.mockRejectedValueOnce(Object.assign(new Error('Not allowed'), { name: 'NotAllowedError' }));
+    const session = new LiveSession(
+      { voiceName: 'Puck', contextText: '', language: 'en', video: null, history: [] },
+      'test-model',
+      { transport, audio }
+    );
+    connections[0].open();
+    await settle();
+
+    expect(session.getState()).toMatchObject({ status: 'error', error: { reason: 'microphone-denied' } });
+    expect(tracks).toHaveLength(1);
+    expect(tracks[0].stop).toHaveBeenCalled();
+  });
+
+  it('closes the transport session and stops every track on disconnect', async () => {
+    const { session, connections, tracks, captures, audio, states } = startSession();
+    connections[0].open();
+    await settle();
+    await session.setInputDevice('usb-mic');
+    expect(tracks).toHaveLength(2);
+
+    await session.disconnect();
+
+    expect(connections[0].session.close).toHaveBeenCalled();
+    expect(tracks.every(track => track.stop.mock.calls.length > 0)).toBe(true);
+    expect(captures.every(capture => capture.stop.mock.calls.length > 0)).toBe(true);
+    expect(audio.close).toHaveBeenCalled();
+    expect(states[states.length - 1].status).toBe('closed');
+  });
+
+  it('ignores callbacks from a connection that was replaced', async () => {
+    const { session, transport, connections, states, transcripts } = startSession();
+    connections[0].open();
+    await settle();
+    connections[0].drop();
+    await vi.advanceTimersByTimeAsync(RECONNECT_BASE_MS);
+    expect(transport).toHaveBeenCalledTimes(2);
+
+    const statesBefore = states.length;
+    connections[0].send({ serverContent: { outputTranscription: { text: 'Stale reply' } } });
+    connections[0].drop();
+    expect(states).toHaveLength(statesBefore);
+    expect(transcripts).toHaveLength(0);
+
+    connections[1].open();
+    await settle();
+    expect(session.getState()).toEqual({ status: 'live', error: null, attempt: 0 });
+
+    connections[1].send({ serverContent: { outputTranscription: { text: 'Fresh reply' } } });
+    expect(transcripts.map(t => t.text)).toEqual(['Fresh reply']);
+  });
+
+  it('closes a connection that opens after the session was disconnected', async () => {
+    const { session, connections } = startSession();
+    await session.disconnect();
+
+    connections[0].open();
+    await settle();
+
+    expect(connections[0].session.close).toHaveBeenCalled();
+    expect(session.getState().status).toBe('closed');
+  });
+});
@@ -0,0 +1,168 @@
+import { AnalysisOptions, AnalysisSegment, Language, SegmentAnalysis, VideoAnalysis, VideoClip, VideoReference } from '../types';
+import { analyzeVideo, mergeAnalyses } from './aiProvider';
+import { analysisToMarkdown } from './analysisFormat';
+import { formatTimestamp } from './utils';
+
+/**
+ * Map-reduce analysis of videos too long for one request. The video is split
+ * into time windows that are analyzed separately (the upload is shared; each
+ * request reads only its window), then the window analyses are merged into
+ * one from their text.
+ */
+
+/** Videos longer than this, in seconds, are analyzed in windows */
+export const LONG_VIDEO_SECONDS = 40 * 60;
+/** Longest window analyzed in one request, in seconds */
+export const SEGMENT_SECONDS = 20 * 60;
+
+export const DEFAULT_SEGMENT_CONCURRENCY = 2;
+export const DEFAULT_SEGMENT_RETRIES = 2;
+// Doubled after every failed attempt
+const RETRY_DELAY_MS = 2000;
+
+export interface LongVideoOptions {
+  /** Windows analyzed at the same time */
+  concurrency?: number;
+  /** Extra attempts for a failed window */
+  retries?: number;
+  /** Receives a new array whenever a window changes status */
+  onSegments?: (segments: AnalysisSegment[]) => void;
+  /** Cancels the analysis, including the window requests still running */
+  signal?: AbortSignal;
+}
+
+export interface LongVideoResult {
+  text: string;
+  analysis: VideoAnalysis | null;
+  model: string;
+  /** Every window, including failed ones when the result is partial */
+  segments: AnalysisSegment[];
+}
+
+export const isLongVideo = (range: VideoClip): boolean => range.end - range.start > LONG_VIDEO_SECONDS;
+
+/**
+ * Splits `range` into equal windows of at most `maxSeconds`, so the last one
+ * is never a short leftover.
+ */
+export const planSegments = (range: VideoClip, maxSeconds: number = SEGMENT_SECONDS): AnalysisSegment[] => {
+  const length = range.end - range.start;
+  const count = Math.max(1, Math.ceil(length / maxSeconds));
+  return Array.from({ length: count }, (_, i) => ({
+    start: Math.round(range.start + (i * length) / count),
+    end: i === count - 1 ? range.end : Math.round(range.start + ((i + 1) * length) / count),
+    status: 'queued',
+    attempts: 0,
+    error: null
+  }));
+};
+
+/** Windows that could not be analyzed, i.e. missing from a partial result */
+export const failedSegments = (segments: AnalysisSegment[] | null | undefined): AnalysisSegment[] =>
+  segments?.filter(s => s.status === 'failed') ?? [];
+
+const abortError = () => new DOMException('Cancelled', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Fallback when the merge step fails: the window analyses one after another.
+ */
+const joinSegments = (results: SegmentAnalysis[]): string =>
+  results
+    .map(r => `## ${formatTimestamp(r.clip.start)} – ${formatTimestamp(r.clip.end)}\n\n${r.text.trim()}`)
+    .join('\n\n');
+
+/**
+ * Analyzes `range` of a long video window by window and merges the results.
+ * Windows that still fail after their retries are left out, so the result
+ * may be partial; it only fails when no window could be analyzed.
+ */
+export const analyzeLongVideo = async (
+  video: VideoReference,
+  language: Language,
+  options: AnalysisOptions,
+  range: VideoClip,
+  {
+    concurrency = DEFAULT_SEGMENT_CONCURRENCY,
+    retries = DEFAULT_SEGMENT_RETRIES,
+    onSegments,
+    signal
+  }: LongVideoOptions = {}
+): Promise<LongVideoResult> => {
+  let segments = planSegments(range);
+  const results: (SegmentAnalysis | null)[] = segments.map(() => null);
+  let model: string | null = null;
+
+  const update = (index: number, changes: Partial<AnalysisSegment>) => {
+    segments = segments.map((s, i) => (i === index ? { ...s, ...changes } : s));
+    if (!signal?.aborted) onSegments?.(segments);
+  };
+  onSegments?.(segments);
+
+  const analyzeSegment = async (index: number) => {
+    const clip: VideoClip = { start: segments[index].start, end: segments[index].end };
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) throw abortError();
+      update(index, { status: 'analyzing', attempts: attempt });
+      try {
+        const result = await analyzeVideo(video, language, { ...options, clip, signal });
+        results[index] = { clip, text: result.text, analysis: result.analysis };
+        model = model ?? result.model;
+        update(index, { status: 'done', error: null });
+        return;
+      } catch (error: any) {
+        if (signal?.aborted) throw abortError();
+        console.warn(`Analysis of part ${index + 1} failed (attempt ${attempt}):`, error);
+        if (attempt > retries) {
+          update(index, { status: 'failed', error: error?.message || 'Analysis failed' });
+          return;
+        }
+        update(index, { status: 'retrying', error: error?.message || 'Analysis failed' });
+        await wait(RETRY_DELAY_MS * 2 ** (attempt - 1), signal);
+      }
+    }
+  };
+
+  // A fixed number of workers take the next window until none are left
+  let next = 0;
+  const worker = async () => {
+    while (next < segments.length) {
+      await analyzeSegment(next++);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), segments.length) }, worker));
+
+  const done = results.filter((r): r is SegmentAnalysis => r !== null);
+  if (!done.length) {
+    throw new Error(`None of the ${segments.length} parts of the video could be analyzed. ${segments[0]?.error ?? ''}`.trim());
+  }
+
+  // Each window's chapters already use full video time; together they are the global chapters
+  const chapters = done.flatMap(r => r.analysis?.chapters ?? []).sort((a, b) => a.start - b.start);
+  try {
+    const merged = await mergeAnalyses(done, language, { ...options, signal });
+    if (signal?.aborted) throw abortError();
+    if (!merged.analysis) return { ...merged, segments };
+    const analysis = chapters.length ? { ...merged.analysis, chapters } : merged.analysis;
+    return { text: analysisToMarkdown(analysis, language), analysis, model: merged.model, segments };
+  } catch (error: any) {
+    if (signal?.aborted) throw abortError();
+    console.warn("Merging the part analyses failed, joining them instead...", error);
+    return { text: joinSegments(done), analysis: null, model: model ?? 'unknown', segments };
+  }
+};
@@ -0,0 +1,278 @@
+import { parseTimestamp } from './utils';
+
+/**
+ * Minimal markdown parser used for model output. It produces a small AST
+ * instead of HTML so nothing from the model is ever injected as markup;
+ * raw HTML tags in the source are stripped.
+ */
+
+export type MdInline =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: MdInline[] }
+  | { type: 'em'; children: MdInline[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: MdInline[] }
+  | { type: 'timestamp'; seconds: number; label: string }
+  | { type: 'break' };
+
+export type MdAlign = 'left' | 'center' | 'right' | null;
+
+export type MdBlock =
+  | { type: 'heading'; level: number; children: MdInline[] }
+  | { type: 'paragraph'; children: MdInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MdBlock[][] }
+  | { type: 'code'; lang: string; value: string }
+  | { type: 'table'; align: MdAlign[]; header: MdInline[][]; rows: MdInline[][][] }
+  | { type: 'blockquote'; children: MdBlock[] }
+  | { type: 'hr' };
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+/**
+ * Removes raw HTML. Script/style blocks are dropped with their content,
+ * other tags are removed but their text is kept.
+ */
+export const stripHtml = (text: string): string =>
+  text
+    .replace(/<(script|style|iframe|object)[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '');
+
+export const sanitizeUrl = (href: string): string | null => {
+  const trimmed = href.trim();
+  return SAFE_URL.test(trimmed) ? trimmed : null;
+};
+
+/* ---------- Inline parsing ---------- */
+
+interface InlineRule {
+  pattern: RegExp;
+  build: (m: RegExpExecArray) => MdInline | null;
+}
+
+const inlineRules: InlineRule[] = [
+  {
+    pattern: /`([^`]+)`/,
+    build: (m) => ({ type: 'code', value: m[1] })
+  },
+  {
+    pattern: /\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?\)/,
+    build: (m) => {
+      const href = sanitizeUrl(m[2]);
+      const children = parseInline(m[1]);
+      return href ? { type: 'link', href, children } : { type: 'em', children };
+    }
+  },
+  {
+    // [mm:ss] or [h:mm:ss] that is not the text of a link
+    pattern: /\[(\d{1,2}:\d{2}(?::\d{2})?)\](?!\()/,
+    build: (m) => {
+      const seconds = parseTimestamp(m[1]);
+      return seconds === null ? null : { type: 'timestamp', seconds, label: m[1] };
+    }
+  },
+  {
+    pattern: /\*\*([^*]+(?:\*(?!\*)[^*]*)*)\*\*|__([^_]+)__/,
+    build: (m) => ({ type: 'strong', children: parseInline(m[1] ?? m[2]) })
+  },
+  {
+    pattern: /\*([^*\s](?:[^*]*[^*\s])?)\*|(?<![\w])_([^_\s](?:[^_]*[^_\s])?)_(?![\w])/,
+    build: (m) => ({ type: 'em', children: parseInline(m[1] ?? m[2]) })
+  }
+];
+
+export const parseInline = (text: string): MdInline[] => {
+  const nodes: MdInline[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    // Find the earliest matching rule
+    let best: { index: number; length: number; node: MdInline } | null = null;
+    for (const rule of inlineRules) {
+      const m = rule.pattern.exec(rest);
+      if (!m || (best && m.index >= best.index)) continue;
+      const node = rule.build(m);
+      if (node) best = { index: m.index, length: m[0].length, node };
+    }
+
+    if (!best) {
+      pushText(nodes, rest);
+      break;
+    }
+    if (best.index > 0) pushText(nodes, rest.slice(0, best.index));
+    nodes.push(best.node);
+    rest = rest.slice(best.index + best.length);
+  }
+
+  return nodes;
+};
+
+const pushText = (nodes: MdInline[], value: string) => {
+  // Two trailing spaces or a backslash before a newline are hard breaks
+  const parts = value.split(/(?: {2,}|\\)\n|\n/);
+  parts.forEach((part, i) => {
+    if (i > 0) nodes.push({ type: 'break' });
+    if (!part) return;
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text') {
+      last.value += part;
+    } else {
+      nodes.push({ type: 'text', value: part });
+    }
+  });
+};
+
+/* ---------- Block parsing ---------- */
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([*+-]|\d{1,9}[.)])\s+(.*)$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const parseAlign = (cell: string): MdAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const isBlockStart = (line: string, next: string | undefined): boolean =>
+  FENCE.test(line) || HEADING.test(line) || HR.test(line) || LIST_ITEM.test(line) ||
+  BLOCKQUOTE.test(line) || (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next));
+
+const parseLines = (lines: string[]): MdBlock[] => {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block (content kept verbatim)
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({ type: 'code', lang: fence[2], value: body.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(stripHtml(heading[2])) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    // Table: header row followed by a separator row
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(parseAlign);
+      const rows: MdInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(stripHtml(cells[c] ?? ''))));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: header.map(h => parseInline(stripHtml(h))), rows });
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const m = BLOCKQUOTE.exec(lines[i]);
+        inner.push(m ? m[1] : lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseLines(inner) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const baseIndent = item[1].length;
+      const ordered = /\d/.test(item[2]);
+      const start = ordered ? parseInt(item[2], 10) : 1;
+      const items: MdBlock[][] = [];
+      let current: string[] | null = null;
+
+      while (i < lines.length) {
+        const l = lines[i];
+        const m = LIST_ITEM.exec(l);
+        if (m && m[1].length <= baseIndent + 1 && /\d/.test(m[2]) === ordered) {
+          if (current) items.push(parseLines(current));
+          current = [m[3]];
+          i++;
+          continue;
+        }
+        if (!l.trim()) {
+          // A blank line ends the list unless the next line continues it
+          const next = lines[i + 1];
+          if (next === undefined || !(/^\s+/.test(next) || LIST_ITEM.test(next))) break;
+          current?.push('');
+          i++;
+          continue;
+        }
+        const indent = l.length - l.trimStart().length;
+        if (indent > baseIndent && current) {
+          // Nested content belongs to the current item
+          current.push(l.slice(Math.min(indent, baseIndent + 2)));
+          i++;
+          continue;
+        }
+        if (m || isBlockStart(l, lines[i + 1])) break;
+        // Lazy continuation of the item text
+        current?.push(l.trim());
+        i++;
+      }
+      if (current) items.push(parseLines(current));
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block
+    const para: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i], lines[i + 1])) {
+      para.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(stripHtml(para.join('\n').trim())) });
+  }
+
+  return blocks;
+};
+
+/**
+ * Parses markdown into a list of blocks.
+ */
+export const parseMarkdown = (source: string): MdBlock[] =>
+  parseLines(source.replace(/\r\n?/g, '\n').split('\n'));
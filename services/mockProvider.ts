@@ -0,0 +1,333 @@
+import {
+  AnalysisOptions,
+  Chapter,
+  ComparisonSource,
+  Language,
+  LiveConnection,
+  LiveState,
+  LiveActivity,
+  Transcript,
+  UploadProgress,
+  VideoAIProvider,
+  VideoAnalysis,
+  VideoChatSession,
+  VideoReference,
+  VideoClip,
+  SegmentAnalysis
+} from '../types';
+import { analysisToMarkdown } from './analysisFormat';
+import { formatTimestamp } from './utils';
+import { DEPTH_PROFILES } from './summaryDepth';
+import { DEFAULT_LANGUAGE } from './languages';
+import { youTubeVideoId } from './remoteVideo';
+
+/**
+ * Offline provider that returns canned, deterministic results.
+ * The same input always produces the same output, so the whole app can be
+ * developed and demonstrated without network access or an API key.
+ */
+
+const MOCK_MODEL = 'mock-1';
+// Short pauses keep loading states visible without slowing development down
+const STEP_MS = 120;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * FNV-1a hash, used to derive stable pseudo-random choices from the input.
+ */
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const pick = <T>(items: T[], seed: number, offset = 0): T => items[(seed + offset) % items.length];
+
+const TOPICS = ['Product demo', 'Team update', 'Tutorial', 'Interview', 'Field recording', 'Presentation', 'Review'];
+const OBJECTS = ['Laptop', 'Whiteboard', 'Microphone', 'Car', 'Bicycle', 'Camera', 'Phone'];
+
+/**
+ * Mock output is written in English only; other languages are tagged so the
+ * requested language is still visible.
+ */
+const tagLanguage = (text: string, language: Language) =>
+  language === DEFAULT_LANGUAGE ? text : `[${language}] ${text}`;
+
+/** Display name of a reference, without the mock prefix */
+const titleOf = (video: VideoReference) => video.uri.replace(/^mock:\/\//, '') || video.name;
+
+const buildChapters = (seed: number, language: Language, clip?: VideoClip): Chapter[] => {
+  const count = 3 + (seed % 3);
+  // Chapters of a clip are spread over it, in full video time
+  const step = clip ? (clip.end - clip.start) / count : 45;
+  const offset = clip?.start ?? 0;
+  return Array.from({ length: count }, (_, i) => ({
+    start: Math.round(offset + i * step),
+    end: Math.round(offset + (i + 1) * step),
+    title: tagLanguage(`Part ${i + 1}: ${pick(TOPICS, seed, i)}`, language),
+    description: `Placeholder description for part ${i + 1}.`
+  }));
+};
+
+const buildAnalysis = (title: string, language: Language, highlights: number, clip?: VideoClip): VideoAnalysis => {
+  const seed = hash(title);
+  const part = clip ? ` from ${formatTimestamp(clip.start)} to ${formatTimestamp(clip.end)}` : '';
+  return {
+    summary: tagLanguage(`This is a mock summary of "${title}"${part}, generated offline for development.`, language),
+    highlights: Array.from({ length: highlights }, (_, i) => i + 1).map(n => `Mock highlight ${n} about ${pick(TOPICS, seed, n).toLowerCase()}`),
+    takeaway: 'Switch to a real provider in settings for actual results.',
+    topics: [pick(TOPICS, seed), pick(TOPICS, seed, 3)],
+    people: [{ name: 'Speaker', description: 'Person appearing in the video' }],
+    objects: [{ name: pick(OBJECTS, seed), description: 'Visible in several scenes' }],
+    chapters: buildChapters(seed, language, clip)
+  };
+};
+
+const MOCK_LINES = [
+  'Welcome, and thanks for joining.',
+  'Let me start with a quick overview.',
+  'Could you say more about that?',
+  'Sure, here is how it works in practice.',
+  'That makes sense.',
+  'Let us look at the next part.',
+  'Any questions so far?',
+  'Thanks, that is all for today.'
+];
+
+const buildTranscript = (title: string): Transcript => {
+  const seed = hash(title);
+  const speakerCount = 2 + (seed % 2);
+  const speakers: Record<string, string> = {};
+  for (let i = 1; i <= speakerCount; i++) speakers[`S${i}`] = `Speaker ${i}`;
+  return {
+    segments: MOCK_LINES.map((text, i) => ({
+      start: i * 6,
+      end: i * 6 + 5,
+      speaker: `S${((seed >> i) % speakerCount) + 1}`,
+      text
+    })),
+    speakers,
+    model: MOCK_MODEL,
+    createdAt: Date.now()
+  };
+};
+
+/**
+ * Streams a reply word by word, like a real model would.
+ */
+const streamText = async function* (text: string) {
+  const words = text.split(/(?<=\s)/);
+  for (const word of words) {
+    await sleep(STEP_MS / 4);
+    yield word;
+  }
+};
+
+const createMockChat = (describe: (message: string, turn: number) => string): VideoChatSession => {
+  let turn = 0;
+  return {
+    sendMessageStream: (message: string) => streamText(describe(message, ++turn))
+  };
+};
+
+/**
+ * Renders a short sequence of beeps, one per word (capped), as stand-in speech.
+ */
+const buildSpeechBuffer = (text: string): AudioBuffer => {
+  const sampleRate = 24000;
+  const beeps = Math.min(12, Math.max(1, text.split(/\s+/).filter(Boolean).length));
+  const beepLength = Math.floor(sampleRate * 0.12);
+  const gapLength = Math.floor(sampleRate * 0.06);
+  const buffer = new AudioBuffer({ length: beeps * (beepLength + gapLength), numberOfChannels: 1, sampleRate });
+  const data = buffer.getChannelData(0);
+  const seed = hash(text);
+  for (let b = 0; b < beeps; b++) {
+    const freq = 320 + ((seed >> b) & 7) * 40;
+    const offset = b * (beepLength + gapLength);
+    for (let i = 0; i < beepLength; i++) {
+      const envelope = Math.sin((Math.PI * i) / beepLength);
+      data[offset + i] = 0.2 * envelope * Math.sin((2 * Math.PI * freq * i) / sampleRate);
+    }
+  }
+  return buffer;
+};
+
+const mockAnalysis = async (title: string, language: Language, options: AnalysisOptions) => {
+  await sleep(STEP_MS * 4, options.signal);
+  const { highlights } = DEPTH_PROFILES[options.depth];
+  if (!options.template.structured) {
+    // Echo the template's section headings so each template is recognizable
+    const headings = options.template.prompt.split('\n').filter(line => line.startsWith('#'));
+    const body = (headings.length ? headings : ['### Summary'])
+      .map((heading, i) => `${heading}\n* Mock content for "${title}" [${formatTimestamp((options.clip?.start ?? 0) + i * 45)}]`)
+      .join('\n\n');
+    return { text: `**${options.template.name}** (${options.depth})\n\n${body}`, analysis: null, model: MOCK_MODEL };
+  }
+  const analysis = buildAnalysis(title, language, highlights, options.clip);
+  return { text: analysisToMarkdown(analysis, language), analysis, model: MOCK_MODEL };
+};
+
+export const mockProvider: VideoAIProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  models: {
+    analysis: [MOCK_MODEL],
+    chat: [MOCK_MODEL],
+    speech: [MOCK_MODEL],
+    live: [MOCK_MODEL]
+  },
+  isConfigured: () => true,
+
+  uploadVideo: async (file: File, onProgress?: (progress: UploadProgress) => void, signal?: AbortSignal) => {
+    const total = file.size;
+    for (let step = 0; step <= 4; step++) {
+      onProgress?.({ phase: 'uploading', loaded: (total * step) / 4, total });
+      await sleep(STEP_MS, signal);
+    }
+    onProgress?.({ phase: 'processing', loaded: total, total });
+    await sleep(STEP_MS, signal);
+    return {
+      uri: `mock://${file.name}`,
+      mimeType: file.type || 'video/mp4',
+      name: `files/mock-${hash(`${file.name}:${file.size}`).toString(16)}`,
+      provider: 'mock'
+    };
+  },
+
+  isVideoAvailable: async (video) => video.remote || video.uri.startsWith('mock://'),
+
+  // Accepts the same links as Gemini so linked videos can be tried offline
+  linkVideo: (url) => {
+    const id = youTubeVideoId(url);
+    return id ? { uri: `mock://youtube-${id}`, mimeType: 'video/mp4', name: `youtube/${id}`, provider: 'mock', remote: true } : null;
+  },
+
+  analyzeVideo: (video, language, _model, options) => mockAnalysis(titleOf(video), language, options),
+
+  expandSummary: (video, _previousText, language, _model, options) =>
+    mockAnalysis(video ? titleOf(video) : 'the saved analysis', language, options),
+
+  // One analysis spanning the merged windows
+  mergeAnalyses: (segments: SegmentAnalysis[], language, _model, options) =>
+    mockAnalysis(`${segments.length} merged parts`, language, {
+      ...options,
+      clip: { start: segments[0]?.clip.start ?? 0, end: segments[segments.length - 1]?.clip.end ?? 0 }
+    }),
+
+  analyzeChapters: async (video, language) => {
+    await sleep(STEP_MS * 2);
+    return buildChapters(hash(titleOf(video)), language);
+  },
+
+  transcribeVideo: async (video) => {
+    await sleep(STEP_MS * 4);
+    return buildTranscript(titleOf(video));
+  },
+
+  translateLines: async (lines, target) => {
+    await sleep(STEP_MS * 2);
+    return { lines: lines.map(line => `[${target}] ${line}`), model: MOCK_MODEL };
+  },
+
+  translateTexts: async (texts, target) => {
+    await sleep(STEP_MS * 2);
+    return { texts: texts.map(text => tagLanguage(text, target)), model: MOCK_MODEL };
+  },
+
+  compareVideos: async (sources: ComparisonSource[], language) => {
+    await sleep(STEP_MS * 4);
+    const cite = (s: ComparisonSource) => `[${s.label}]`;
+    const all = `[${sources.map(s => s.label).join(', ')}]`;
+    const text = [
+      '### 🧭 Overview',
+      tagLanguage(`Mock comparison of ${sources.length} videos ${all}.`, language),
+      '',
+      '### ✅ Agreements',
+      `* All videos were analyzed by the offline mock provider ${all}.`,
+      '',
+      '### ⚖️ Differences',
+      ...sources.map(s => `* "${s.title}" focuses on ${pick(TOPICS, hash(s.title)).toLowerCase()} ${cite(s)}.`),
+      '',
+      '### 📋 At a Glance',
+      `| | ${sources.map(s => s.label).join(' | ')} |`,
+      `|---|${sources.map(() => '---').join('|')}|`,
+      `| Topic | ${sources.map(s => pick(TOPICS, hash(s.title))).join(' | ')} |`
+    ].join('\n');
+    return { text, model: MOCK_MODEL };
+  },
+
+  createChat: async (video, language, _model, options) => {
+    const subject = video ? `"${titleOf(video)}"` : 'the saved analysis';
+    const resumed = options?.transcript?.filter(m => m.id !== 'init').length ?? 0;
+    return createMockChat((message, turn) => tagLanguage(
+      `(Mock reply ${resumed + turn}) About ${subject}: you asked "${message}". Switch to a real provider in settings for actual answers.`,
+      language
+    ));
+  },
+
+  createComparisonChat: async (sources, language) => {
+    const all = `[${sources.map(s => s.label).join(', ')}]`;
+    return createMockChat((message, turn) => tagLanguage(`(Mock reply ${turn}) Comparing the videos for "${message}" ${all}.`, language));
+  },
+
+  synthesizeSpeech: async (text) => {
+    await sleep(STEP_MS);
+    return buildSpeechBuffer(text);
+  },
+
+  connectLive: (options): LiveConnection => {
+    // A spoken greeting, transcribed like a real turn
+    const greeting = tagLanguage(`Mock live session with ${options.history.length} earlier messages. Nothing is heard offline.`, options.language);
+    const id = `live-mock-${Date.now()}`;
+    let state: LiveState = { status: 'connecting', error: null, attempt: 0 };
+    const setState = (next: LiveState) => {
+      state = next;
+      options.onStateChange?.(next);
+    };
+    let activity: LiveActivity = 'listening';
+    const setActivity = (next: LiveActivity) => {
+      activity = next;
+      options.onActivityChange?.(next);
+    };
+    const timers = [
+      setTimeout(() => setState({ status: 'live', error: null, attempt: 0 }), STEP_MS),
+      setTimeout(() => setActivity('speaking'), STEP_MS * 2),
+      setTimeout(() => {
+        options.onTranscript?.({ id, role: 'model', text: greeting, final: true });
+        setActivity('listening');
+      }, STEP_MS * 4)
+    ];
+    return {
+      getState: () => state,
+      getActivity: () => activity,
+      // Nothing is played or recorded offline
+      getLevels: () => ({ input: 0, output: 0 }),
+      setMuted: () => { /* No microphone offline */ },
+      setInputDevice: async () => { /* No microphone offline */ },
+      sendFrame: () => { /* Frames are not looked at offline */ },
+      sendPlayerPosition: () => { /* Nobody is watching offline */ },
+      disconnect: async () => {
+        timers.forEach(clearTimeout);
+        if (state.status !== 'closed') setState({ status: 'closed', error: null, attempt: 0 });
+      }
+    };
+  }
+};
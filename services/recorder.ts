@@ -0,0 +1,172 @@
+import { RecordingSource } from '../types';
+
+/**
+ * In-app recording of the screen or camera with MediaRecorder, and trimming of
+ * the result. Trimming plays the chosen part of the recording once and records
+ * it again, since browsers cannot cut video files directly.
+ */
+
+// Preferred first; Safari only records MP4
+const RECORDING_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4'
+];
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export const isScreenCaptureSupported = (): boolean =>
+  isRecordingSupported() && !!navigator.mediaDevices.getDisplayMedia;
+
+const pickRecordingType = (): string => RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+/** The container type without codec parameters, which upload APIs reject */
+const baseType = (type: string) => type.split(';')[0] || 'video/webm';
+
+export interface CaptureStream {
+  stream: MediaStream;
+  /** Stops every device and track opened for the capture */
+  release: () => void;
+}
+
+/**
+ * Opens the screen or camera, with the microphone if asked for. For screen
+ * capture the microphone is mixed with any shared tab or system audio.
+ */
+export const openCaptureStream = async (source: RecordingSource, microphone: boolean): Promise<CaptureStream> => {
+  if (source === 'camera') {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: microphone });
+    return { stream, release: () => stream.getTracks().forEach(track => track.stop()) };
+  }
+
+  const screen = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+  let mic: MediaStream | null = null;
+  if (microphone) {
+    try {
+      mic = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      screen.getTracks().forEach(track => track.stop());
+      throw err;
+    }
+  }
+
+  const audioSources = [screen, mic].filter((s): s is MediaStream => !!s && s.getAudioTracks().length > 0);
+  if (audioSources.length <= 1) {
+    const stream = new MediaStream([...screen.getVideoTracks(), ...(audioSources[0]?.getAudioTracks() ?? [])]);
+    return {
+      stream,
+      release: () => [screen, mic].forEach(s => s?.getTracks().forEach(track => track.stop()))
+    };
+  }
+
+  // MediaRecorder records one audio track, so mix the two
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  audioSources.forEach(s => audioContext.createMediaStreamSource(s).connect(destination));
+  return {
+    stream: new MediaStream([...screen.getVideoTracks(), ...destination.stream.getAudioTracks()]),
+    release: () => {
+      [screen, mic].forEach(s => s?.getTracks().forEach(track => track.stop()));
+      audioContext.close().catch(() => { /* Already closed */ });
+    }
+  };
+};
+
+export interface RecordingHandle {
+  /** Ends the recording and resolves with everything recorded so far */
+  stop: () => Promise<Blob>;
+}
+
+/**
+ * Starts recording `stream`. Data is collected every second so a recording
+ * that ends abruptly (e.g. screen sharing stopped) keeps what was captured.
+ */
+export const startRecording = (stream: MediaStream): RecordingHandle => {
+  const mimeType = pickRecordingType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<Blob>(resolve => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: baseType(recorder.mimeType || mimeType) }));
+  });
+  recorder.start(1000);
+
+  return {
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return stopped;
+    }
+  };
+};
+
+/**
+ * Returns the part of a recording between `start` and `end` seconds. It is
+ * recorded again in real time, so this takes as long as the part itself.
+ */
+export const trimVideo = (
+  source: Blob,
+  start: number,
+  end: number,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.playsInline = true;
+  video.preload = 'auto';
+  // The element's audio goes to the recording instead of the speakers
+  const audioContext = new AudioContext();
+
+  let recording: RecordingHandle | null = null;
+  let finished = false;
+
+  const finish = async (error?: Error) => {
+    if (finished) return;
+    finished = true;
+    video.pause();
+    const blob = recording ? await recording.stop() : null;
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+    audioContext.close().catch(() => { /* Already closed */ });
+    if (error || !blob) reject(error ?? new Error('The recording could not be trimmed.'));
+    else resolve(blob);
+  };
+
+  video.onloadedmetadata = () => {
+    video.currentTime = start;
+  };
+  video.onseeked = () => {
+    if (recording) return;
+    const capture: (() => MediaStream) | undefined =
+      (video as any).captureStream?.bind(video) ?? (video as any).mozCaptureStream?.bind(video);
+    if (!capture) {
+      finish(new Error('This browser cannot trim recordings.'));
+      return;
+    }
+    const audio = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(audio);
+    recording = startRecording(new MediaStream([...capture().getVideoTracks(), ...audio.stream.getAudioTracks()]));
+    video.play().catch(err => finish(err));
+  };
+  video.ontimeupdate = () => {
+    if (!recording) return;
+    onProgress?.(Math.min(1, Math.max(0, (video.currentTime - start) / (end - start))));
+    if (video.currentTime >= end) finish();
+  };
+  video.onended = () => finish();
+  video.onerror = () => finish(new Error('The recording could not be read for trimming.'));
+
+  video.src = url;
+});
+
+/** File name for a recording made now, e.g. "recording-2024-05-01-1430.webm" */
+export const recordingFileName = (type: string): string => {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}`;
+  return `recording-${stamp}.${type.includes('mp4') ? 'mp4' : 'webm'}`;
+};
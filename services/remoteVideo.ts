@@ -0,0 +1,182 @@
+import { RemoteVideoErrorCode, VIDEO_PROXY_HEADER, VIDEO_PROXY_PATH } from '../types';
+import { MAX_VIDEO_BYTES } from './utils';
+
+/**
+ * Loading videos from links. YouTube links are read by the model directly
+ * (see `linkVideo` on the providers); everything else is downloaded, either
+ * straight from the host or, when CORS blocks that, through the dev server
+ * proxy (server/videoProxy.ts).
+ */
+
+export class RemoteVideoError extends Error {
+  constructor(
+    public readonly code: RemoteVideoErrorCode,
+    message: string,
+    /** HTTP status of the remote host, for 'http' errors */
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'RemoteVideoError';
+  }
+}
+
+export interface DownloadProgress {
+  loaded: number;
+  /** Null when the host does not send a length */
+  total: number | null;
+}
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtu.be'];
+
+// Extensions accepted when a host labels the file as generic binary data
+const VIDEO_EXTENSIONS: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  avi: 'video/x-msvideo',
+  mpeg: 'video/mpeg',
+  mpg: 'video/mpeg',
+  '3gp': 'video/3gpp',
+  wmv: 'video/x-ms-wmv',
+  flv: 'video/x-flv'
+};
+
+const GENERIC_TYPES = ['application/octet-stream', 'binary/octet-stream', ''];
+
+const parseUrl = (url: string): URL | null => {
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The video id of a YouTube watch, short, shorts or embed link, or null for
+ * any other URL.
+ */
+export const youTubeVideoId = (url: string): string | null => {
+  const parsed = parseUrl(url);
+  if (!parsed || !YOUTUBE_HOSTS.includes(parsed.hostname)) return null;
+  const id = parsed.hostname === 'youtu.be'
+    ? parsed.pathname.slice(1)
+    : parsed.searchParams.get('v') ?? parsed.pathname.match(/^\/(?:shorts|embed|live)\/([^/]+)/)?.[1];
+  return id && /^[\w-]{11}$/.test(id) ? id : null;
+};
+
+export const isYouTubeUrl = (url: string): boolean => {
+  const parsed = parseUrl(url);
+  return !!parsed && YOUTUBE_HOSTS.includes(parsed.hostname);
+};
+
+const fileNameOf = (url: URL) => decodeURIComponent(url.pathname.split('/').pop() || '') || 'video-from-url';
+
+const extensionType = (url: URL): string | null =>
+  VIDEO_EXTENSIONS[fileNameOf(url).split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+/**
+ * The MIME type to store the download as, or null if the response is not a
+ * video. Generic binary responses are accepted when the file name says video.
+ */
+export const videoContentType = (contentType: string | null, url: URL): string | null => {
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  if (type.startsWith('video/')) return type;
+  return GENERIC_TYPES.includes(type) ? extensionType(url) : null;
+};
+
+/**
+ * Reads a response body into a File, reporting progress and stopping as soon
+ * as the size limit is passed.
+ */
+const readVideo = async (
+  response: Response,
+  url: URL,
+  onProgress?: (progress: DownloadProgress) => void
+): Promise<File> => {
+  if (!response.ok) {
+    throw new RemoteVideoError('http', `The server answered with status ${response.status}.`, response.status);
+  }
+  const type = videoContentType(response.headers.get('content-type'), url);
+  if (!type) {
+    throw new RemoteVideoError('not-video', `The link does not point to a video (${response.headers.get('content-type') || 'unknown type'}).`);
+  }
+  const length = Number(response.headers.get('content-length'));
+  const total = Number.isFinite(length) && length > 0 ? length : null;
+  if (total !== null && total > MAX_VIDEO_BYTES) {
+    throw new RemoteVideoError('too-large', 'The video is larger than the size limit.');
+  }
+
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  onProgress?.({ loaded, total });
+  if (response.body) {
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      loaded += value.byteLength;
+      if (loaded > MAX_VIDEO_BYTES) {
+        reader.cancel().catch(() => { /* Already failing */ });
+        throw new RemoteVideoError('too-large', 'The video is larger than the size limit.');
+      }
+      chunks.push(value);
+      onProgress?.({ loaded, total });
+    }
+  }
+  return new File(chunks as BlobPart[], fileNameOf(url), { type });
+};
+
+/**
+ * Turns an error response of the proxy into the error it describes.
+ */
+const proxyError = async (response: Response): Promise<RemoteVideoError> => {
+  try {
+    const body = await response.json();
+    return new RemoteVideoError(body.code, body.message, body.status);
+  } catch {
+    return new RemoteVideoError('unreachable', `The video proxy failed with status ${response.status}.`);
+  }
+};
+
+/**
+ * Downloads a video from a public URL. Hosts that do not allow cross-origin
+ * requests are retried through the dev server proxy; without the proxy (e.g.
+ * on a static deployment) they fail with 'blocked'.
+ */
+export const fetchRemoteVideo = async (
+  url: string,
+  onProgress?: (progress: DownloadProgress) => void,
+  signal?: AbortSignal
+): Promise<File> => {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    throw new RemoteVideoError('invalid-url', 'Enter a complete http or https link.');
+  }
+
+  let direct: Response | null = null;
+  try {
+    direct = await fetch(parsed.href, { signal });
+  } catch (err: any) {
+    if (err?.name === 'AbortError') throw err;
+    // CORS rejections and network failures look the same from here; let the proxy decide
+    console.warn("Direct video download failed, trying the proxy...", err);
+  }
+  if (direct) return readVideo(direct, parsed, onProgress);
+
+  let proxied: Response;
+  try {
+    proxied = await fetch(`${VIDEO_PROXY_PATH}?url=${encodeURIComponent(parsed.href)}`, { signal });
+  } catch (err: any) {
+    if (err?.name === 'AbortError') throw err;
+    throw new RemoteVideoError('blocked', 'The host does not allow downloads from the browser.');
+  }
+  // Without the proxy the route falls through to the app's index page or a 404
+  if (!proxied.headers.has(VIDEO_PROXY_HEADER)) {
+    throw new RemoteVideoError('blocked', 'The host does not allow downloads from the browser.');
+  }
+  if (!proxied.ok) throw await proxyError(proxied);
+  return readVideo(proxied, parsed, onProgress);
+};
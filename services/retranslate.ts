@@ -0,0 +1,92 @@
+import { Chapter, ChatMessage, Language, VideoAnalysis } from '../types';
+import { translateTexts } from './aiProvider';
+import { analysisToMarkdown } from './analysisFormat';
+
+/**
+ * Re-translation of finished results, so switching language does not need
+ * the video to be analyzed again.
+ */
+
+/**
+ * Hands out translated texts in the order their originals were collected.
+ */
+const reader = (texts: string[]) => {
+  let i = 0;
+  return () => texts[i++];
+};
+
+const chapterTexts = (chapters: Chapter[]) => chapters.flatMap(c => [c.title, c.description]);
+
+// Saved sessions hold copies, so compare by content
+const sameChapters = (a: Chapter[], b: Chapter[]) => JSON.stringify(a) === JSON.stringify(b);
+
+const readChapters = (chapters: Chapter[], next: () => string): Chapter[] =>
+  chapters.map(c => ({ ...c, title: next(), description: next() }));
+
+/**
+ * Translates a summary and its chapters into `target`. A structured analysis
+ * is translated field by field and rendered again, so the section headers
+ * come from the target language pack; free-form text is translated as a whole.
+ */
+export const translateSummary = async (
+  text: string,
+  analysis: VideoAnalysis | null,
+  chapters: Chapter[] | null,
+  target: Language
+): Promise<{ text: string; analysis: VideoAnalysis | null; chapters: Chapter[] | null; model: string }> => {
+  // Chapters that came with a structured analysis are translated as part of it
+  const separateChapters = chapters && !(analysis && sameChapters(chapters, analysis.chapters)) ? chapters : null;
+  const texts = analysis
+    ? [
+        analysis.summary,
+        analysis.takeaway,
+        ...analysis.highlights,
+        ...analysis.topics,
+        ...analysis.people.map(p => p.description),
+        ...analysis.objects.flatMap(o => [o.name, o.description]),
+        ...chapterTexts(analysis.chapters)
+      ]
+    : [text];
+  if (separateChapters) texts.push(...chapterTexts(separateChapters));
+
+  const { texts: translated, model } = await translateTexts(texts, target);
+  const next = reader(translated);
+
+  if (!analysis) {
+    const translatedText = next();
+    return {
+      text: translatedText,
+      analysis: null,
+      chapters: separateChapters ? readChapters(separateChapters, next) : chapters,
+      model
+    };
+  }
+
+  const translatedAnalysis: VideoAnalysis = {
+    summary: next(),
+    takeaway: next(),
+    highlights: analysis.highlights.map(() => next()),
+    topics: analysis.topics.map(() => next()),
+    // Names of people are kept as they are
+    people: analysis.people.map(p => ({ name: p.name, description: next() })),
+    objects: analysis.objects.map(() => ({ name: next(), description: next() })),
+    chapters: readChapters(analysis.chapters, next)
+  };
+  return {
+    text: analysisToMarkdown(translatedAnalysis, target),
+    analysis: translatedAnalysis,
+    chapters: separateChapters ? readChapters(separateChapters, next) : translatedAnalysis.chapters,
+    model
+  };
+};
+
+/**
+ * Translates the text of every chat message; ids, roles and times are kept.
+ */
+export const translateMessages = async (messages: ChatMessage[], target: Language): Promise<ChatMessage[]> => {
+  const withText = messages.filter(m => m.text.trim());
+  if (withText.length === 0) return messages;
+  const { texts } = await translateTexts(withText.map(m => m.text), target);
+  const translated = new Map(withText.map((m, i) => [m.id, texts[i]]));
+  return messages.map(m => translated.has(m.id) ? { ...m, text: translated.get(m.id)! } : m);
+};
@@ -0,0 +1,91 @@
+import { SubtitleCue, SubtitleLanguage, SubtitleTrack, Transcript } from '../types';
+import { translateLines } from './aiProvider';
+
+/**
+ * Subtitle tracks built from the transcript: utterances are split into
+ * readable cues, then translated if another language was asked for.
+ */
+
+// Two lines of 42 characters, the usual broadcast limit
+const MAX_CUE_CHARS = 84;
+const MIN_CUE_SECONDS = 0.5;
+
+/** Millisecond precision is all SRT and VTT can store */
+const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Splits text into chunks of at most MAX_CUE_CHARS, preferring sentence
+ * boundaries and falling back to word boundaries.
+ */
+const splitCaptionText = (text: string): string[] => {
+  const sentences = text.match(/[^.!?።]+[.!?።]*\s*/g) ?? [text];
+  const chunks: string[] = [];
+  let current = '';
+  const push = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+  for (const sentence of sentences) {
+    if ((current + sentence).trim().length <= MAX_CUE_CHARS) {
+      current += sentence;
+      continue;
+    }
+    push();
+    for (const word of sentence.split(/(?<=\s)/)) {
+      if ((current + word).trim().length > MAX_CUE_CHARS) push();
+      current += word;
+    }
+  }
+  push();
+  return chunks;
+};
+
+/**
+ * One or more cues per utterance; the utterance's time is shared between its
+ * cues in proportion to their length.
+ */
+export const buildCaptionCues = (transcript: Transcript): SubtitleCue[] =>
+  transcript.segments.flatMap(segment => {
+    const chunks = splitCaptionText(segment.text);
+    const total = chunks.reduce((sum, c) => sum + c.length, 0) || 1;
+    const duration = Math.max(segment.end - segment.start, MIN_CUE_SECONDS * chunks.length);
+    let start = segment.start;
+    return chunks.map(text => {
+      const end = start + (duration * text.length) / total;
+      const cue = { start: roundTime(start), end: roundTime(end), text };
+      start = end;
+      return cue;
+    });
+  });
+
+export const createSubtitleTrack = async (transcript: Transcript, language: SubtitleLanguage): Promise<SubtitleTrack> => {
+  const cues = buildCaptionCues(transcript);
+  if (language === 'source' || cues.length === 0) {
+    return { language, cues, model: transcript.model, createdAt: Date.now() };
+  }
+  const { lines, model } = await translateLines(cues.map(c => c.text), language);
+  return {
+    language,
+    cues: cues.map((cue, i) => ({ ...cue, text: lines[i] })),
+    model,
+    createdAt: Date.now()
+  };
+};
+
+/**
+ * Cleans up edited cues: drops empty lines, keeps every cue at least
+ * MIN_CUE_SECONDS long and sorts by start time.
+ */
+export const normalizeCues = (cues: SubtitleCue[]): SubtitleCue[] =>
+  cues
+    .filter(c => c.text.trim())
+    .map(c => {
+      const start = Math.max(0, Number.isFinite(c.start) ? c.start : 0);
+      const end = Number.isFinite(c.end) ? c.end : start;
+      return { start, end: Math.max(end, start + MIN_CUE_SECONDS), text: c.text.trim() };
+    })
+    .sort((a, b) => a.start - b.start);
+
+/** Moves every cue by `seconds`, e.g. to fix captions that run early or late */
+export const shiftCues = (cues: SubtitleCue[], seconds: number): SubtitleCue[] =>
+  cues.map(c => ({ ...c, start: Math.max(0, c.start + seconds), end: Math.max(0, c.end + seconds) }));
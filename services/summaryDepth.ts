@@ -0,0 +1,70 @@
+import { Language, SummaryDepth } from '../types';
+import { getTranslation } from './translations';
+
+/**
+ * Summary depth levels. Each level decides how much the prompt asks for and
+ * how much the model may think and write to produce it.
+ */
+
+export interface DepthProfile {
+  /** Fills the {length} placeholder of template prompts */
+  length: string;
+  /** Appended to the template prompt to enforce the level */
+  instruction: string;
+  /** Number of highlights requested from structured analysis */
+  highlights: number;
+  thinkingBudget: number;
+  /** Includes the thinking tokens, so it must stay well above the budget */
+  maxOutputTokens: number;
+}
+
+export const SUMMARY_DEPTHS: SummaryDepth[] = ['tldr', 'standard', 'detailed', 'exhaustive'];
+
+export const DEFAULT_DEPTH: SummaryDepth = 'standard';
+
+export const DEPTH_PROFILES: Record<SummaryDepth, DepthProfile> = {
+  tldr: {
+    length: 'to a single line (one sentence, at most 30 words)',
+    instruction: 'Depth: TL;DR. Answer with one sentence of at most 30 words. Leave out sections, lists and tables unless the output format requires them, and then keep each to a single line.',
+    highlights: 1,
+    thinkingBudget: 256,
+    maxOutputTokens: 2048
+  },
+  standard: {
+    length: 'clear and short (about 300 words in total)',
+    instruction: 'Depth: standard. Cover only the main points.',
+    highlights: 3,
+    thinkingBudget: 1024,
+    maxOutputTokens: 8192
+  },
+  detailed: {
+    length: 'detailed (about 1000 words in total)',
+    instruction: 'Depth: detailed report. Explain each main point with supporting details, examples and timestamps.',
+    highlights: 6,
+    thinkingBudget: 4096,
+    maxOutputTokens: 16384
+  },
+  exhaustive: {
+    length: 'exhaustive, leaving nothing out',
+    instruction: 'Depth: exhaustive notes. Go through the video in order like a transcript, noting everything that is said or shown with its timestamp. Do not shorten or skip parts.',
+    highlights: 10,
+    thinkingBudget: 8192,
+    maxOutputTokens: 32768
+  }
+};
+
+/**
+ * The next deeper level, or null if the depth is already the deepest.
+ */
+export const nextDepth = (depth: SummaryDepth): SummaryDepth | null =>
+  SUMMARY_DEPTHS[SUMMARY_DEPTHS.indexOf(depth) + 1] ?? null;
+
+const DEPTH_NAME_KEYS = {
+  tldr: 'depthTldr',
+  standard: 'depthStandard',
+  detailed: 'depthDetailed',
+  exhaustive: 'depthExhaustive'
+} as const;
+
+export const depthDisplayName = (depth: SummaryDepth, language: Language): string =>
+  getTranslation(language)[DEPTH_NAME_KEYS[depth]];
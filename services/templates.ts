@@ -0,0 +1,227 @@
+import { AnalysisOptions, AnalysisTemplate, Language, SummaryDepth, TemplateRef } from '../types';
+import { getTranslation } from './translations';
+import { DEFAULT_DEPTH, DEPTH_PROFILES } from './summaryDepth';
+import { languageName } from './languages';
+
+/**
+ * Analysis templates: built-in presets plus user-defined ones kept in
+ * localStorage. Prompts may use the {language} and {length} placeholders;
+ * {length} is filled in from the selected depth.
+ */
+
+const CUSTOM_TEMPLATES_KEY = 'analysis_templates';
+const SELECTED_TEMPLATE_KEY = 'analysis_template_selected';
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+const TIMESTAMP_RULE = 'Reference moments in the video with [mm:ss] timestamps.';
+
+export const BUILT_IN_TEMPLATES: AnalysisTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'General summary',
+    description: 'Summary, highlights, topics, people, objects and chapters.',
+    structured: true,
+    builtIn: true,
+    prompt: `You are an expert video analyst.
+Analyze the provided video content and fill in the requested JSON fields with a clear and optimized analysis.
+List chapters in order with mm:ss timestamps covering the whole video.
+Keep the summary {length}.
+Keep the tone professional, clear, and objective. Write every field in {language}.`
+  },
+  {
+    id: 'meeting',
+    name: 'Meeting minutes',
+    description: 'Attendees, decisions and action items with owners.',
+    builtIn: true,
+    prompt: `You are an experienced meeting secretary. Write minutes of the recorded meeting in markdown with these sections:
+### Attendees
+### Agenda & Discussion
+### Decisions
+### Action Items
+(a table with the columns Owner, Task, Due; write "—" when unknown)
+### Open Questions
+${TIMESTAMP_RULE} Keep the minutes {length}. Write in {language}.`
+  },
+  {
+    id: 'lecture',
+    name: 'Lecture notes',
+    description: 'Key concepts, outline and review questions.',
+    builtIn: true,
+    prompt: `You are a diligent student taking notes on a lecture. Write study notes in markdown with these sections:
+### Topic
+### Key Concepts
+(each concept in bold followed by a one-sentence definition)
+### Outline
+### Examples
+### Review Questions
+${TIMESTAMP_RULE} Keep the notes {length}. Write in {language}.`
+  },
+  {
+    id: 'tutorial',
+    name: 'Tutorial steps',
+    description: 'Goal, prerequisites and numbered steps.',
+    builtIn: true,
+    prompt: `You are a technical writer turning a tutorial video into written instructions. Use markdown with these sections:
+### Goal
+### Prerequisites
+### Steps
+(a numbered list, one action per step, each starting with its timestamp)
+### Tips & Pitfalls
+### Result
+${TIMESTAMP_RULE} Keep the instructions {length}. Write in {language}.`
+  },
+  {
+    id: 'sports',
+    name: 'Sports highlights',
+    description: 'Result, key moments timeline and standout players.',
+    builtIn: true,
+    prompt: `You are a sports journalist. Report on the footage in markdown with these sections:
+### Overview
+(teams or athletes, competition and final score or result if shown)
+### Key Moments
+(a chronological list, each item starting with its timestamp)
+### Standout Performers
+### Stats & Notes
+Only report what is visible or audible in the footage. ${TIMESTAMP_RULE} Keep the report {length}. Write in {language}.`
+  },
+  {
+    id: 'security',
+    name: 'Security event log',
+    description: 'Timestamped log of events with severity.',
+    builtIn: true,
+    prompt: `You are a security operator reviewing surveillance footage. Produce an event log in markdown:
+### Event Log
+(a table with the columns Time, Event, Subjects, Location in frame, Severity; severity is Low, Medium or High; Time uses mm:ss)
+### Notable Incidents
+### Observations
+Describe subjects by appearance and behaviour only; never guess identities. Mark anything uncertain as "unclear".
+Keep the summary sections {length}. Write in {language}.`
+  }
+];
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  template: BUILT_IN_TEMPLATES[0],
+  depth: DEFAULT_DEPTH
+};
+
+const BUILT_IN_NAME_KEYS = {
+  general: 'tplGeneral',
+  meeting: 'tplMeeting',
+  lecture: 'tplLecture',
+  tutorial: 'tplTutorial',
+  sports: 'tplSports',
+  security: 'tplSecurity'
+} as const;
+
+/**
+ * Name shown in the UI; built-in templates are translated.
+ */
+export const templateDisplayName = (template: AnalysisTemplate | TemplateRef, language: Language): string => {
+  const key = BUILT_IN_NAME_KEYS[template.id as keyof typeof BUILT_IN_NAME_KEYS];
+  return key ? getTranslation(language)[key] : template.name;
+};
+
+/* ---------- Storage ---------- */
+
+const isTemplate = (value: any): value is AnalysisTemplate =>
+  value && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.prompt === 'string';
+
+export const getCustomTemplates = (): AnalysisTemplate[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CUSTOM_TEMPLATES_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(isTemplate) : [];
+  } catch {
+    return [];
+  }
+};
+
+const setCustomTemplates = (templates: AnalysisTemplate[]) => {
+  localStorage.setItem(CUSTOM_TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const listTemplates = (): AnalysisTemplate[] => [...BUILT_IN_TEMPLATES, ...getCustomTemplates()];
+
+export const getTemplate = (id: string): AnalysisTemplate =>
+  listTemplates().find(t => t.id === id) ?? BUILT_IN_TEMPLATES[0];
+
+/**
+ * Creates or updates a custom template. Built-in templates cannot be changed.
+ */
+export const saveCustomTemplate = (template: Omit<AnalysisTemplate, 'id'> & { id?: string }): AnalysisTemplate => {
+  const saved: AnalysisTemplate = {
+    id: template.id || `custom-${Date.now()}`,
+    name: template.name.trim(),
+    description: template.description.trim(),
+    prompt: template.prompt
+  };
+  if (BUILT_IN_TEMPLATES.some(t => t.id === saved.id)) {
+    throw new Error('Built-in templates cannot be modified');
+  }
+  const others = getCustomTemplates().filter(t => t.id !== saved.id);
+  setCustomTemplates([...others, saved]);
+  return saved;
+};
+
+export const deleteCustomTemplate = (id: string) => {
+  setCustomTemplates(getCustomTemplates().filter(t => t.id !== id));
+  if (getSelectedTemplateId() === id) setSelectedTemplateId(DEFAULT_TEMPLATE_ID);
+};
+
+export const getSelectedTemplateId = (): string => {
+  const id = localStorage.getItem(SELECTED_TEMPLATE_KEY);
+  return id && listTemplates().some(t => t.id === id) ? id : DEFAULT_TEMPLATE_ID;
+};
+
+export const setSelectedTemplateId = (id: string) => {
+  localStorage.setItem(SELECTED_TEMPLATE_KEY, id);
+};
+
+/* ---------- Import / Export ---------- */
+
+export const serializeTemplates = (templates: AnalysisTemplate[]): string =>
+  JSON.stringify(
+    { version: 1, templates: templates.map(({ name, description, prompt }) => ({ name, description, prompt })) },
+    null,
+    2
+  );
+
+/**
+ * Adds the templates from an exported file as new custom templates.
+ * Accepts the export format or a bare array; returns how many were imported.
+ */
+export const importTemplates = (json: string): number => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.templates) ? data.templates : [];
+  const valid = items.filter(item => item && typeof item.name === 'string' && item.name.trim() && typeof item.prompt === 'string' && item.prompt.trim());
+  if (!valid.length) throw new Error('No templates found in the file');
+
+  const now = Date.now();
+  const imported: AnalysisTemplate[] = valid.map((item, i) => ({
+    id: `custom-${now}-${i}`,
+    name: item.name.trim(),
+    description: typeof item.description === 'string' ? item.description.trim() : '',
+    prompt: item.prompt
+  }));
+  setCustomTemplates([...getCustomTemplates(), ...imported]);
+  return imported.length;
+};
+
+/* ---------- Prompt rendering ---------- */
+
+/**
+ * Fills in the placeholders of a template prompt and adds the rules of the depth level.
+ */
+export const renderTemplatePrompt = (template: AnalysisTemplate, language: Language, depth: SummaryDepth): string => {
+  const profile = DEPTH_PROFILES[depth];
+  const prompt = template.prompt
+    .replace(/\{language\}/g, languageName(language))
+    .replace(/\{length\}/g, profile.length);
+  const highlights = template.structured ? ` Give exactly ${profile.highlights} highlights.` : '';
+  return `${prompt}\n${profile.instruction}${highlights}`;
+};
@@ -1,74 +1,20 @@
 import { Language } from '../types';
+import { getLanguagePack } from './languages';
+import { strings as englishStrings, UIStrings } from './languages/en';
 
-export const translations = {
-  en: {
-    appTitle: "Video Summary AI",
-    subtitle: "Next Gen Vision",
-    landingTitle: "Video Understanding",
-    landingDesc: "Instant summaries & chat for videos up to",
-    uploadBtn: "Upload",
-    linkBtn: "Link",
-    dragDropTitle: "Tap to upload video",
-    dragDropSub: "or drag and drop (up to 2GB)",
-    loadUrl: "Load URL",
-    analyzing: "Processing Visual Data...",
-    analyzeBtn: "Analyze Video Content",
-    tabAnalysis: "Analysis",
-    tabChat: "Neural Chat",
-    systemStandby: "System Standby",
-    systemStandbyDesc: "Upload a video and initiate analysis to unlock insights and chat capabilities.",
-    execSummary: "Executive Summary",
-    export: "Export",
-    liveConnection: "LIVE CONNECTION",
-    listening: "Listening...",
-    disconnect: "Disconnect",
-    aiOnline: "AI Assistant Online",
-    chatPlaceholder: "Ask something about the video...",
-    liveBtn: "LIVE",
-    fileSizeLimit: "File size exceeds the 2GB limit.",
-    validFileErr: "Please upload a valid video file.",
-    youtubeErr: "YouTube links are not supported directly. Please upload a file.",
-    failedToFetch: "Failed to fetch video.",
-    apiKeyTitle: "API Key Setup",
-    apiKeyDesc: "Enter your Gemini API key to activate the neural engine.",
-    apiKeyPlaceholder: "Paste your API Key here...",
-    saveBtn: "Initialize System",
-    settings: "Settings"
-  },
-  am: {
-    appTitle: "የቪዲዮ ማጠቃለያ AI",
-    subtitle: "ቀጣይ ትውልድ ቪዥን",
-    landingTitle: "የቪዲዮ ግንዛቤ",
-    landingDesc: "ፈጣን ማጠቃለያ እና ውይይት ለቪዲዮዎች እስከ",
-    uploadBtn: "ጫን",
-    linkBtn: "ሊንክ",
-    dragDropTitle: "ቪዲዮ ለመጫን ይንኩ",
-    dragDropSub: "ወይም ይጎትቱ እና ይጣሉ (እስከ 2GB)",
-    loadUrl: "ሊንኩን ጫን",
-    analyzing: "ምስሉን በመተንተን ላይ...",
-    analyzeBtn: "ቪዲዮውን ተነትን",
-    tabAnalysis: "ማጠቃለያ",
-    tabChat: "AI ውይይት",
-    systemStandby: "ሲስተም ዝግጁ ነው",
-    systemStandbyDesc: "ግንዛቤዎችን እና የውይይት ችሎታዎችን ለመክፈት ቪዲዮ ይጫኑ እና ትንታኔ ያስጀምሩ።",
-    execSummary: "ዋና ማጠቃለያ",
-    export: "ላክ",
-    liveConnection: "ቀጥታ ግንኙነት",
-    listening: "በማዳመጥ ላይ...",
-    disconnect: "አቋርጥ",
-    aiOnline: "AI ረዳት መስመር ላይ ነው",
-    chatPlaceholder: "ስለ ቪዲዮው የሆነ ነገር ይጠይቁ...",
-    liveBtn: "ቀጥታ",
-    fileSizeLimit: "የፋይሉ መጠን ከ2GB በላይ ነው።",
-    validFileErr: "እባክዎ ትክክለኛ የቪዲዮ ፋይል ይጫኑ።",
-    youtubeErr: "የYouTube ሊንኮች በቀጥታ አይደገፉም። እባክዎ ፋይል ይጫኑ።",
-    failedToFetch: "ቪዲዮውን ማምጣት አልተቻለም።",
-    apiKeyTitle: "የኤፒአይ ቁልፍ ማስተካከያ",
-    apiKeyDesc: "ሲስተሙን ለማስጀመር የGemini API ቁልፍ ያስገቡ።",
-    apiKeyPlaceholder: "ቁልፉን እዚህ ይለጥፉ...",
-    saveBtn: "ሲስተሙን አስጀምር",
-    settings: "ቅንብሮች"
+export type { UIStrings };
+
+const merged = new Map<Language, UIStrings>();
+
+/**
+ * UI strings for a language. Keys the language pack does not translate fall
+ * back to English.
+ */
+export const getTranslation = (lang: Language): UIStrings => {
+  let strings = merged.get(lang);
+  if (!strings) {
+    strings = { ...englishStrings, ...getLanguagePack(lang).strings };
+    merged.set(lang, strings);
   }
+  return strings;
 };
-
-export const getTranslation = (lang: Language) => translations[lang];
\ No newline at end of file
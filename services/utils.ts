@@ -1,49 +1,103 @@
+/** Largest video accepted from disk or from a link (2 GB, the Files API limit) */
+export const MAX_VIDEO_BYTES = 2 * 1024 * 1024 * 1024;
+
 /**
- * Converts a File object to a Base64 string.
+ * Formats seconds as mm:ss, or h:mm:ss for videos longer than an hour.
  */
-export const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      if (typeof reader.result === 'string') {
-        // Remove the Data URL prefix (e.g., "data:video/mp4;base64,")
-        const base64String = reader.result.split(',')[1];
-        resolve(base64String);
-      } else {
-        reject(new Error('Failed to convert file to base64'));
-      }
-    };
-    reader.onerror = () => {
-      reject(new Error('Failed to read file. The file might be too large or corrupted.'));
-    };
-  });
+export const formatTimestamp = (totalSeconds: number): string => {
+  const safe = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(safe / 3600);
+  const m = Math.floor((safe % 3600) / 60);
+  const s = safe % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
 };
 
 /**
- * Downloads text content as a file.
+ * Parses a "mm:ss" or "h:mm:ss" timestamp into seconds.
+ * Returns null if the string is not a valid timestamp.
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const parts = value.trim().split(':');
+  if (parts.length < 2 || parts.length > 3) return null;
+  if (!parts.every(p => /^\d+(\.\d+)?$/.test(p))) return null;
+  return parts.reduce((acc, p) => acc * 60 + Number(p), 0);
+};
+
+/**
+ * Downloads a blob as a file.
  */
-export const downloadTextFile = (content: string, filename: string) => {
+export const downloadBlob = (blob: Blob, filename: string) => {
   const element = document.createElement("a");
-  const file = new Blob([content], { type: 'text/plain' });
-  element.href = URL.createObjectURL(file);
+  const url = URL.createObjectURL(blob);
+  element.href = url;
   element.download = filename;
   document.body.appendChild(element); // Required for this to work in FireFox
   element.click();
   document.body.removeChild(element);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 };
 
 /**
- * Fetches a blob from a URL and converts it to a File object.
- * Note: This is subject to CORS restrictions.
+ * Downloads text content as a file.
  */
-export const urlToFile = async (url: string, filename: string): Promise<File> => {
-  try {
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Network response was not ok');
-    const blob = await response.blob();
-    return new File([blob], filename, { type: blob.type || 'video/mp4' });
-  } catch (error) {
-    throw new Error(`Failed to fetch video from URL. CORS restrictions may apply. Error: ${error}`);
-  }
-};
\ No newline at end of file
+export const downloadTextFile = (content: string, filename: string, type: string = 'text/plain') => {
+  downloadBlob(new Blob([content], { type: `${type};charset=utf-8` }), filename);
+};
+
+/**
+ * Formats a byte count as a human readable size.
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+/**
+ * Reads a video's duration and captures a small JPEG thumbnail of an early frame.
+ * Either value is null if it cannot be decoded (e.g. unsupported codec).
+ */
+export const probeVideo = (
+  videoUrl: string,
+  maxWidth: number = 320
+): Promise<{ thumbnail: string | null; duration: number | null }> => {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'metadata';
+    video.src = videoUrl;
+
+    let duration: number | null = null;
+    const timeout = setTimeout(() => finish(null), 10000);
+    const finish = (thumbnail: string | null) => {
+      clearTimeout(timeout);
+      video.removeAttribute('src');
+      video.load();
+      resolve({ thumbnail, duration });
+    };
+
+    video.onloadedmetadata = () => {
+      duration = Number.isFinite(video.duration) ? video.duration : null;
+      // Skip black intro frames but stay inside short clips
+      video.currentTime = Number.isFinite(video.duration) ? Math.min(1, video.duration / 10) : 0;
+    };
+    video.onseeked = () => {
+      try {
+        const scale = Math.min(1, maxWidth / (video.videoWidth || maxWidth));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round((video.videoWidth || maxWidth) * scale);
+        canvas.height = Math.round((video.videoHeight || maxWidth * 9 / 16) * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return finish(null);
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        finish(canvas.toDataURL('image/jpeg', 0.7));
+      } catch (err) {
+        console.warn("Thumbnail capture failed", err);
+        finish(null);
+      }
+    };
+    video.onerror = () => finish(null);
+  });
+};
@@ -0,0 +1,101 @@
+/**
+ * Microphone capture for live sessions, run on the audio thread. Input at the
+ * context's rate is downsampled to 16-bit PCM at `targetRate` and posted in
+ * fixed-size chunks. An energy-based voice activity detector drops silence:
+ * sending stops after `hangoverMs` of quiet and resumes with the chunk before
+ * the speech, so the first syllable is not cut off.
+ *
+ * Messages posted: { type: 'audio', pcm: ArrayBuffer }, { type: 'speech' }
+ * when sending starts, { type: 'pause' } when it stops for silence, and
+ * { type: 'level', rms } every `levelMs` for meters.
+ */
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const {
+      targetRate = 16000,
+      chunkMs = 100,
+      threshold = 0.012,
+      hangoverMs = 800,
+      levelMs = 50
+    } = options.processorOptions || {};
+
+    // Input samples per output sample; each output sample averages them
+    this.ratio = sampleRate / targetRate;
+    this.phase = 0;
+    this.sum = 0;
+    this.count = 0;
+
+    this.chunkLength = Math.round((targetRate * chunkMs) / 1000);
+    this.chunk = new Int16Array(this.chunkLength);
+    this.filled = 0;
+    this.energy = 0;
+
+    this.threshold = threshold;
+    this.hangoverChunks = Math.ceil(hangoverMs / chunkMs);
+    // Start silent so nothing is sent before the user speaks
+    this.quietChunks = this.hangoverChunks + 1;
+    this.preRoll = null;
+
+    // Loudness of the unprocessed input, reported for meters
+    this.levelLength = Math.round((sampleRate * levelMs) / 1000);
+    this.levelEnergy = 0;
+    this.levelCount = 0;
+  }
+
+  emit(value) {
+    const sample = Math.max(-1, Math.min(1, value));
+    this.chunk[this.filled++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    this.energy += sample * sample;
+    if (this.filled === this.chunkLength) this.flush();
+  }
+
+  flush() {
+    const rms = Math.sqrt(this.energy / this.chunkLength);
+    const chunk = this.chunk;
+    this.chunk = new Int16Array(this.chunkLength);
+    this.filled = 0;
+    this.energy = 0;
+
+    const wasSending = this.quietChunks <= this.hangoverChunks;
+    this.quietChunks = rms >= this.threshold ? 0 : this.quietChunks + 1;
+    const sending = this.quietChunks <= this.hangoverChunks;
+
+    if (sending) {
+      if (!wasSending) this.port.postMessage({ type: 'speech' });
+      if (!wasSending && this.preRoll) {
+        this.port.postMessage({ type: 'audio', pcm: this.preRoll.buffer }, [this.preRoll.buffer]);
+      }
+      this.preRoll = null;
+      this.port.postMessage({ type: 'audio', pcm: chunk.buffer }, [chunk.buffer]);
+    } else {
+      if (wasSending) this.port.postMessage({ type: 'pause' });
+      this.preRoll = chunk;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let i = 0; i < input.length; i++) {
+      this.levelEnergy += input[i] * input[i];
+      if (++this.levelCount === this.levelLength) {
+        this.port.postMessage({ type: 'level', rms: Math.sqrt(this.levelEnergy / this.levelCount) });
+        this.levelEnergy = 0;
+        this.levelCount = 0;
+      }
+      this.sum += input[i];
+      this.count++;
+      this.phase += 1;
+      if (this.phase >= this.ratio) {
+        this.phase -= this.ratio;
+        this.emit(this.sum / this.count);
+        this.sum = 0;
+        this.count = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('mic-capture', MicCaptureProcessor);
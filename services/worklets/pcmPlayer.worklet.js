@@ -0,0 +1,78 @@
+/**
+ * Gapless playback of streamed PCM, run on the audio thread. Chunks posted as
+ * Float32Array at the context's rate are queued and played back to back;
+ * when the queue runs dry the output is silent until the next chunk.
+ *
+ * Messages received: { type: 'audio', samples: Float32Array } and
+ * { type: 'clear' }, which drops everything queued (e.g. on interruption).
+ * Messages posted: { type: 'playing', playing } when playback starts or the
+ * queue runs dry, and { type: 'level', rms } every 50ms while playing.
+ */
+class PcmPlayerProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.queue = [];
+    this.offset = 0;
+    this.playing = false;
+    this.levelLength = Math.round(sampleRate * 0.05);
+    this.levelEnergy = 0;
+    this.levelCount = 0;
+    this.port.onmessage = (event) => {
+      const message = event.data;
+      if (message.type === 'audio') {
+        this.queue.push(message.samples);
+      } else if (message.type === 'clear') {
+        this.queue = [];
+        this.offset = 0;
+      }
+    };
+  }
+
+  process(_inputs, outputs) {
+    const output = outputs[0][0];
+    let written = 0;
+    while (written < output.length && this.queue.length) {
+      const current = this.queue[0];
+      const count = Math.min(output.length - written, current.length - this.offset);
+      output.set(current.subarray(this.offset, this.offset + count), written);
+      written += count;
+      this.offset += count;
+      if (this.offset >= current.length) {
+        this.queue.shift();
+        this.offset = 0;
+      }
+    }
+    output.fill(0, written);
+    this.report(written > 0, output);
+    // Copy the mono signal to any further output channels
+    for (let channel = 1; channel < outputs[0].length; channel++) {
+      outputs[0][channel].set(output);
+    }
+    return true;
+  }
+
+  report(playing, output) {
+    if (playing !== this.playing) {
+      this.playing = playing;
+      this.port.postMessage({ type: 'playing', playing });
+      if (!playing) {
+        // Meters drop to zero right away instead of at the next report
+        this.port.postMessage({ type: 'level', rms: 0 });
+        this.levelEnergy = 0;
+        this.levelCount = 0;
+      }
+    }
+    if (!playing) return;
+    for (let i = 0; i < output.length; i++) {
+      this.levelEnergy += output[i] * output[i];
+    }
+    this.levelCount += output.length;
+    if (this.levelCount >= this.levelLength) {
+      this.port.postMessage({ type: 'level', rms: Math.sqrt(this.levelEnergy / this.levelCount) });
+      this.levelEnergy = 0;
+      this.levelCount = 0;
+    }
+  }
+}
+
+registerProcessor('pcm-player', PcmPlayerProcessor);
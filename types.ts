@@ -6,17 +6,243 @@ export interface VideoFile {
   size: number;
 }
 
+/**
+ * A video that has been uploaded to an AI provider (for Gemini, the Files API)
+ * and can be referenced by URI from analysis, chat and live sessions.
+ */
+export interface VideoReference {
+  uri: string;
+  mimeType: string;
+  name: string;
+  /** Provider that holds the upload; missing on older sessions, which are Gemini uploads */
+  provider?: AIProviderId;
+  /**
+   * Set when the provider reads the video straight from a public URL (e.g.
+   * YouTube) instead of an upload; `uri` is then that URL and never expires.
+   */
+  remote?: boolean;
+}
+
+/**
+ * Why a remote video could not be loaded. The dev server proxy reports the
+ * same codes, so both paths map to the same messages.
+ */
+export type RemoteVideoErrorCode =
+  | 'invalid-url'
+  | 'blocked'
+  | 'unreachable'
+  | 'http'
+  | 'not-video'
+  | 'too-large';
+
+/** Dev server route that fetches remote videos for hosts without CORS */
+export const VIDEO_PROXY_PATH = '/api/fetch-video';
+/** Header the proxy sets on every response, so the app can tell it is running */
+export const VIDEO_PROXY_HEADER = 'x-video-proxy';
+
+export type UploadPhase = 'uploading' | 'processing' | 'analyzing';
+
+export interface UploadProgress {
+  phase: UploadPhase;
+  loaded: number;
+  total: number;
+}
+
+export interface VideoEntity {
+  name: string;
+  description: string;
+}
+
+/**
+ * Structured result of a video analysis, produced with a response schema.
+ */
+export interface VideoAnalysis {
+  summary: string;
+  highlights: string[];
+  takeaway: string;
+  topics: string[];
+  people: VideoEntity[];
+  objects: VideoEntity[];
+  chapters: Chapter[];
+}
+
 export interface SummaryState {
   isLoading: boolean;
+  /** Markdown rendition of the analysis, or the raw text when structured output failed */
   text: string | null;
+  /** Structured analysis; null when the model fell back to free-form text */
+  analysis: VideoAnalysis | null;
+  error: string | null;
+  /** Model that produced the analysis */
+  model?: string;
+  analyzedAt?: number;
+  template?: TemplateRef;
+  depth?: SummaryDepth;
+  /** Language the summary is written in */
+  language?: Language;
+  /** The analyzed part of the video; null or missing for the whole video */
+  clip?: VideoClip | null;
+  /** Time windows of a long video analyzed one by one; missing for videos analyzed at once */
+  segments?: AnalysisSegment[] | null;
+}
+
+/**
+ * A time-aligned segment of the video. Times are in seconds.
+ */
+export interface Chapter {
+  start: number;
+  end: number;
+  title: string;
+  description: string;
+}
+
+export interface ChaptersState {
+  isLoading: boolean;
+  items: Chapter[] | null;
+  error: string | null;
+}
+
+/**
+ * One utterance of the transcript. Times are in seconds.
+ */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  /** Key into `Transcript.speakers` */
+  speaker: string;
+  text: string;
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  /** Display name per speaker id; users can rename speakers */
+  speakers: Record<string, string>;
+  model: string;
+  createdAt: number;
+}
+
+export interface TranscriptState {
+  isLoading: boolean;
+  transcript: Transcript | null;
+  error: string | null;
+}
+
+/**
+ * A single timed caption, used for SRT/VTT output.
+ */
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  /** Who speaks the cue; a voice tag in WebVTT, a name prefix in SRT */
+  voice?: string;
+}
+
+/** 'source' keeps the language spoken in the video */
+export type SubtitleLanguage = 'source' | Language;
+
+export interface SubtitleTrack {
+  language: SubtitleLanguage;
+  cues: SubtitleCue[];
+  model: string;
+  createdAt: number;
+}
+
+export interface SubtitlesState {
+  isLoading: boolean;
+  track: SubtitleTrack | null;
   error: string | null;
 }
 
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'pdf' | 'docx' | 'srt' | 'vtt';
+
+/**
+ * How much detail a summary goes into, from a one-line TL;DR to
+ * transcript-style notes.
+ */
+export type SummaryDepth = 'tldr' | 'standard' | 'detailed' | 'exhaustive';
+
+/**
+ * A prompt preset for analysis. The prompt may contain the {language} and
+ * {length} placeholders, which are filled in when the analysis runs.
+ * {length} describes the selected depth.
+ */
+export interface AnalysisTemplate {
+  id: string;
+  name: string;
+  description: string;
+  prompt: string;
+  /** Produces the structured JSON analysis instead of free-form markdown (built-in only) */
+  structured?: boolean;
+  builtIn?: boolean;
+}
+
+/** The template recorded with a result */
+export interface TemplateRef {
+  id: string;
+  name: string;
+}
+
+/** Part of a video, in seconds from its start */
+export interface VideoClip {
+  start: number;
+  end: number;
+}
+
+export type SegmentStatus = 'queued' | 'analyzing' | 'retrying' | 'done' | 'failed';
+
+/**
+ * One time window of a long video. Windows are analyzed separately and the
+ * results merged into one summary.
+ */
+export interface AnalysisSegment extends VideoClip {
+  status: SegmentStatus;
+  /** Attempts made so far, including the running one */
+  attempts: number;
+  error: string | null;
+}
+
+/** The analysis of one window, as passed to the merge step */
+export interface SegmentAnalysis {
+  clip: VideoClip;
+  text: string;
+  analysis: VideoAnalysis | null;
+}
+
+export interface AnalysisOptions {
+  template: AnalysisTemplate;
+  depth: SummaryDepth;
+  /** Only this part of the video is analyzed; the whole video when missing */
+  clip?: VideoClip;
+  /** Cancels the requests still running for this analysis */
+  signal?: AbortSignal;
+}
+
+export interface ExportMetadata {
+  videoName: string;
+  videoSize: number;
+  /** Seconds; null if the player has not reported it */
+  duration: number | null;
+  analyzedAt: number;
+  model: string;
+  language: Language;
+  /** Name of the analysis template, if known */
+  template?: string;
+  /** Display name of the summary depth, if known */
+  depth?: string;
+  /** The analyzed part, when not the whole video */
+  clip?: VideoClip;
+}
+
 export enum InputMode {
   UPLOAD = 'UPLOAD',
-  URL = 'URL'
+  URL = 'URL',
+  RECORD = 'RECORD'
 }
 
+/** What an in-app recording captures */
+export type RecordingSource = 'screen' | 'camera';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
@@ -25,12 +251,301 @@ export interface ChatMessage {
   isAudio?: boolean;
 }
 
+/**
+ * A saved analysis session in the local library (IndexedDB).
+ * The video blob itself is stored separately and only when the user opts in.
+ */
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  /** JPEG data URL of a representative frame */
+  thumbnail: string | null;
+  video: {
+    name: string;
+    type: string;
+    size: number;
+    duration: number | null;
+  };
+  /** Files API reference; may have expired server-side */
+  videoReference: VideoReference | null;
+  summaryText: string;
+  analysis: VideoAnalysis | null;
+  chapters: Chapter[] | null;
+  messages: ChatMessage[];
+  /** Language of the summary */
+  language: Language;
+  model: string;
+  analyzedAt: number;
+  /** Missing on sessions saved before templates existed */
+  template?: TemplateRef | null;
+  /** Missing on sessions saved before depth levels existed */
+  depth?: SummaryDepth;
+  /** The analyzed part of the video; null or missing for the whole video */
+  clip?: VideoClip | null;
+  /** Windows of a long video analysis, including any that failed */
+  segments?: AnalysisSegment[] | null;
+  /** Generated on demand from the transcript tab */
+  transcript?: Transcript | null;
+  subtitles?: SubtitleTrack | null;
+  hasVideoBlob: boolean;
+}
+
+export type BatchJobStatus = 'queued' | 'uploading' | 'analyzing' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchResult {
+  text: string;
+  analysis: VideoAnalysis | null;
+  model: string;
+  analyzedAt: number;
+  template: TemplateRef;
+  depth: SummaryDepth;
+  language: Language;
+  duration: number | null;
+  /** Library session the result was saved to, if saving succeeded */
+  sessionId: string | null;
+}
+
+/**
+ * One video in the batch analysis queue.
+ */
+export interface BatchJob {
+  id: string;
+  video: VideoFile;
+  status: BatchJobStatus;
+  /** Upload progress from 0 to 1 */
+  progress: number;
+  error: string | null;
+  /** Kept across retries so a failed analysis does not re-upload the file */
+  reference: VideoReference | null;
+  result: BatchResult | null;
+}
+
+/** Most videos that can be compared at once (each one is sent in full to the model) */
+export const MAX_COMPARISON_VIDEOS = 4;
+
+/**
+ * A saved video taking part in a cross-video comparison.
+ */
+export interface ComparisonSource {
+  /** Citation label used by the model, e.g. "Video A" */
+  label: string;
+  sessionId: string;
+  title: string;
+  thumbnail: string | null;
+  /** Null if the upload has expired; the saved analysis is used instead */
+  reference: VideoReference | null;
+  summaryText: string;
+}
+
+export interface ComparisonState {
+  sources: ComparisonSource[];
+  isLoading: boolean;
+  report: string | null;
+  error: string | null;
+  model?: string;
+}
+
+/* ---------- AI Providers ---------- */
+
+export type AICapability = 'analysis' | 'chat' | 'speech' | 'live';
+
+export type AIProviderId = 'gemini' | 'mock';
+
+export interface ModelChoice {
+  provider: AIProviderId;
+  model: string;
+}
+
+/** Which provider and model handles each capability */
+export type ProviderSettings = Record<AICapability, ModelChoice>;
+
+/**
+ * A chat conversation that streams its replies, independent of the provider SDK.
+ */
+export interface VideoChatSession {
+  sendMessageStream(message: string): AsyncGenerator<string>;
+}
+
+/** A still of the playing video, streamed to a live session */
+export interface LiveFrame {
+  /** Base64 image data, without a data URL prefix */
+  data: string;
+  mimeType: string;
+  /** Position of the frame in the video, in seconds */
+  time: number;
+}
+
+/** Where the app's video player is */
+export interface PlayerPosition {
+  time: number;
+  paused: boolean;
+}
+
+export type LiveStatus = 'connecting' | 'live' | 'reconnecting' | 'closed' | 'error';
+
+/** Why a live session failed, or why it is reconnecting */
+export type LiveErrorReason = 'microphone-denied' | 'microphone-unavailable' | 'auth' | 'connection';
+
+export interface LiveError {
+  reason: LiveErrorReason;
+  message: string;
+}
+
+export interface LiveState {
+  status: LiveStatus;
+  /** Set for 'error', and for 'reconnecting' with the cause of the drop */
+  error: LiveError | null;
+  /** Reconnect attempts since the session was last live */
+  attempt: number;
+}
+
+/**
+ * Whose turn it is in a live conversation: the user's ('listening'), the
+ * model's while its audio plays ('speaking'), or waiting for the model after
+ * the user stopped talking ('thinking').
+ */
+export type LiveActivity = 'listening' | 'thinking' | 'speaking';
+
+/** Loudness of the microphone and of the model's voice, each from 0 to 1 */
+export interface LiveLevels {
+  input: number;
+  output: number;
+}
+
+/**
+ * A running voice conversation. Audio capture and playback are owned by the provider.
+ */
+export interface LiveConnection {
+  getState(): LiveState;
+  getActivity(): LiveActivity;
+  /** Latest levels; cheap enough to read on every animation frame */
+  getLevels(): LiveLevels;
+  /** While muted nothing from the microphone reaches the model */
+  setMuted(muted: boolean): void;
+  /** Switches to another microphone, or the default one for null */
+  setInputDevice(deviceId: string | null): Promise<void>;
+  /** Shows the model a frame of the video as live video input */
+  sendFrame(frame: LiveFrame): void;
+  /** Tells the model where the player is, after a pause, seek or resume */
+  sendPlayerPosition(position: PlayerPosition): void;
+  disconnect(): Promise<void>;
+}
+
+/** Speech transcribed during a live session */
+export interface LiveTranscript {
+  /** The same for every update of one turn */
+  id: string;
+  role: 'user' | 'model';
+  /** Everything said in the turn so far */
+  text: string;
+  /** True once the turn has ended or the model was interrupted */
+  final: boolean;
+}
+
+export interface LiveSessionOptions {
+  voiceName: string;
+  contextText: string;
+  language: Language;
+  video: VideoReference | null;
+  /** Earlier text and voice chat, continued by the live session */
+  history: ChatMessage[];
+  /** Receives both sides of the conversation as it is spoken */
+  onTranscript?: (transcript: LiveTranscript) => void;
+  /** Receives every change of the connection state */
+  onStateChange?: (state: LiveState) => void;
+  /** Receives every change of whose turn it is */
+  onActivityChange?: (activity: LiveActivity) => void;
+  /** Microphone to use instead of the default one */
+  inputDeviceId?: string | null;
+  /** Start with the microphone muted */
+  muted?: boolean;
+}
+
+export interface ChatSessionOptions {
+  /** Stored transcript to resume */
+  transcript?: ChatMessage[];
+  /** Analysis text used when the video itself is unavailable */
+  contextText?: string;
+}
+
+/**
+ * Everything the app needs from an AI backend. Every method receives the
+ * model chosen for its capability in settings.
+ */
+export interface VideoAIProvider {
+  id: AIProviderId;
+  label: string;
+  /** Models offered per capability; the first one is the default */
+  models: Record<AICapability, string[]>;
+  /** False if the provider cannot be used yet, e.g. because no API key is set */
+  isConfigured(): boolean;
+  uploadVideo(file: File, onProgress?: (progress: UploadProgress) => void, signal?: AbortSignal): Promise<VideoReference>;
+  isVideoAvailable(video: VideoReference): Promise<boolean>;
+  /**
+   * Reference for a public video the provider can read straight from its URL,
+   * or null if the video has to be downloaded and uploaded instead.
+   */
+  linkVideo(url: string): VideoReference | null;
+  analyzeVideo(
+    video: VideoReference,
+    language: Language,
+    model: string,
+    options: AnalysisOptions
+  ): Promise<{ text: string; analysis: VideoAnalysis | null; model: string }>;
+  /**
+   * Rewrites an earlier summary at the depth in `options`. The video is
+   * re-read when its reference is still usable; with null only the text is used.
+   */
+  expandSummary(
+    video: VideoReference | null,
+    previousText: string,
+    language: Language,
+    model: string,
+    options: AnalysisOptions
+  ): Promise<{ text: string; analysis: VideoAnalysis | null; model: string }>;
+  /**
+   * Combines the analyses of consecutive windows of one video into a single
+   * analysis with the template and depth in `options`. Only text is sent.
+   */
+  mergeAnalyses(
+    segments: SegmentAnalysis[],
+    language: Language,
+    model: string,
+    options: AnalysisOptions
+  ): Promise<{ text: string; analysis: VideoAnalysis | null; model: string }>;
+  analyzeChapters(video: VideoReference, language: Language, model: string): Promise<Chapter[]>;
+  /** Verbatim, speaker-labelled transcript in the language spoken in the video */
+  transcribeVideo(video: VideoReference, model: string): Promise<Transcript>;
+  /** Translates caption lines one to one, keeping their order and count */
+  translateLines(lines: string[], target: Language, model: string): Promise<{ lines: string[]; model: string }>;
+  /** Translates markdown texts (report sections, chat messages) one to one, keeping their formatting */
+  translateTexts(texts: string[], target: Language, model: string): Promise<{ texts: string[]; model: string }>;
+  compareVideos(sources: ComparisonSource[], language: Language, model: string): Promise<{ text: string; model: string }>;
+  createChat(video: VideoReference | null, language: Language, model: string, options?: ChatSessionOptions): Promise<VideoChatSession>;
+  createComparisonChat(sources: ComparisonSource[], language: Language, model: string): Promise<VideoChatSession>;
+  synthesizeSpeech(text: string, voiceName: string, model: string): Promise<AudioBuffer>;
+  connectLive(options: LiveSessionOptions, model: string): LiveConnection;
+}
+
 export interface Voice {
   name: string;
   id: string;
 }
 
-export type Language = 'en' | 'am';
+/** Code of a registered language pack, e.g. 'en' (see services/languages) */
+export type Language = string;
+
+/**
+ * Languages are chosen independently for the interface, for generated
+ * reports and for chat and live replies.
+ */
+export interface LanguagePreferences {
+  ui: Language;
+  summary: Language;
+  chat: Language;
+}
 
 export const AVAILABLE_VOICES: Voice[] = [
   { name: 'Puck (Playful)', id: 'Puck' },
@@ -1,5 +1,6 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { videoProxy } from './server/videoProxy';
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
@@ -9,8 +10,11 @@ export default defineConfig(({ mode }) => {
   // Prioritize the variable from loadEnv, but fallback to process.env for CI/CD
   const apiKey = env.API_KEY || process.env.API_KEY;
 
+  // Set VIDEO_PROXY=off to stop the dev server from fetching videos for the app
+  const proxyEnabled = (env.VIDEO_PROXY || process.env.VIDEO_PROXY) !== 'off';
+
   return {
-    plugins: [react()],
+    plugins: [react(), ...(proxyEnabled ? [videoProxy()] : [])],
     base: './', 
     define: {
       // Securely map the environment variable to the process.env object expected by the app